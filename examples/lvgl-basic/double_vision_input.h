@@ -0,0 +1,187 @@
+#pragma once
+
+// Double Vision input injection.
+//
+// Registers a virtual pointer and a virtual keypad with LVGL, so touches, swipes and
+// key presses sent from the extension's camera view drive the UI like the real panel:
+//
+//   POST /command   command=touch&x=120&y=80
+//   POST /command   command=swipe&x1=40&y1=120&x2=280&y2=120&duration=300
+//   POST /command   command=key&key=enter
+//
+// Coordinates are display pixels. Web server handlers only queue the input; LVGL
+// reads it from the indev callbacks on the thread running lv_timer_handler().
+
+#include "lvgl.h"
+#include <ESPAsyncWebServer.h>
+
+// How long a tap keeps the pointer pressed
+#define DV_TAP_DURATION_MS 80
+#define DV_INPUT_QUEUE_LENGTH 8
+
+enum dv_input_type_t {
+    DV_INPUT_TOUCH,
+    DV_INPUT_SWIPE,
+    DV_INPUT_KEY
+};
+
+struct dv_input_t {
+    dv_input_type_t type;
+    lv_coord_t x1, y1, x2, y2;
+    uint32_t duration;
+    uint32_t key;
+};
+
+static QueueHandle_t dv_pointer_queue = NULL;
+static QueueHandle_t dv_key_queue = NULL;
+static lv_indev_t * dv_keypad_indev = NULL;
+
+struct dv_key_name {
+    const char * name;
+    uint32_t key;
+};
+
+static const dv_key_name dv_key_names[] = {
+    { "enter", LV_KEY_ENTER },
+    { "esc", LV_KEY_ESC },
+    { "left", LV_KEY_LEFT },
+    { "right", LV_KEY_RIGHT },
+    { "up", LV_KEY_UP },
+    { "down", LV_KEY_DOWN },
+    { "next", LV_KEY_NEXT },
+    { "prev", LV_KEY_PREV },
+    { "home", LV_KEY_HOME },
+    { "end", LV_KEY_END },
+    { "backspace", LV_KEY_BACKSPACE },
+    { "del", LV_KEY_DEL },
+};
+
+// Returns the LVGL key for a key name, a single character's own code, or 0 if unknown
+static uint32_t dv_parse_key(const String & name) {
+    for (size_t i = 0; i < sizeof(dv_key_names) / sizeof(dv_key_names[0]); i++) {
+        if (name == dv_key_names[i].name) {
+            return dv_key_names[i].key;
+        }
+    }
+    return name.length() == 1 ? (uint32_t)name[0] : 0;
+}
+
+// Plays queued taps and swipes: pressed while the gesture runs, released at its end point
+static void dv_pointer_read(lv_indev_drv_t * drv, lv_indev_data_t * data) {
+    static dv_input_t current;
+    static bool active = false;
+    static uint32_t started = 0;
+    static lv_point_t last = { 0, 0 };
+
+    if (!active && xQueueReceive(dv_pointer_queue, &current, 0) == pdTRUE) {
+        active = true;
+        started = lv_tick_get();
+    }
+    if (!active) {
+        data->point = last;
+        data->state = LV_INDEV_STATE_REL;
+        return;
+    }
+
+    uint32_t duration = current.type == DV_INPUT_TOUCH ? DV_TAP_DURATION_MS : LV_MAX(current.duration, 1);
+    uint32_t elapsed = lv_tick_elapsed(started);
+    if (elapsed >= duration) {
+        data->point.x = current.x2;
+        data->point.y = current.y2;
+        data->state = LV_INDEV_STATE_REL;
+        active = false;
+    } else {
+        data->point.x = current.x1 + (int32_t)(current.x2 - current.x1) * (int32_t)elapsed / (int32_t)duration;
+        data->point.y = current.y1 + (int32_t)(current.y2 - current.y1) * (int32_t)elapsed / (int32_t)duration;
+        data->state = LV_INDEV_STATE_PR;
+    }
+    last = data->point;
+}
+
+// Reports each queued key as one press followed by a release
+static void dv_keypad_read(lv_indev_drv_t * drv, lv_indev_data_t * data) {
+    static uint32_t key = 0;
+    static bool pressed = false;
+
+    if (pressed) {
+        pressed = false;
+        data->state = LV_INDEV_STATE_REL;
+    } else {
+        dv_input_t input;
+        if (xQueueReceive(dv_key_queue, &input, 0) == pdTRUE) {
+            key = input.key;
+            pressed = true;
+            data->state = LV_INDEV_STATE_PR;
+        } else {
+            data->state = LV_INDEV_STATE_REL;
+        }
+    }
+    data->key = key;
+}
+
+// Registers the virtual input devices. Call after the display driver is registered
+// and before the UI is created, so new widgets join the keypad's default group.
+static void dv_input_init() {
+    dv_pointer_queue = xQueueCreate(DV_INPUT_QUEUE_LENGTH, sizeof(dv_input_t));
+    dv_key_queue = xQueueCreate(DV_INPUT_QUEUE_LENGTH, sizeof(dv_input_t));
+
+    static lv_indev_drv_t pointer_drv;
+    lv_indev_drv_init(&pointer_drv);
+    pointer_drv.type = LV_INDEV_TYPE_POINTER;
+    pointer_drv.read_cb = dv_pointer_read;
+    lv_indev_drv_register(&pointer_drv);
+
+    static lv_indev_drv_t keypad_drv;
+    lv_indev_drv_init(&keypad_drv);
+    keypad_drv.type = LV_INDEV_TYPE_KEYPAD;
+    keypad_drv.read_cb = dv_keypad_read;
+    dv_keypad_indev = lv_indev_drv_register(&keypad_drv);
+
+    lv_group_t * group = lv_group_create();
+    lv_group_set_default(group);
+    lv_indev_set_group(dv_keypad_indev, group);
+}
+
+// Queues input for LVGL; safe to call from web server handlers.
+// Returns false if the queue is full or input was not initialized.
+static bool dv_input_push(const dv_input_t & input) {
+    QueueHandle_t queue = input.type == DV_INPUT_KEY ? dv_key_queue : dv_pointer_queue;
+    return queue != NULL && xQueueSend(queue, &input, 0) == pdTRUE;
+}
+
+// Handles the touch, swipe and key commands. Returns false for other commands.
+static bool dv_handle_input_command(const String & command, AsyncWebServerRequest * request) {
+    auto param = [request](const char * name) -> String {
+        return request->hasParam(name, true) ? request->getParam(name, true)->value() : String();
+    };
+
+    dv_input_t input = {};
+    if (command == "touch") {
+        input.type = DV_INPUT_TOUCH;
+        input.x1 = input.x2 = param("x").toInt();
+        input.y1 = input.y2 = param("y").toInt();
+    } else if (command == "swipe") {
+        input.type = DV_INPUT_SWIPE;
+        input.x1 = param("x1").toInt();
+        input.y1 = param("y1").toInt();
+        input.x2 = param("x2").toInt();
+        input.y2 = param("y2").toInt();
+        input.duration = param("duration").toInt();
+    } else if (command == "key") {
+        input.type = DV_INPUT_KEY;
+        input.key = dv_parse_key(param("key"));
+        if (input.key == 0) {
+            request->send(400, "text/plain", "Unknown key");
+            return true;
+        }
+    } else {
+        return false;
+    }
+
+    if (dv_input_push(input)) {
+        request->send(200, "application/json", "{\"status\":\"ok\",\"command\":\"" + command + "\"}");
+    } else {
+        request->send(503, "text/plain", "Input queue full");
+    }
+    return true;
+}
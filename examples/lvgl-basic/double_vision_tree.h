@@ -0,0 +1,166 @@
+#pragma once
+
+// Double Vision widget tree export.
+//
+// Serializes the LVGL object tree of the active screen to JSON so the extension can
+// draw widget outlines over the camera feed and tell the AI what the firmware drew:
+//
+//   { "status": "ok", "command": "widget_tree",
+//     "display": { "width": 320, "height": 240 }, "screen": "main",
+//     "root": { "type": "obj", "x": 0, "y": 0, "w": 320, "h": 240, "hidden": false,
+//               "states": [], "styles": { "bg_color": "#ffffff" }, "overflow": false,
+//               "children": [ ... ] } }
+//
+// LVGL is not thread safe, so call dv_update_widget_tree() from the loop that runs
+// lv_timer_handler(); web server handlers only copy the last serialized tree.
+
+#include "lvgl.h"
+#include <ArduinoJson.h>
+
+// Large enough for a few dozen widgets; raise it for busier screens
+#define DV_TREE_JSON_CAPACITY 16384
+
+static String dv_widget_tree_json;
+static SemaphoreHandle_t dv_tree_mutex = NULL;
+static const char * dv_screen_name = NULL;
+
+// Names the screen being shown, e.g. from the code that loads it, so prompt
+// templates can refer to it as {{screenName}}. Pass a string that stays valid.
+static void dv_set_screen_name(const char * name) {
+    dv_screen_name = name;
+}
+
+struct dv_class_name {
+    const lv_obj_class_t * cls;
+    const char * name;
+};
+
+// Classes not listed here are reported as "obj"
+static const dv_class_name dv_class_names[] = {
+    { &lv_label_class, "label" },
+    { &lv_btn_class, "btn" },
+    { &lv_bar_class, "bar" },
+    { &lv_slider_class, "slider" },
+    { &lv_led_class, "led" },
+    { &lv_img_class, "img" },
+    { &lv_arc_class, "arc" },
+    { &lv_checkbox_class, "checkbox" },
+    { &lv_switch_class, "switch" },
+    { &lv_dropdown_class, "dropdown" },
+    { &lv_roller_class, "roller" },
+    { &lv_textarea_class, "textarea" },
+    { &lv_table_class, "table" },
+};
+
+static const char * dv_type_name(lv_obj_t * obj) {
+    for (size_t i = 0; i < sizeof(dv_class_names) / sizeof(dv_class_names[0]); i++) {
+        if (lv_obj_check_type(obj, dv_class_names[i].cls)) {
+            return dv_class_names[i].name;
+        }
+    }
+    return "obj";
+}
+
+static void dv_color_hex(lv_color_t color, char * out) {
+    lv_color32_t c32;
+    c32.full = lv_color_to32(color);
+    snprintf(out, 8, "#%02x%02x%02x", c32.ch.red, c32.ch.green, c32.ch.blue);
+}
+
+static void dv_serialize_obj(lv_obj_t * obj, JsonObject node) {
+    lv_area_t coords;
+    lv_obj_get_coords(obj, &coords);
+
+    node["type"] = dv_type_name(obj);
+    node["x"] = coords.x1;
+    node["y"] = coords.y1;
+    node["w"] = lv_area_get_width(&coords);
+    node["h"] = lv_area_get_height(&coords);
+    node["hidden"] = lv_obj_has_flag(obj, LV_OBJ_FLAG_HIDDEN);
+
+    JsonArray states = node.createNestedArray("states");
+    lv_state_t state = lv_obj_get_state(obj);
+    if (state & LV_STATE_CHECKED) states.add("checked");
+    if (state & LV_STATE_PRESSED) states.add("pressed");
+    if (state & LV_STATE_FOCUSED) states.add("focused");
+    if (state & LV_STATE_DISABLED) states.add("disabled");
+
+    char color[8];
+    JsonObject styles = node.createNestedObject("styles");
+    if (lv_obj_get_style_bg_opa(obj, LV_PART_MAIN) > LV_OPA_TRANSP) {
+        dv_color_hex(lv_obj_get_style_bg_color(obj, LV_PART_MAIN), color);
+        styles["bg_color"] = color;
+    }
+    dv_color_hex(lv_obj_get_style_text_color(obj, LV_PART_MAIN), color);
+    styles["text_color"] = color;
+    styles["font_height"] = lv_font_get_line_height(lv_obj_get_style_text_font(obj, LV_PART_MAIN));
+    styles["radius"] = lv_obj_get_style_radius(obj, LV_PART_MAIN);
+
+    bool overflow = false;
+    if (lv_obj_check_type(obj, &lv_label_class)) {
+        const char * text = lv_label_get_text(obj);
+        node["text"] = text;
+
+        // Compare the unwrapped text size with the space the label has
+        lv_point_t size;
+        lv_txt_get_size(&size, text,
+                        lv_obj_get_style_text_font(obj, LV_PART_MAIN),
+                        lv_obj_get_style_text_letter_space(obj, LV_PART_MAIN),
+                        lv_obj_get_style_text_line_space(obj, LV_PART_MAIN),
+                        lv_label_get_long_mode(obj) == LV_LABEL_LONG_WRAP ? lv_obj_get_content_width(obj) : LV_COORD_MAX,
+                        LV_TEXT_FLAG_NONE);
+        overflow = size.x > lv_obj_get_content_width(obj) || size.y > lv_obj_get_content_height(obj);
+    } else if (lv_obj_check_type(obj, &lv_textarea_class)) {
+        node["text"] = lv_textarea_get_text(obj);
+    }
+
+    // Children reaching outside a non-scrollable parent are clipped on screen
+    if (!lv_obj_has_flag(obj, LV_OBJ_FLAG_SCROLLABLE)) {
+        overflow = overflow || lv_obj_get_scroll_right(obj) > 0 || lv_obj_get_scroll_bottom(obj) > 0;
+    }
+    node["overflow"] = overflow;
+
+    uint32_t count = lv_obj_get_child_cnt(obj);
+    if (count > 0) {
+        JsonArray children = node.createNestedArray("children");
+        for (uint32_t i = 0; i < count; i++) {
+            dv_serialize_obj(lv_obj_get_child(obj, i), children.createNestedObject());
+        }
+    }
+}
+
+// Re-serializes the active screen. Call periodically from the LVGL loop.
+static void dv_update_widget_tree() {
+    if (dv_tree_mutex == NULL) {
+        dv_tree_mutex = xSemaphoreCreateMutex();
+    }
+
+    DynamicJsonDocument doc(DV_TREE_JSON_CAPACITY);
+    doc["status"] = "ok";
+    doc["command"] = "widget_tree";
+    lv_disp_t * disp = lv_disp_get_default();
+    doc["display"]["width"] = lv_disp_get_hor_res(disp);
+    doc["display"]["height"] = lv_disp_get_ver_res(disp);
+    if (dv_screen_name != NULL) {
+        doc["screen"] = dv_screen_name;
+    }
+    dv_serialize_obj(lv_scr_act(), doc.createNestedObject("root"));
+
+    String json;
+    serializeJson(doc, json);
+
+    xSemaphoreTake(dv_tree_mutex, portMAX_DELAY);
+    dv_widget_tree_json = json;
+    xSemaphoreGive(dv_tree_mutex);
+}
+
+// Returns the last serialized tree; safe to call from web server handlers.
+static String dv_get_widget_tree() {
+    if (dv_tree_mutex == NULL) {
+        return String();
+    }
+    xSemaphoreTake(dv_tree_mutex, portMAX_DELAY);
+    String json = dv_widget_tree_json;
+    xSemaphoreGive(dv_tree_mutex);
+    return json;
+}
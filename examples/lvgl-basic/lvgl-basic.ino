@@ -4,6 +4,12 @@
 // Display and touch driver includes (adjust based on your hardware)
 #include <TFT_eSPI.h>
 
+// Widget tree export for the Double Vision overlay
+#include <WiFi.h>
+#include <ESPAsyncWebServer.h>
+#include "double_vision_tree.h"
+#include "double_vision_input.h"
+
 // LVGL display buffer
 static lv_disp_draw_buf_t draw_buf;
 static lv_color_t buf[LV_HOR_RES_MAX * 10];
@@ -16,6 +22,15 @@ bool double_vision_enabled = true;
 unsigned long last_screen_capture = 0;
 const unsigned long capture_interval = 1000; // 1 second
 
+// WiFi credentials; set doubleVision.devices[].uiAddress to this board's IP address
+const char* ssid = "your_wifi_ssid";
+const char* password = "your_wifi_password";
+
+// Answers Double Vision commands, such as widget_tree and touch, on port 80
+AsyncWebServer server(80);
+unsigned long last_tree_update = 0;
+const unsigned long tree_update_interval = 500;
+
 void setup() {
     Serial.begin(115200);
     Serial.println("Double Vision LVGL Example Starting...");
@@ -39,8 +54,15 @@ void setup() {
     disp_drv.draw_buf = &draw_buf;
     lv_disp_drv_register(&disp_drv);
     
+    // Virtual touch and keypad driven from the extension's camera view
+    dv_input_init();
+    
     // Create the user interface
     create_double_vision_ui();
+    dv_set_screen_name("main");
+    dv_update_widget_tree();
+    
+    setup_double_vision_server();
     
     Serial.println("LVGL initialized. Double Vision ready!");
 }
@@ -48,6 +70,12 @@ void setup() {
 void loop() {
     lv_timer_handler();
     
+    // Keep the exported widget tree current; the web server only reads the copy
+    if (millis() - last_tree_update > tree_update_interval) {
+        dv_update_widget_tree();
+        last_tree_update = millis();
+    }
+    
     // Handle Double Vision screen capture
     if (double_vision_enabled && (millis() - last_screen_capture > capture_interval)) {
         capture_screen_for_ai();
@@ -57,6 +85,43 @@ void loop() {
     delay(5);
 }
 
+void setup_double_vision_server() {
+    WiFi.begin(ssid, password);
+    int attempts = 0;
+    while (WiFi.status() != WL_CONNECTED && attempts < 20) {
+        delay(500);
+        attempts++;
+    }
+    if (WiFi.status() != WL_CONNECTED) {
+        Serial.println("WiFi connection failed; widget tree export and input injection disabled");
+        return;
+    }
+    Serial.print("Widget tree available at http://");
+    Serial.print(WiFi.localIP());
+    Serial.println("/command (command=widget_tree, touch, swipe, key)");
+
+    // Same form-encoded protocol as the ESP32-CAM firmware's /command endpoint
+    server.on("/command", HTTP_POST, [](AsyncWebServerRequest *request) {
+        if (!request->hasParam("command", true)) {
+            request->send(400, "text/plain", "Missing command parameter");
+            return;
+        }
+
+        String command = request->getParam("command", true)->value();
+        if (command == "widget_tree") {
+            String json = dv_get_widget_tree();
+            if (json.length() == 0) {
+                request->send(503, "text/plain", "Widget tree not ready");
+            } else {
+                request->send(200, "application/json", json);
+            }
+        } else if (!dv_handle_input_command(command, request)) {
+            request->send(400, "text/plain", "Unknown command");
+        }
+    });
+    server.begin();
+}
+
 void my_disp_flush(lv_disp_drv_t * disp, const lv_area_t * area, lv_color_t * color_p) {
     uint32_t w = (area->x2 - area->x1 + 1);
     uint32_t h = (area->y2 - area->y1 + 1);
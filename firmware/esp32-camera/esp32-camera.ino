@@ -1,5 +1,6 @@
 #include "esp_camera.h"
 #include <WiFi.h>
+#include <ESPmDNS.h>
 #include <WebSocketsServer.h>
 #include <ESPAsyncWebServer.h>
 #include <ArduinoJson.h>
@@ -26,6 +27,9 @@
 const char* ssid = "your_wifi_ssid";
 const char* password = "your_wifi_password";
 
+// mDNS hostname; give each camera a unique name so Double Vision can tell them apart
+const char* hostname = "double-vision-cam";
+
 // Web server and WebSocket
 AsyncWebServer server(80);
 WebSocketsServer webSocket = WebSocketsServer(81);
@@ -55,6 +59,15 @@ void setup() {
     return;
   }
 
+  // Announce the camera for Double Vision discovery
+  if (MDNS.begin(hostname)) {
+    MDNS.addService("double-vision", "tcp", 80);
+    MDNS.addServiceTxt("double-vision", "tcp", "ws_port", "81");
+    Serial.println("mDNS responder started: " + String(hostname) + ".local");
+  } else {
+    Serial.println("mDNS responder failed to start");
+  }
+
   // Setup web server routes
   setupWebServer();
   
@@ -139,10 +152,11 @@ bool connectWiFi() {
 void setupWebServer() {
   // Status endpoint
   server.on("/status", HTTP_GET, [](AsyncWebServerRequest *request) {
-    DynamicJsonDocument doc(200);
+    DynamicJsonDocument doc(256);
     doc["status"] = "ok";
-    doc["camera"] = "ready";
+    doc["camera"] = esp_camera_sensor_get() != NULL ? "ready" : "unavailable";
     doc["ip"] = WiFi.localIP().toString();
+    doc["name"] = hostname;
     
     String response;
     serializeJson(doc, response);
@@ -1,232 +1,291 @@
-import * as vscode from 'vscode';
-import axios from 'axios';
 import { CameraSnapshot } from './cameraManager';
+import { AIAnalysisResult, ANALYSIS_RESPONSE_FORMAT, buildExpectationPrompt, evaluateExpectation, ExpectationResult } from './analysisResult';
+import { buildCodeGenerationPrompt, buildFileEditPrompt, buildFixPrompt, FileEditRequest, FixRequest, LVGLCodeResult } from './codeGeneration';
+import { ProviderRegistry } from './providers/providerRegistry';
+import { ChatMessage, ProviderImage, ProviderOptions, VisionProvider } from './providers/visionProvider';
+import { ProviderError } from './providers/providerError';
+import { OpenAIProvider } from './providers/openaiProvider';
+import { AnthropicProvider } from './providers/anthropicProvider';
+import { GoogleProvider } from './providers/googleProvider';
+import { CopilotProvider } from './providers/copilotProvider';
+import { LocalProvider } from './providers/localProvider';
+import { formatWidgetTree, WidgetTree } from './widgetTree';
+import { CredentialStore } from './credentials';
+import { Disposable } from './events';
+import { getSettings } from './settings';
+import { UsageTracker } from './usageTracker';
+import { PromptTemplates, PromptVariables } from './promptTemplates';
+import { formatSourceExcerpts, SourceCollector, SourceExcerpt } from './sourceContext';
+import { logger } from './logger';
+import { sleep } from './utils';
 
-export interface AIAnalysisResult {
-    description: string;
-    issues: string[];
-    suggestions: string[];
-    confidence: number;
-    timestamp: Date;
-}
+// Longest wait between retries, and the longest Retry-After worth waiting for
+// before moving on to the next provider
+const MAX_RETRY_DELAY = 30000;
+const BASE_RETRY_DELAY = 1000;
 
+/**
+ * Dispatches analysis and code generation to the provider selected in
+ * `doubleVision.ai.provider`. Backends are looked up in a registry, so new ones
+ * only need to implement VisionProvider and be registered. Each provider has its
+ * own API key and `doubleVision.ai.<provider id>.*` settings.
+ *
+ * Rate limits and transient failures are retried with backoff; when a provider
+ * still fails, the ones in `doubleVision.ai.fallbackProviders` are tried in order.
+ * The analysis and code generation instructions come from the workspace's prompt
+ * templates when one is selected, and analyses and chats include the UI sources
+ * most likely behind the frame when a source collector is given.
+ */
 export class AIProvider {
-    private provider: string;
-    private apiKey: string;
-
-    constructor() {
-        this.provider = vscode.workspace.getConfiguration('doubleVision').get('ai.provider', 'github-copilot');
-        this.apiKey = vscode.workspace.getConfiguration('doubleVision').get('ai.apiKey', '');
-    }
-
-    public async analyzeImage(snapshot: CameraSnapshot): Promise<string> {
-        const base64Image = snapshot.imageData.toString('base64');
-        
-        switch (this.provider) {
-            case 'openai':
-                return this.analyzeWithOpenAI(base64Image);
-            case 'anthropic':
-                return this.analyzeWithAnthropic(base64Image);
-            case 'google':
-                return this.analyzeWithGoogle(base64Image);
-            case 'github-copilot':
-            default:
-                return this.analyzeWithCopilot(base64Image);
-        }
+    private readonly registry = new ProviderRegistry();
+
+    constructor(
+        private readonly credentials: CredentialStore,
+        public readonly usage: UsageTracker = new UsageTracker(),
+        public readonly prompts: PromptTemplates = new PromptTemplates(),
+        private readonly sources?: SourceCollector
+    ) {
+        this.registry.register(new OpenAIProvider());
+        this.registry.register(new AnthropicProvider());
+        this.registry.register(new GoogleProvider());
+        this.registry.register(new CopilotProvider());
+        this.registry.register(new LocalProvider());
     }
 
-    public async generateLVGLCode(description: string, snapshot?: CameraSnapshot): Promise<string> {
-        const prompt = `Generate LVGL C code for ESP32 to create a graphical interface based on this description: ${description}. 
-        The code should be compatible with ESP32 and use LVGL version 8.x. Include proper initialization and styling.`;
-
-        switch (this.provider) {
-            case 'openai':
-                return this.generateCodeWithOpenAI(prompt);
-            case 'anthropic':
-                return this.generateCodeWithAnthropic(prompt);
-            case 'google':
-                return this.generateCodeWithGoogle(prompt);
-            case 'github-copilot':
-            default:
-                return this.generateCodeWithCopilot(prompt);
-        }
+    public registerProvider(provider: VisionProvider): Disposable {
+        return this.registry.register(provider);
     }
 
-    private async analyzeWithCopilot(base64Image: string): Promise<string> {
-        // For GitHub Copilot, we'll use a simplified analysis
-        // In a real implementation, this would integrate with Copilot's API
-        return `GitHub Copilot Analysis:
-        
-This appears to be an ESP32 display output. The image shows:
-- Display resolution: 320x240 pixels
-- Captured at: ${new Date().toISOString()}
+    public getProviders(): VisionProvider[] {
+        return this.registry.list();
+    }
 
-Suggestions for improvement:
-1. Consider adding error handling for display initialization
-2. Implement double buffering for smoother animations
-3. Add touch input handling if using a touch display
-4. Optimize drawing functions for better performance
+    /**
+     * Analyzes a frame. With the device's widget tree the model can check what it
+     * sees against what the firmware actually drew, and with the UI sources it can
+     * name the code that draws it.
+     */
+    public async analyzeImage(snapshot: CameraSnapshot, widgetTree?: WidgetTree): Promise<AIAnalysisResult> {
+        const instructions = await this.prompts.render('analysis', promptVariables(snapshot, widgetTree));
+        return this.analyze(snapshot, `${instructions} ${ANALYSIS_RESPONSE_FORMAT}`, widgetTree, await this.collectSources(widgetTree));
+    }
 
-LVGL specific recommendations:
-- Use lv_obj_set_style_* functions for consistent styling
-- Implement proper event handling for interactive elements
-- Consider using lv_timer for periodic updates instead of delays`;
+    /**
+     * Has the model judge whether a natural-language expectation, such as
+     * "the settings menu is visible", holds for a frame.
+     */
+    public async checkExpectation(snapshot: CameraSnapshot, expectation: string, widgetTree?: WidgetTree): Promise<ExpectationResult> {
+        return evaluateExpectation(await this.analyze(snapshot, buildExpectationPrompt(expectation), widgetTree));
     }
 
-    private async analyzeWithOpenAI(base64Image: string): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('OpenAI API key not configured');
-        }
+    public async generateLVGLCode(description: string, snapshot?: CameraSnapshot): Promise<LVGLCodeResult> {
+        const requirements = await this.prompts.render('codeGeneration', promptVariables(snapshot));
+        const prompt = buildCodeGenerationPrompt(description, snapshot !== undefined, requirements);
+        const image = snapshot ? toProviderImage(snapshot) : undefined;
+        return this.request((provider, options) => provider.generateCode(prompt, image, options));
+    }
 
-        try {
-            const response = await axios.post('https://api.openai.com/v1/chat/completions', {
-                model: 'gpt-4-vision-preview',
-                messages: [
-                    {
-                        role: 'user',
-                        content: [
-                            {
-                                type: 'text',
-                                text: 'Analyze this ESP32 display output. Describe what you see and provide suggestions for improving the graphical interface, especially for LVGL development.'
-                            },
-                            {
-                                type: 'image_url',
-                                image_url: {
-                                    url: `data:image/jpeg;base64,${base64Image}`
-                                }
-                            }
-                        ]
-                    }
-                ],
-                max_tokens: 500
-            }, {
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json'
-                }
-            });
+    /**
+     * Asks for a corrected version of a source excerpt that causes a display issue.
+     */
+    public async generateFix(request: FixRequest, image?: Pick<CameraSnapshot, 'imageData' | 'mimeType'>): Promise<LVGLCodeResult> {
+        const prompt = buildFixPrompt(request, image !== undefined, this.prompts.resolveVariables().lvglVersion);
+        const providerImage = image ? toProviderImage(image) : undefined;
+        return this.request((provider, options) => provider.generateCode(prompt, providerImage, options));
+    }
 
-            return response.data.choices[0].message.content;
-        } catch (error) {
-            throw new Error(`OpenAI API error: ${error}`);
-        }
+    /**
+     * Asks for an updated version of a whole source file.
+     */
+    public async generateFileEdit(request: FileEditRequest, image?: Pick<CameraSnapshot, 'imageData' | 'mimeType'>): Promise<LVGLCodeResult> {
+        const prompt = buildFileEditPrompt(request, image !== undefined, this.prompts.resolveVariables().lvglVersion);
+        const providerImage = image ? toProviderImage(image) : undefined;
+        return this.request((provider, options) => provider.generateCode(prompt, providerImage, options));
     }
 
-    private async analyzeWithAnthropic(base64Image: string): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('Anthropic API key not configured');
+    /**
+     * Continues a conversation about the display, calling `onText` with the reply
+     * so far as it streams in. The model is told about the board, the widget tree
+     * and the UI sources, so follow-up questions can refer to the code. Providers
+     * without chat support are skipped.
+     */
+    public async chat(messages: ChatMessage[], onText: (text: string) => void, widgetTree?: WidgetTree): Promise<string> {
+        const { board, lvglVersion } = this.prompts.resolveVariables(promptVariables(undefined, widgetTree));
+        let system = `You help develop the LVGL ${lvglVersion} user interface of ${board} firmware. A camera watches ` +
+            'the device\'s display; attached frames are camera captures of it, so tell glare, blur and perspective ' +
+            'distortion apart from real display problems. Answer concisely and give code as C for LVGL ' +
+            `${lvglVersion} in fenced code blocks.`;
+        if (widgetTree) {
+            system += `\n\nThe firmware currently reports this LVGL widget tree (coordinates in display pixels of a ` +
+                `${widgetTree.displayWidth}x${widgetTree.displayHeight} display):\n${formatWidgetTree(widgetTree)}`;
+        }
+        const sources = await this.collectSources(widgetTree);
+        if (sources.length > 0) {
+            system += '\n\nThese excerpts of the firmware source most likely draw the display:\n\n' +
+                `${formatSourceExcerpts(sources)}\n\nRefer to this code by function and variable name where it matters.`;
         }
 
-        try {
-            const response = await axios.post('https://api.anthropic.com/v1/messages', {
-                model: 'claude-3-sonnet-20240229',
-                max_tokens: 500,
-                messages: [
-                    {
-                        role: 'user',
-                        content: [
-                            {
-                                type: 'text',
-                                text: 'Analyze this ESP32 display output. Describe what you see and provide suggestions for improving the graphical interface, especially for LVGL development.'
-                            },
-                            {
-                                type: 'image',
-                                source: {
-                                    type: 'base64',
-                                    media_type: 'image/jpeg',
-                                    data: base64Image
-                                }
-                            }
-                        ]
-                    }
-                ]
-            }, {
-                headers: {
-                    'x-api-key': this.apiKey,
-                    'anthropic-version': '2023-06-01',
-                    'Content-Type': 'application/json'
-                }
+        return this.request(async (provider, options) => {
+            if (!provider.chat) {
+                const capable = this.registry.list().filter(candidate => candidate.chat).map(candidate => candidate.id);
+                throw new ProviderError('badRequest', provider.id, `${provider.displayName} does not support chat. ` +
+                    `Select a provider that does (${capable.join(', ')}) in doubleVision.ai.provider, or add one to ` +
+                    'doubleVision.ai.fallbackProviders');
+            }
+            // A retry or fallback starts the reply over
+            let text = '';
+            onText(text);
+            return provider.chat(system, messages, options, delta => {
+                text += delta;
+                onText(text);
             });
+        });
+    }
 
-            return response.data.content[0].text;
-        } catch (error) {
-            throw new Error(`Anthropic API error: ${error}`);
+    private async analyze(
+        snapshot: CameraSnapshot,
+        instructions: string,
+        widgetTree?: WidgetTree,
+        sources: SourceExcerpt[] = []
+    ): Promise<AIAnalysisResult> {
+        let prompt = `${instructions}\n\nThe camera frame is ${snapshot.width}x${snapshot.height} pixels.`;
+        if (widgetTree) {
+            const alignment = snapshot.corrected
+                ? '; the frame is perspective-corrected to the display, so these coordinates map onto it directly'
+                : '';
+            prompt += `\n\nThe firmware reports this LVGL widget tree (coordinates in display pixels of a ` +
+                `${widgetTree.displayWidth}x${widgetTree.displayHeight} display${alignment}):\n` +
+                `${formatWidgetTree(widgetTree)}\n\n` +
+                'Use it to tell real layout problems, such as text overflowing its widget, from camera artifacts ' +
+                'such as glare, moiré, blur or perspective distortion. Only report issues visible in the image.';
         }
+        if (sources.length > 0) {
+            prompt += '\n\nThese excerpts of the firmware source most likely draw this screen:\n\n' +
+                `${formatSourceExcerpts(sources)}\n\n` +
+                'When an issue comes from this code, name the function, widget variable, style or coordinate that ' +
+                'causes it in the issue\'s element and description, and base suggestions on the code rather than ' +
+                'general advice.';
+        }
+        const image = toProviderImage(snapshot);
+        return this.request((provider, options) => provider.analyzeImage(image, prompt, options));
     }
 
-    private async analyzeWithGoogle(base64Image: string): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('Google API key not configured');
+    /**
+     * Sources for an analysis or chat prompt; an answer without them beats none at all.
+     */
+    private async collectSources(widgetTree?: WidgetTree): Promise<SourceExcerpt[]> {
+        try {
+            return await this.sources?.collect(widgetTree) ?? [];
+        } catch (error) {
+            logger.error('Failed to collect UI sources:', error);
+            return [];
         }
+    }
 
-        try {
-            const response = await axios.post(`https://generativelanguage.googleapis.com/v1beta/models/gemini-pro-vision:generateContent?key=${this.apiKey}`, {
-                contents: [
-                    {
-                        parts: [
-                            {
-                                text: 'Analyze this ESP32 display output. Describe what you see and provide suggestions for improving the graphical interface, especially for LVGL development.'
-                            },
-                            {
-                                inline_data: {
-                                    mime_type: 'image/jpeg',
-                                    data: base64Image
-                                }
-                            }
-                        ]
+    /**
+     * Runs a request on the active provider, retrying rate limits and transient
+     * failures, then on each fallback provider in turn. Errors other than
+     * ProviderErrors, such as an exhausted budget, end the request at once, as do
+     * empty or blocked responses: the request was paid for, and the next provider
+     * would be sent the same content.
+     */
+    private async request<T>(call: (provider: VisionProvider, options: ProviderOptions) => Promise<T>): Promise<T> {
+        const maxRetries = getSettings().get('ai.maxRetries', 2);
+        const failures: ProviderError[] = [];
+        for (const provider of this.getProviderChain()) {
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    return await call(provider, await this.getOptions(provider));
+                } catch (error) {
+                    if (!(error instanceof ProviderError) || error.kind === 'invalidResponse') {
+                        throw error;
                     }
-                ]
-            }, {
-                headers: {
-                    'Content-Type': 'application/json'
+                    const delay = attempt < maxRetries ? retryDelay(error, attempt) : undefined;
+                    if (delay === undefined) {
+                        logger.warn(`${provider.displayName} failed:`, error.message);
+                        failures.push(error);
+                        break;
+                    }
+                    logger.warn(`${provider.displayName} failed, retrying in ${Math.round(delay)} ms:`, error.message);
+                    await sleep(delay);
                 }
-            });
+            }
+        }
 
-            return response.data.candidates[0].content.parts[0].text;
-        } catch (error) {
-            throw new Error(`Google API error: ${error}`);
+        if (failures.length === 1) {
+            throw failures[0];
         }
+        throw new Error(`All AI providers failed: ${failures.map(failure => failure.message).join('; ')}`);
     }
 
-    private async generateCodeWithCopilot(prompt: string): Promise<string> {
-        // Simplified LVGL code generation for demo purposes
-        return `// LVGL Code Generated by Double Vision
-#include "lvgl.h"
-
-void create_ui() {
-    // Create a simple button
-    lv_obj_t * btn = lv_btn_create(lv_scr_act());
-    lv_obj_set_size(btn, 120, 50);
-    lv_obj_center(btn);
-    
-    lv_obj_t * label = lv_label_create(btn);
-    lv_label_set_text(label, "Hello");
-    lv_obj_center(label);
-    
-    // Add event handler
-    lv_obj_add_event_cb(btn, btn_event_handler, LV_EVENT_CLICKED, NULL);
-}
-
-static void btn_event_handler(lv_event_t * e) {
-    lv_event_code_t code = lv_event_get_code(e);
-    if(code == LV_EVENT_CLICKED) {
-        // Button clicked
-    }
-}`;
+    /**
+     * The active provider followed by the configured fallbacks, without repeats.
+     */
+    private getProviderChain(): VisionProvider[] {
+        const config = getSettings();
+        const ids = [config.get('ai.provider', 'github-copilot'), ...config.get<string[]>('ai.fallbackProviders', [])];
+        return [...new Set(ids)].map(id => this.getProvider(id));
     }
 
-    private async generateCodeWithOpenAI(prompt: string): Promise<string> {
-        // Similar implementation for other providers...
-        return this.generateCodeWithCopilot(prompt);
+    private getProvider(id: string): VisionProvider {
+        const provider = this.registry.get(id);
+        if (!provider) {
+            const available = this.registry.list().map(p => p.id).join(', ');
+            throw new Error(`Unknown AI provider '${id}'. Available providers: ${available}`);
+        }
+        return provider;
     }
 
-    private async generateCodeWithAnthropic(prompt: string): Promise<string> {
-        // Similar implementation for other providers...
-        return this.generateCodeWithCopilot(prompt);
+    /**
+     * Options for one request. Every request goes through here, so this is also
+     * where the budget is enforced and usage is recorded.
+     */
+    private async getOptions(provider: VisionProvider): Promise<ProviderOptions> {
+        this.usage.assertWithinBudget();
+        const config = getSettings();
+        // Empty settings leave the choice to the provider
+        return {
+            apiKey: await this.credentials.getApiKey(provider.id) ?? '',
+            model: config.get(`ai.${provider.id}.model`, '') || undefined,
+            baseUrl: config.get(`ai.${provider.id}.baseUrl`, '') || undefined,
+            maxTokens: config.get(`ai.${provider.id}.maxTokens`, 0) || undefined,
+            onUsage: usage => this.usage.record(provider.id, usage)
+        };
     }
+}
+
+/**
+ * What a frame tells about the display: its resolution, from the widget tree or a
+ * corrected frame, and the screen the firmware reports.
+ */
+function promptVariables(snapshot?: CameraSnapshot, widgetTree?: WidgetTree): PromptVariables {
+    const corrected = snapshot?.corrected ? snapshot : undefined;
+    return {
+        displayWidth: widgetTree?.displayWidth ?? corrected?.width,
+        displayHeight: widgetTree?.displayHeight ?? corrected?.height,
+        screenName: widgetTree?.screen
+    };
+}
+
+function toProviderImage(snapshot: Pick<CameraSnapshot, 'imageData' | 'mimeType'>): ProviderImage {
+    return {
+        base64: snapshot.imageData.toString('base64'),
+        mimeType: snapshot.mimeType
+    };
+}
 
-    private async generateCodeWithGoogle(prompt: string): Promise<string> {
-        // Similar implementation for other providers...
-        return this.generateCodeWithCopilot(prompt);
+/**
+ * How long to wait before retrying, or undefined when the error is not worth
+ * retrying: the Retry-After the provider asked for if it is not too long,
+ * else exponential backoff with jitter.
+ */
+function retryDelay(error: ProviderError, attempt: number): number | undefined {
+    if (!error.retryable) {
+        return undefined;
     }
-}
\ No newline at end of file
+    if (error.retryAfter !== undefined) {
+        return error.retryAfter <= MAX_RETRY_DELAY ? error.retryAfter : undefined;
+    }
+    const backoff = Math.min(BASE_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY);
+    return backoff / 2 + Math.random() * backoff / 2;
+}
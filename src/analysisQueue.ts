@@ -0,0 +1,95 @@
+import { logger } from './logger';
+
+type Job = () => Promise<void>;
+
+/**
+ * Runs a device's AI requests one at a time. Monitoring offers a frame whenever
+ * one is due; while a request is in flight only the newest offer waits and older
+ * ones are dropped as stale. Requests someone is waiting for (a forced analysis,
+ * a scenario step) are never dropped and run before the waiting offer.
+ */
+export class AnalysisQueue {
+    private readonly queued: Job[] = [];
+    private latest?: Job;
+    private busy = false;
+    private dropped = 0;
+    private idleWaiters: (() => void)[] = [];
+
+    /**
+     * Offers a job that may be dropped if a newer one is offered before it starts.
+     */
+    public offer(job: Job): void {
+        if (this.latest) {
+            this.dropped++;
+        }
+        this.latest = job;
+        this.drain();
+    }
+
+    /**
+     * Queues a job and resolves with its result once it has run.
+     */
+    public run<T>(job: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.queued.push(() => job().then(resolve, reject));
+            this.drain();
+        });
+    }
+
+    /**
+     * Drops the waiting offer, e.g. when monitoring stops.
+     */
+    public clear(): void {
+        this.latest = undefined;
+    }
+
+    /**
+     * Resolves once every queued job and the waiting offer have run.
+     */
+    public whenIdle(): Promise<void> {
+        if (!this.busy) {
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.idleWaiters.push(resolve));
+    }
+
+    public isBusy(): boolean {
+        return this.busy;
+    }
+
+    /**
+     * Offers replaced by a newer one before they could run.
+     */
+    public getDroppedCount(): number {
+        return this.dropped;
+    }
+
+    private async drain(): Promise<void> {
+        if (this.busy) {
+            return;
+        }
+        this.busy = true;
+        try {
+            for (let job = this.next(); job; job = this.next()) {
+                try {
+                    await job();
+                } catch (error) {
+                    logger.error('Queued analysis failed:', error);
+                }
+            }
+        } finally {
+            this.busy = false;
+            const waiters = this.idleWaiters;
+            this.idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    }
+
+    private next(): Job | undefined {
+        const job = this.queued.shift() ?? this.latest;
+        if (job === this.latest) {
+            this.latest = undefined;
+        }
+        return job;
+    }
+}
@@ -0,0 +1,228 @@
+import { isRecord } from './utils';
+
+export type IssueSeverity = 'info' | 'warning' | 'error';
+
+export interface AIIssue {
+    severity: IssueSeverity;
+    description: string;
+    element?: string;
+}
+
+export interface AIAnalysisResult {
+    description: string;
+    issues: AIIssue[];
+    suggestions: string[];
+    confidence: number;
+    timestamp: Date;
+}
+
+/** Severities from least to most severe */
+export const SEVERITIES: IssueSeverity[] = ['info', 'warning', 'error'];
+
+/**
+ * JSON schema every provider is asked to answer with. It is written in the strict
+ * subset accepted by OpenAI structured outputs (every property required, no extra
+ * properties); providers with other schema dialects convert it as needed.
+ */
+export const ANALYSIS_JSON_SCHEMA = {
+    type: 'object',
+    properties: {
+        description: {
+            type: 'string',
+            description: 'What is shown on the display'
+        },
+        issues: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    severity: { type: 'string', enum: SEVERITIES },
+                    description: { type: 'string' },
+                    element: {
+                        type: 'string',
+                        description: 'UI element the issue refers to, or an empty string'
+                    }
+                },
+                required: ['severity', 'description', 'element'],
+                additionalProperties: false
+            }
+        },
+        suggestions: {
+            type: 'array',
+            items: { type: 'string' }
+        },
+        confidence: {
+            type: 'number',
+            description: 'Confidence in the analysis between 0 and 1'
+        }
+    },
+    required: ['description', 'issues', 'suggestions', 'confidence'],
+    additionalProperties: false
+};
+
+/** Appended to every analysis prompt, whichever template it comes from */
+export const ANALYSIS_RESPONSE_FORMAT = 'Respond only with JSON matching the requested schema.';
+
+export interface ExpectationResult {
+    passed: boolean;
+    /** Why the expectation failed, or what the model saw when it held */
+    reason: string;
+    analysis: AIAnalysisResult;
+}
+
+// Verdicts the model is less sure of than this fail, so a guess never passes a test
+const MIN_EXPECTATION_CONFIDENCE = 0.5;
+
+/**
+ * Asks for a verdict on a natural-language expectation in the analysis format:
+ * a failed expectation is reported as an error issue.
+ */
+export function buildExpectationPrompt(expectation: string): string {
+    return `Check whether this expectation holds for the ESP32 display in the image: ${JSON.stringify(expectation)}. ` +
+        'Describe what the display shows. If the expectation does not hold, report an issue with severity "error" ' +
+        'explaining what differs; if it holds, report no error issues. Judge only what the display shows, not the ' +
+        'quality of the camera image. Set confidence to how certain you are of the verdict. ' +
+        ANALYSIS_RESPONSE_FORMAT;
+}
+
+export function evaluateExpectation(analysis: AIAnalysisResult): ExpectationResult {
+    const errors = analysis.issues.filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+        return { passed: false, reason: errors.map(issue => issue.description).join('; '), analysis };
+    }
+    if (analysis.confidence < MIN_EXPECTATION_CONFIDENCE) {
+        return {
+            passed: false,
+            reason: `The AI provider is not sure (confidence ${Math.round(analysis.confidence * 100)}%): ` +
+                (analysis.description || 'no verdict given'),
+            analysis
+        };
+    }
+    return { passed: true, reason: analysis.description, analysis };
+}
+
+/**
+ * Parses a provider response into an AIAnalysisResult. Accepts raw JSON, JSON wrapped
+ * in a markdown fence or surrounded by prose, or an already parsed object. Output that
+ * cannot be interpreted is kept as the description so nothing the model said is lost.
+ */
+export function parseAnalysisResult(response: unknown): AIAnalysisResult {
+    if (typeof response === 'string') {
+        const parsed = extractJson(response);
+        if (parsed === undefined) {
+            return fallbackResult(response);
+        }
+        response = parsed;
+    }
+
+    return normalizeAnalysisResult(response);
+}
+
+export function normalizeAnalysisResult(value: unknown): AIAnalysisResult {
+    if (!isRecord(value)) {
+        return fallbackResult(String(value ?? ''));
+    }
+
+    const issues = Array.isArray(value.issues)
+        ? value.issues.map(normalizeIssue).filter((issue): issue is AIIssue => issue !== undefined)
+        : [];
+    const suggestions = Array.isArray(value.suggestions)
+        ? value.suggestions.filter((s): s is string => typeof s === 'string' && s.trim().length > 0)
+        : [];
+    const confidence = typeof value.confidence === 'number' && isFinite(value.confidence)
+        ? Math.min(1, Math.max(0, value.confidence))
+        : 0;
+
+    return {
+        description: typeof value.description === 'string' ? value.description : '',
+        issues,
+        suggestions,
+        confidence,
+        timestamp: new Date()
+    };
+}
+
+export function getHighestSeverity(result: AIAnalysisResult): IssueSeverity | undefined {
+    let highest: IssueSeverity | undefined;
+    for (const issue of result.issues) {
+        if (!highest || SEVERITIES.indexOf(issue.severity) > SEVERITIES.indexOf(highest)) {
+            highest = issue.severity;
+        }
+    }
+    return highest;
+}
+
+export function formatAnalysisMarkdown(result: AIAnalysisResult): string {
+    const lines: string[] = [result.description || '_No description provided._', ''];
+
+    lines.push('### Issues', '');
+    if (result.issues.length === 0) {
+        lines.push('No issues detected.');
+    } else {
+        for (const issue of result.issues) {
+            const element = issue.element ? ` (${issue.element})` : '';
+            lines.push(`- **${issue.severity.toUpperCase()}**${element}: ${issue.description}`);
+        }
+    }
+
+    lines.push('', '### Suggestions', '');
+    if (result.suggestions.length === 0) {
+        lines.push('No suggestions.');
+    } else {
+        result.suggestions.forEach((suggestion, index) => lines.push(`${index + 1}. ${suggestion}`));
+    }
+
+    lines.push('', `Confidence: ${Math.round(result.confidence * 100)}%`);
+    lines.push(`Timestamp: ${result.timestamp.toISOString()}`);
+    return lines.join('\n');
+}
+
+function normalizeIssue(value: unknown): AIIssue | undefined {
+    if (typeof value === 'string') {
+        return value.trim() ? { severity: 'warning', description: value } : undefined;
+    }
+    if (!isRecord(value) || typeof value.description !== 'string' || !value.description.trim()) {
+        return undefined;
+    }
+
+    const severity = typeof value.severity === 'string' && SEVERITIES.includes(value.severity.toLowerCase() as IssueSeverity)
+        ? value.severity.toLowerCase() as IssueSeverity
+        : 'warning';
+    const element = typeof value.element === 'string' && value.element.trim() ? value.element : undefined;
+
+    return { severity, description: value.description, element };
+}
+
+function extractJson(text: string): unknown {
+    const candidates = [text.trim()];
+
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+    if (fenced) {
+        candidates.push(fenced[1].trim());
+    }
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+        candidates.push(text.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
+
+function fallbackResult(text: string): AIAnalysisResult {
+    return {
+        description: text.trim(),
+        issues: [],
+        suggestions: [],
+        confidence: 0,
+        timestamp: new Date()
+    };
+}
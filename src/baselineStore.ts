@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CameraSnapshot } from './cameraManager';
+import { compareImages, ImageDiffOptions, ImageDiffResult } from './imageDiff';
+import { logger } from './logger';
+
+export interface BaselineInfo {
+    name: string;
+    createdAt: string;
+    width: number;
+    height: number;
+}
+
+export interface BaselineComparison extends ImageDiffResult {
+    name: string;
+    /** Path of the heatmap PNG written next to the baselines */
+    heatmapPath: string;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Golden screen captures kept in a workspace folder. Each screen name maps to
+ * `<name>.jpg` plus `<name>.json` metadata; the most recent diff heatmap for a
+ * screen is written to `diffs/<name>.png`.
+ */
+export class BaselineStore {
+    constructor(private readonly directory: string) {}
+
+    public static isValidName(name: string): boolean {
+        return NAME_PATTERN.test(name);
+    }
+
+    public async save(name: string, snapshot: CameraSnapshot): Promise<BaselineInfo> {
+        this.assertValidName(name);
+        await fs.promises.mkdir(this.directory, { recursive: true });
+
+        const info: BaselineInfo = {
+            name,
+            createdAt: snapshot.timestamp.toISOString(),
+            width: snapshot.width,
+            height: snapshot.height
+        };
+
+        await fs.promises.writeFile(this.imagePath(name), snapshot.imageData);
+        await fs.promises.writeFile(this.infoPath(name), JSON.stringify(info, null, 2));
+        return info;
+    }
+
+    public async list(): Promise<BaselineInfo[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch {
+            return [];
+        }
+
+        const baselines: BaselineInfo[] = [];
+        for (const file of files.filter(f => f.endsWith('.json')).sort()) {
+            try {
+                const content = await fs.promises.readFile(path.join(this.directory, file), 'utf8');
+                baselines.push(JSON.parse(content));
+            } catch (error) {
+                logger.error(`Ignoring unreadable baseline metadata ${file}:`, error);
+            }
+        }
+        return baselines;
+    }
+
+    public async exists(name: string): Promise<boolean> {
+        try {
+            await fs.promises.access(this.imagePath(name));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    public async compare(name: string, snapshot: CameraSnapshot, options?: ImageDiffOptions): Promise<BaselineComparison> {
+        this.assertValidName(name);
+
+        let baseline: Buffer;
+        try {
+            baseline = await fs.promises.readFile(this.imagePath(name));
+        } catch {
+            throw new Error(`No baseline saved for screen "${name}"`);
+        }
+
+        const result = await compareImages(snapshot.imageData, baseline, options);
+
+        const heatmapPath = path.join(this.directory, 'diffs', `${name}.png`);
+        await fs.promises.mkdir(path.dirname(heatmapPath), { recursive: true });
+        await fs.promises.writeFile(heatmapPath, result.heatmap);
+
+        return { ...result, name, heatmapPath };
+    }
+
+    public async delete(name: string): Promise<void> {
+        this.assertValidName(name);
+        await Promise.all([
+            fs.promises.rm(this.imagePath(name), { force: true }),
+            fs.promises.rm(this.infoPath(name), { force: true }),
+            fs.promises.rm(path.join(this.directory, 'diffs', `${name}.png`), { force: true })
+        ]);
+    }
+
+    private imagePath(name: string): string {
+        return path.join(this.directory, `${name}.jpg`);
+    }
+
+    private infoPath(name: string): string {
+        return path.join(this.directory, `${name}.json`);
+    }
+
+    private assertValidName(name: string): void {
+        if (!BaselineStore.isValidName(name)) {
+            throw new Error(`Invalid screen name "${name}". Use letters, digits, '.', '-' or '_'.`);
+        }
+    }
+}
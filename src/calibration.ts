@@ -0,0 +1,358 @@
+import sharp from 'sharp';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type DisplayRotation = 0 | 90 | 180 | 270;
+
+export interface DisplayCalibration {
+    /** Display corners in camera pixels: top-left, top-right, bottom-right, bottom-left as seen by the camera */
+    corners: Point[];
+    /** Camera frame size the corners were picked on */
+    sourceWidth: number;
+    sourceHeight: number;
+    /** Native display resolution */
+    width: number;
+    height: number;
+    /** Clockwise rotation that turns the camera's view of the display upright */
+    rotation: DisplayRotation;
+    /** Row-major 3x3 homography from corrected (pre-rotation) pixels to camera pixels */
+    homography: number[];
+    createdAt: string;
+}
+
+const JPEG_QUALITY = 90;
+// Long edge of the thumbnail used to suggest corners
+const DETECTION_SIZE = 160;
+// Smallest share of the frame a bright region must cover to be taken for the display
+const MIN_DISPLAY_AREA = 0.05;
+
+/**
+ * Builds a calibration from four corners picked on a camera frame. The corners may
+ * be given in any order. Throws if they do not span a usable quadrilateral.
+ */
+export function createCalibration(
+    corners: Point[],
+    sourceWidth: number,
+    sourceHeight: number,
+    width: number,
+    height: number,
+    rotation: DisplayRotation
+): DisplayCalibration {
+    if (corners.length !== 4) {
+        throw new Error('Exactly four display corners are required');
+    }
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+        throw new Error('Display resolution must be positive whole numbers');
+    }
+
+    const ordered = orderCorners(corners);
+    const [warpWidth, warpHeight] = warpSize(width, height, rotation);
+    return {
+        corners: ordered,
+        sourceWidth,
+        sourceHeight,
+        width,
+        height,
+        rotation,
+        homography: computeHomography(rectangle(warpWidth, warpHeight), ordered),
+        createdAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Sorts four points into top-left, top-right, bottom-right, bottom-left order.
+ */
+export function orderCorners(points: Point[]): Point[] {
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    // Clockwise in image coordinates (y points down), starting from the top-left
+    const sorted = [...points].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+    const start = sorted.reduce((best, p, i) => p.x + p.y < sorted[best].x + sorted[best].y ? i : best, 0);
+    return [...sorted.slice(start), ...sorted.slice(0, start)];
+}
+
+/**
+ * Solves for the homography mapping each `from` point onto the matching `to` point
+ * (direct linear transform with h33 fixed to 1). Returns a row-major 3x3 matrix.
+ */
+export function computeHomography(from: Point[], to: Point[]): number[] {
+    const a: number[][] = [];
+    const b: number[] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+        b.push(u);
+        a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+        b.push(v);
+    }
+    return [...solveLinearSystem(a, b), 1];
+}
+
+export function applyHomography(h: number[], x: number, y: number): Point {
+    const w = h[6] * x + h[7] * y + h[8];
+    return {
+        x: (h[0] * x + h[1] * y + h[2]) / w,
+        y: (h[3] * x + h[4] * y + h[5]) / w
+    };
+}
+
+/**
+ * Maps a point on a raw camera frame (in the calibration's source pixels) to display
+ * pixels, undoing the perspective and the rotation. Points off the display are
+ * returned outside the 0..width, 0..height range.
+ */
+export function cameraToDisplay(calibration: DisplayCalibration, point: Point): Point {
+    const [warpWidth, warpHeight] = warpSize(calibration.width, calibration.height, calibration.rotation);
+    const inverse = computeHomography(calibration.corners, rectangle(warpWidth, warpHeight));
+    const { x, y } = applyHomography(inverse, point.x, point.y);
+
+    // Same clockwise rotation sharp applies to the warped frame
+    switch (calibration.rotation) {
+        case 90:
+            return { x: warpHeight - y, y: x };
+        case 180:
+            return { x: warpWidth - x, y: warpHeight - y };
+        case 270:
+            return { x: y, y: warpWidth - x };
+        default:
+            return { x, y };
+    }
+}
+
+/**
+ * Warps a camera frame to the calibrated display: the display region is mapped onto
+ * a rectangle at the display's native resolution and rotated upright. Frames whose
+ * size differs from the one used during calibration have their corners rescaled.
+ * Returns a JPEG.
+ */
+export async function warpToDisplay(imageData: Buffer, calibration: DisplayCalibration): Promise<Buffer> {
+    const source = await sharp(imageData)
+        .removeAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const { width: sourceWidth, height: sourceHeight, channels } = source.info;
+    const [warpWidth, warpHeight] = warpSize(calibration.width, calibration.height, calibration.rotation);
+
+    let homography = calibration.homography;
+    if (sourceWidth !== calibration.sourceWidth || sourceHeight !== calibration.sourceHeight) {
+        const sx = sourceWidth / calibration.sourceWidth;
+        const sy = sourceHeight / calibration.sourceHeight;
+        const corners = calibration.corners.map(p => ({ x: p.x * sx, y: p.y * sy }));
+        homography = computeHomography(rectangle(warpWidth, warpHeight), corners);
+    }
+
+    const warped = warpPixels(source.data, sourceWidth, sourceHeight, channels, homography, warpWidth, warpHeight);
+    return sharp(warped, { raw: { width: warpWidth, height: warpHeight, channels } })
+        .rotate(calibration.rotation)
+        .jpeg({ quality: JPEG_QUALITY })
+        .toBuffer();
+}
+
+/**
+ * Inverse-maps every output pixel through the homography and samples the source
+ * bilinearly. Pixels that fall outside the source are left black.
+ */
+export function warpPixels(
+    source: Buffer,
+    sourceWidth: number,
+    sourceHeight: number,
+    channels: number,
+    homography: number[],
+    width: number,
+    height: number
+): Buffer {
+    const output = Buffer.alloc(width * height * channels);
+
+    for (let v = 0; v < height; v++) {
+        for (let u = 0; u < width; u++) {
+            // Sample at pixel centres
+            const p = applyHomography(homography, u + 0.5, v + 0.5);
+            const x = p.x - 0.5;
+            const y = p.y - 0.5;
+            if (!(x >= 0 && y >= 0 && x <= sourceWidth - 1 && y <= sourceHeight - 1)) {
+                continue;
+            }
+
+            const x0 = Math.floor(x);
+            const y0 = Math.floor(y);
+            const x1 = Math.min(x0 + 1, sourceWidth - 1);
+            const y1 = Math.min(y0 + 1, sourceHeight - 1);
+            const fx = x - x0;
+            const fy = y - y0;
+            const out = (v * width + u) * channels;
+
+            for (let c = 0; c < channels; c++) {
+                const top = source[(y0 * sourceWidth + x0) * channels + c] * (1 - fx) +
+                    source[(y0 * sourceWidth + x1) * channels + c] * fx;
+                const bottom = source[(y1 * sourceWidth + x0) * channels + c] * (1 - fx) +
+                    source[(y1 * sourceWidth + x1) * channels + c] * fx;
+                output[out + c] = Math.round(top * (1 - fy) + bottom * fy);
+            }
+        }
+    }
+    return output;
+}
+
+/**
+ * Suggests display corners by taking the largest bright region of the frame, which
+ * for a backlit LCD in a normally lit room is usually the screen. Returns undefined
+ * when no plausible region is found.
+ */
+export async function suggestCorners(imageData: Buffer): Promise<Point[] | undefined> {
+    const original = await sharp(imageData).metadata();
+    const thumbnail = await sharp(imageData)
+        .greyscale()
+        .resize(DETECTION_SIZE, DETECTION_SIZE, { fit: 'inside' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const { width, height } = thumbnail.info;
+
+    const corners = findBrightRegionCorners(thumbnail.data, width, height);
+    if (!corners || !original.width || !original.height) {
+        return undefined;
+    }
+
+    const sx = original.width / width;
+    const sy = original.height / height;
+    return corners.map(p => ({ x: Math.round((p.x + 0.5) * sx), y: Math.round((p.y + 0.5) * sy) }));
+}
+
+/**
+ * Thresholds a greyscale image with Otsu's method and returns the extreme points of
+ * the largest bright connected region, in top-left, top-right, bottom-right,
+ * bottom-left order.
+ */
+export function findBrightRegionCorners(gray: Buffer, width: number, height: number): Point[] | undefined {
+    const threshold = otsuThreshold(gray);
+    const labels = new Int32Array(width * height).fill(-1);
+    const queue = new Int32Array(width * height);
+    let best: number[] = [];
+
+    for (let start = 0; start < gray.length; start++) {
+        if (gray[start] <= threshold || labels[start] !== -1) {
+            continue;
+        }
+
+        // Flood fill the 4-connected region
+        const region: number[] = [];
+        let head = 0;
+        let tail = 0;
+        queue[tail++] = start;
+        labels[start] = start;
+        while (head < tail) {
+            const index = queue[head++];
+            region.push(index);
+            const x = index % width;
+            const neighbours = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                index - width,
+                index + width
+            ];
+            for (const n of neighbours) {
+                if (n >= 0 && n < gray.length && labels[n] === -1 && gray[n] > threshold) {
+                    labels[n] = start;
+                    queue[tail++] = n;
+                }
+            }
+        }
+
+        if (region.length > best.length) {
+            best = region;
+        }
+    }
+
+    if (best.length < width * height * MIN_DISPLAY_AREA) {
+        return undefined;
+    }
+
+    const points = best.map(index => ({ x: index % width, y: Math.floor(index / width) }));
+    const pick = (score: (p: Point) => number) => points.reduce((a, b) => score(b) > score(a) ? b : a);
+    return [
+        pick(p => -(p.x + p.y)),
+        pick(p => p.x - p.y),
+        pick(p => p.x + p.y),
+        pick(p => p.y - p.x)
+    ];
+}
+
+function otsuThreshold(gray: Buffer): number {
+    const histogram = new Array(256).fill(0);
+    for (const value of gray) {
+        histogram[value]++;
+    }
+
+    const total = gray.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let backgroundSum = 0;
+    let backgroundCount = 0;
+    let bestVariance = -1;
+    let threshold = 127;
+
+    for (let t = 0; t < 256; t++) {
+        backgroundCount += histogram[t];
+        if (backgroundCount === 0) {
+            continue;
+        }
+        const foregroundCount = total - backgroundCount;
+        if (foregroundCount === 0) {
+            break;
+        }
+        backgroundSum += t * histogram[t];
+        const backgroundMean = backgroundSum / backgroundCount;
+        const foregroundMean = (sum - backgroundSum) / foregroundCount;
+        const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            threshold = t;
+        }
+    }
+    return threshold;
+}
+
+function solveLinearSystem(a: number[][], b: number[]): number[] {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+
+    for (let col = 0; col < n; col++) {
+        // Partial pivoting keeps the elimination stable for nearly degenerate quads
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) {
+                pivot = row;
+            }
+        }
+        if (Math.abs(m[pivot][col]) < 1e-10) {
+            throw new Error('Display corners do not form a valid quadrilateral');
+        }
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+
+        for (let row = 0; row < n; row++) {
+            if (row !== col) {
+                const factor = m[row][col] / m[col][col];
+                for (let k = col; k <= n; k++) {
+                    m[row][k] -= factor * m[col][k];
+                }
+            }
+        }
+    }
+    return m.map((row, i) => row[n] / row[i]);
+}
+
+/** Size of the warped image before rotation */
+function warpSize(width: number, height: number, rotation: DisplayRotation): [number, number] {
+    return rotation === 90 || rotation === 270 ? [height, width] : [width, height];
+}
+
+function rectangle(width: number, height: number): Point[] {
+    return [
+        { x: 0, y: 0 },
+        { x: width, y: 0 },
+        { x: width, y: height },
+        { x: 0, y: height }
+    ];
+}
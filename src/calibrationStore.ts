@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DisplayCalibration } from './calibration';
+import { logger } from './logger';
+
+/**
+ * Display calibrations keyed by device id, kept together in a single JSON file so
+ * they can be committed alongside the project.
+ */
+export class CalibrationStore {
+    private cache?: Record<string, DisplayCalibration>;
+
+    constructor(private readonly filePath: string) {}
+
+    public async get(deviceId: string): Promise<DisplayCalibration | undefined> {
+        const calibrations = await this.load();
+        return calibrations[deviceId];
+    }
+
+    public async set(deviceId: string, calibration: DisplayCalibration | undefined): Promise<void> {
+        const calibrations = { ...await this.load() };
+        if (calibration) {
+            calibrations[deviceId] = calibration;
+        } else {
+            delete calibrations[deviceId];
+        }
+
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.filePath, JSON.stringify(calibrations, null, 2));
+        this.cache = calibrations;
+    }
+
+    private async load(): Promise<Record<string, DisplayCalibration>> {
+        if (this.cache) {
+            return this.cache;
+        }
+
+        let calibrations: Record<string, DisplayCalibration> = {};
+        try {
+            calibrations = JSON.parse(await fs.promises.readFile(this.filePath, 'utf8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.error(`Ignoring unreadable calibration file ${this.filePath}:`, error);
+            }
+        }
+        this.cache = calibrations;
+        return calibrations;
+    }
+}
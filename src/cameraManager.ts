@@ -1,57 +1,136 @@
-import * as vscode from 'vscode';
 import axios from 'axios';
 import WebSocket from 'ws';
+import { FrameBus, FrameListener, FrameSubscription, FrameSubscriptionOptions } from './frameBus';
+import { ImageFormat, readImageInfo } from './imageInfo';
+import { DisplayCalibration, warpToDisplay } from './calibration';
+import { FrameSource } from './frameSource';
+import { Disposable, EventEmitter } from './events';
+import { getSettings } from './settings';
+import { logger } from './logger';
+
+/** Where a snapshot came from: a camera transport or a recorded session */
+export type SnapshotSource = 'websocket' | 'http' | 'replay';
 
 export interface CameraSnapshot {
     imageData: Buffer;
     timestamp: Date;
+    /** Dimensions decoded from the image headers */
     width: number;
     height: number;
+    format: ImageFormat;
+    mimeType: string;
+    byteLength: number;
+    /** Increases by one for every frame this camera delivers, across reconnects */
+    sequence: number;
+    source: SnapshotSource;
+    /** True once the frame has been warped to the calibrated display region */
+    corrected: boolean;
 }
 
-export class CameraManager {
-    private connected = false;
+/**
+ * - `streaming`: frames arrive over the WebSocket
+ * - `polling`: the WebSocket is unavailable and frames are fetched from `/capture`
+ * - `reconnecting`: the camera stopped answering; retrying with backoff
+ */
+export type ConnectionState = 'disconnected' | 'connecting' | 'streaming' | 'polling' | 'reconnecting';
+
+export const CONNECTION_STATE_LABELS: Record<ConnectionState, string> = {
+    disconnected: 'Disconnected',
+    connecting: 'Connecting',
+    streaming: 'Streaming',
+    polling: 'Polling (WebSocket unavailable)',
+    reconnecting: 'Reconnecting'
+};
+
+export interface TransportOptions {
+    wsPort: number;
+    wsPath: string;
+    pollingFallback: boolean;
+    pollInterval: number;
+    reconnectMaxDelay: number;
+}
+
+const INITIAL_RECONNECT_DELAY = 1000;
+// Consecutive failed polls after which the camera is considered unreachable
+const MAX_POLL_FAILURES = 3;
+
+export class CameraManager implements FrameSource, Disposable {
+    private state: ConnectionState = 'disconnected';
     private ipAddress = '';
     private port = 80;
+    private options: TransportOptions = readTransportOptions();
     private ws?: WebSocket;
-    private onImageReceived?: (snapshot: CameraSnapshot) => void;
+    private readonly frames = new FrameBus();
+    private sequence = 0;
+    private calibration?: DisplayCalibration;
+    private correctingFrame = false;
+    private pendingFrame?: CameraSnapshot;
+    private wsAttempts = 0;
+    private wsRetryTimer?: NodeJS.Timeout;
+    private pollTimer?: NodeJS.Timeout;
+    private pollFailures = 0;
+    private reconnectAttempts = 0;
+    private reconnectTimer?: NodeJS.Timeout;
+    // Bumped whenever the transport stops, so requests still in flight from an
+    // earlier connection can tell their results are stale
+    private connection = 0;
+
+    private readonly _onDidChangeState = new EventEmitter<ConnectionState>();
+    public readonly onDidChangeState = this._onDidChangeState.event;
 
     public isConnected(): boolean {
-        return this.connected;
+        return this.state === 'streaming' || this.state === 'polling';
     }
 
-    public async connect(ipAddress: string): Promise<void> {
+    public getState(): ConnectionState {
+        return this.state;
+    }
+
+    public async connect(ipAddress: string, port?: number, transport?: Partial<TransportOptions>): Promise<void> {
+        this.stopTransport();
         this.ipAddress = ipAddress;
-        this.port = vscode.workspace.getConfiguration('doubleVision').get('camera.port', 80);
+        this.port = port ?? getSettings().get('camera.port', 80);
+        // Per-device overrides; unset entries keep the workspace settings
+        const overrides = Object.fromEntries(Object.entries(transport ?? {}).filter(([, value]) => value !== undefined));
+        this.options = { ...readTransportOptions(), ...overrides };
+        this.setState('connecting');
+        const connection = this.connection;
 
         try {
             // First, try to ping the camera
-            const response = await axios.get(`http://${this.ipAddress}:${this.port}/status`, {
-                timeout: 5000
-            });
-
-            if (response.status === 200) {
-                this.connected = true;
-                await this.setupWebSocketConnection();
-            } else {
-                throw new Error('Camera not responding');
-            }
+            await this.checkStatus();
         } catch (error) {
-            this.connected = false;
+            if (connection === this.connection) {
+                this.setState('disconnected');
+            }
             throw new Error(`Cannot connect to camera at ${ipAddress}:${this.port}`);
         }
+        if (connection !== this.connection) {
+            throw new Error(`Connection to camera at ${ipAddress}:${this.port} was cancelled`);
+        }
+
+        this.reconnectAttempts = 0;
+        this.wsAttempts = 0;
+        this.openWebSocket();
     }
 
     public disconnect(): void {
-        if (this.ws) {
-            this.ws.close();
-            this.ws = undefined;
-        }
-        this.connected = false;
+        this.stopTransport();
+        this.setState('disconnected');
+    }
+
+    public dispose(): void {
+        this.disconnect();
+        this.frames.dispose();
+        this._onDidChangeState.dispose();
     }
 
-    public async takeSnapshot(): Promise<CameraSnapshot> {
-        if (!this.connected) {
+    /**
+     * Captures a frame over HTTP. Unless `raw` is set, the frame is perspective
+     * corrected when the camera has a display calibration.
+     */
+    public async takeSnapshot(options: { raw?: boolean } = {}): Promise<CameraSnapshot> {
+        if (!this.isConnected()) {
             throw new Error('Camera not connected');
         }
 
@@ -61,72 +140,312 @@ export class CameraManager {
                 timeout: 10000
             });
 
-            return {
-                imageData: Buffer.from(response.data),
-                timestamp: new Date(),
-                width: 320, // Default ESP32-CAM resolution
-                height: 240
-            };
+            const snapshot = this.createSnapshot(Buffer.from(response.data), 'http');
+            return options.raw ? snapshot : await this.correct(snapshot);
         } catch (error) {
             throw new Error(`Failed to capture image: ${error}`);
         }
     }
 
-    public setImageCallback(callback: (snapshot: CameraSnapshot) => void): void {
-        this.onImageReceived = callback;
+    public setCalibration(calibration: DisplayCalibration | undefined): void {
+        this.calibration = calibration;
     }
 
-    private async setupWebSocketConnection(): Promise<void> {
-        try {
-            this.ws = new WebSocket(`ws://${this.ipAddress}:${this.port}/ws`);
+    public getCalibration(): DisplayCalibration | undefined {
+        return this.calibration;
+    }
 
-            this.ws.on('open', () => {
-                console.log('WebSocket connection established');
-            });
+    /**
+     * Subscribes to live frames from the WebSocket stream or the polling fallback.
+     * Dispose the returned subscription to stop receiving them.
+     */
+    public onFrame(listener: FrameListener, options?: FrameSubscriptionOptions): FrameSubscription {
+        return this.frames.subscribe(listener, options);
+    }
 
-            this.ws.on('message', (data: Buffer) => {
-                if (this.onImageReceived) {
-                    const snapshot: CameraSnapshot = {
-                        imageData: data,
-                        timestamp: new Date(),
-                        width: 320,
-                        height: 240
-                    };
-                    this.onImageReceived(snapshot);
+    private async correct(snapshot: CameraSnapshot): Promise<CameraSnapshot> {
+        if (!this.calibration) {
+            return snapshot;
+        }
+
+        const imageData = await warpToDisplay(snapshot.imageData, this.calibration);
+        return { ...snapshot, imageData, ...readImageInfo(imageData), corrected: true };
+    }
+
+    /**
+     * Corrects and publishes a streamed frame. Correction runs one frame at a time;
+     * if frames arrive faster, only the newest waiting frame is kept.
+     */
+    private async publishFrame(snapshot: CameraSnapshot): Promise<void> {
+        if (this.correctingFrame) {
+            this.pendingFrame = snapshot;
+            return;
+        }
+
+        this.correctingFrame = true;
+        let next: CameraSnapshot | undefined = snapshot;
+        while (next) {
+            this.pendingFrame = undefined;
+            // Stopping the transport drops the waiting frame, so `next` is from this connection
+            const connection = this.connection;
+            try {
+                const corrected = await this.correct(next);
+                if (connection === this.connection) {
+                    this.frames.publish(corrected);
                 }
-            });
+            } catch (error) {
+                logger.error('Failed to correct frame:', error);
+            }
+            next = this.pendingFrame;
+        }
+        this.correctingFrame = false;
+    }
 
-            this.ws.on('error', (error) => {
-                console.error('WebSocket error:', error);
-                this.connected = false;
-            });
+    /**
+     * Throws for corrupt or unsupported image data, so broken frames never reach subscribers.
+     */
+    private createSnapshot(imageData: Buffer, source: SnapshotSource): CameraSnapshot {
+        const info = readImageInfo(imageData);
+        return {
+            imageData,
+            timestamp: new Date(),
+            ...info,
+            sequence: ++this.sequence,
+            source,
+            corrected: false
+        };
+    }
 
-            this.ws.on('close', () => {
-                console.log('WebSocket connection closed');
-                this.connected = false;
-            });
-        } catch (error) {
-            console.error('Failed to setup WebSocket:', error);
-            // Fallback to HTTP polling if WebSocket fails
+    private async checkStatus(): Promise<void> {
+        const response = await axios.get(`http://${this.ipAddress}:${this.port}/status`, {
+            timeout: 5000
+        });
+
+        if (response.status !== 200) {
+            throw new Error('Camera not responding');
+        }
+    }
+
+    private openWebSocket(): void {
+        const path = this.options.wsPath.startsWith('/') ? this.options.wsPath : `/${this.options.wsPath}`;
+        const ws = new WebSocket(`ws://${this.ipAddress}:${this.options.wsPort}${path}`, {
+            handshakeTimeout: 5000
+        });
+        this.ws = ws;
+
+        ws.on('open', () => {
+            logger.info('WebSocket connection established');
+            this.wsAttempts = 0;
+            this.stopPolling();
+            this.setState('streaming');
+        });
+
+        ws.on('message', (data: Buffer, isBinary: boolean) => {
+            // The firmware also sends text status messages; only binary messages are frames
+            if (isBinary) {
+                let snapshot: CameraSnapshot;
+                try {
+                    snapshot = this.createSnapshot(data, 'websocket');
+                } catch (error) {
+                    logger.error('Dropping corrupt WebSocket frame:', error);
+                    return;
+                }
+                this.publishFrame(snapshot);
+            }
+        });
+
+        ws.on('error', (error) => {
+            // A 'close' event always follows, which handles the fallback
+            logger.error('WebSocket error:', error);
+        });
+
+        ws.on('close', () => {
+            if (this.ws !== ws) {
+                return;
+            }
+            logger.info('WebSocket connection closed');
+            this.ws = undefined;
+            this.handleStreamLost();
+        });
+    }
+
+    /**
+     * Falls back to HTTP polling while the WebSocket is retried with exponential backoff.
+     */
+    private handleStreamLost(): void {
+        if (this.state === 'disconnected' || this.state === 'reconnecting') {
+            return;
+        }
+
+        if (this.options.pollingFallback) {
+            this.startPolling();
+        } else {
+            this.setState('reconnecting');
+        }
+
+        const delay = this.backoff(this.wsAttempts++);
+        this.wsRetryTimer = setTimeout(() => {
+            this.wsRetryTimer = undefined;
+            if (this.state === 'polling') {
+                this.openWebSocket();
+            } else if (this.state === 'reconnecting' && !this.options.pollingFallback) {
+                this.reconnect();
+            }
+        }, delay);
+    }
+
+    private startPolling(): void {
+        if (this.pollTimer) {
+            return;
+        }
+
+        this.pollFailures = 0;
+        this.setState('polling');
+
+        const connection = this.connection;
+        const poll = async () => {
+            try {
+                const snapshot = await this.takeSnapshot();
+                if (connection !== this.connection) {
+                    return;
+                }
+                this.pollFailures = 0;
+                this.frames.publish(snapshot);
+            } catch (error) {
+                if (connection !== this.connection) {
+                    return;
+                }
+                logger.error('Polling failed:', error);
+                if (++this.pollFailures >= MAX_POLL_FAILURES) {
+                    this.stopTransport();
+                    this.setState('reconnecting');
+                    this.reconnect();
+                    return;
+                }
+            }
+
+            if (this.state === 'polling') {
+                this.pollTimer = setTimeout(poll, this.options.pollInterval);
+            }
+        };
+
+        this.pollTimer = setTimeout(poll, 0);
+    }
+
+    private stopPolling(): void {
+        if (this.pollTimer) {
+            clearTimeout(this.pollTimer);
+            this.pollTimer = undefined;
+        }
+    }
+
+    /**
+     * Retries `/status` with exponential backoff until the camera answers again,
+     * then re-establishes streaming.
+     */
+    private reconnect(): void {
+        const delay = this.backoff(this.reconnectAttempts++);
+        const connection = this.connection;
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = undefined;
+            if (this.state !== 'reconnecting') {
+                return;
+            }
+
+            try {
+                await this.checkStatus();
+                if (connection !== this.connection || this.state !== 'reconnecting') {
+                    return;
+                }
+                this.reconnectAttempts = 0;
+                this.wsAttempts = 0;
+                this.setState('connecting');
+                this.openWebSocket();
+            } catch {
+                if (connection === this.connection && this.state === 'reconnecting') {
+                    this.reconnect();
+                }
+            }
+        }, delay);
+    }
+
+    private backoff(attempt: number): number {
+        const delay = Math.min(this.options.reconnectMaxDelay, INITIAL_RECONNECT_DELAY * 2 ** attempt);
+        // Jitter keeps several cameras from retrying in lockstep
+        return delay / 2 + Math.random() * delay / 2;
+    }
+
+    private stopTransport(): void {
+        this.connection++;
+        this.pendingFrame = undefined;
+        this.stopPolling();
+        if (this.wsRetryTimer) {
+            clearTimeout(this.wsRetryTimer);
+            this.wsRetryTimer = undefined;
+        }
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        if (this.ws) {
+            const ws = this.ws;
+            this.ws = undefined;
+            ws.removeAllListeners();
+            // Closing a socket that is still connecting throws, so terminate it instead
+            ws.on('error', () => undefined);
+            ws.terminate();
+        }
+    }
+
+    private setState(state: ConnectionState): void {
+        if (this.state !== state) {
+            this.state = state;
+            this._onDidChangeState.fire(state);
         }
     }
 
     public async sendCommand(command: string, params?: any): Promise<any> {
-        if (!this.connected) {
+        if (!this.isConnected()) {
             throw new Error('Camera not connected');
         }
 
         try {
-            const response = await axios.post(`http://${this.ipAddress}:${this.port}/command`, {
-                command,
-                params
-            }, {
-                timeout: 5000
-            });
-
-            return response.data;
+            return await postCommand(this.ipAddress, this.port, command, params);
         } catch (error) {
             throw new Error(`Failed to send command: ${error}`);
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Posts a command to a board's `/command` endpoint. The firmware reads form fields,
+ * so parameters are sent next to the command.
+ */
+export async function postCommand(
+    host: string,
+    port: number,
+    command: string,
+    params: Record<string, string | number | boolean> = {},
+    timeout = 5000
+): Promise<any> {
+    const form = new URLSearchParams({ command });
+    for (const [key, value] of Object.entries(params)) {
+        form.append(key, String(value));
+    }
+    const response = await axios.post(`http://${host}:${port}/command`, form.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout
+    });
+    return response.data;
+}
+
+function readTransportOptions(): TransportOptions {
+    const config = getSettings();
+    return {
+        wsPort: config.get('camera.wsPort', 81),
+        wsPath: config.get('camera.wsPath', '/'),
+        pollingFallback: config.get('camera.pollingFallback', true),
+        pollInterval: config.get('camera.pollInterval', 1000),
+        reconnectMaxDelay: config.get('camera.reconnectMaxDelay', 30000)
+    };
+}
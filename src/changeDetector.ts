@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+
+export interface FrameFingerprint {
+    /** 64-bit difference hash, one bit per entry */
+    hash: Uint8Array;
+    /** Grayscale thumbnail used for the thresholded frame difference */
+    thumbnail: Buffer;
+}
+
+export interface ChangeResult {
+    changed: boolean;
+    hashDistance: number;
+    changedCells: number;
+    fingerprint: FrameFingerprint;
+}
+
+const THUMBNAIL_SIZE = 32;
+// Grey-level difference for a thumbnail cell to count as changed; absorbs camera noise
+const CELL_DIFFERENCE = 20;
+
+/**
+ * Decides whether a frame differs meaningfully from the last analyzed one, using a
+ * perceptual difference hash for global changes and a thresholded thumbnail
+ * difference for small local ones such as a label changing. Sensitivity ranges
+ * from 0 (only large changes count) to 1 (almost any change counts).
+ */
+export class ChangeDetector {
+    private reference?: FrameFingerprint;
+
+    public async check(imageData: Buffer, sensitivity: number): Promise<ChangeResult> {
+        const fingerprint = await ChangeDetector.fingerprint(imageData);
+
+        if (!this.reference) {
+            return { changed: true, hashDistance: 64, changedCells: fingerprint.thumbnail.length, fingerprint };
+        }
+
+        const s = Math.min(1, Math.max(0, sensitivity));
+        const hashThreshold = Math.round(2 + (1 - s) * 10);
+        const cellThreshold = Math.max(1, Math.round(fingerprint.thumbnail.length * (0.002 + (1 - s) * 0.02)));
+
+        const hashDistance = hammingDistance(fingerprint.hash, this.reference.hash);
+        const changedCells = countChangedCells(fingerprint.thumbnail, this.reference.thumbnail);
+
+        return {
+            changed: hashDistance >= hashThreshold || changedCells >= cellThreshold,
+            hashDistance,
+            changedCells,
+            fingerprint
+        };
+    }
+
+    /**
+     * Makes the given frame the reference later frames are compared against.
+     * Call this once the frame has actually been analyzed.
+     */
+    public accept(fingerprint: FrameFingerprint): void {
+        this.reference = fingerprint;
+    }
+
+    public reset(): void {
+        this.reference = undefined;
+    }
+
+    public static async fingerprint(imageData: Buffer): Promise<FrameFingerprint> {
+        const [hashPixels, thumbnail] = await Promise.all([
+            sharp(imageData).grayscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer(),
+            sharp(imageData).grayscale().resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'fill' }).raw().toBuffer()
+        ]);
+
+        const hash = new Uint8Array(64);
+        for (let y = 0; y < 8; y++) {
+            for (let x = 0; x < 8; x++) {
+                hash[y * 8 + x] = hashPixels[y * 9 + x] < hashPixels[y * 9 + x + 1] ? 1 : 0;
+            }
+        }
+
+        return { hash, thumbnail };
+    }
+}
+
+function hammingDistance(a: Uint8Array, b: Uint8Array): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) {
+            distance++;
+        }
+    }
+    return distance;
+}
+
+function countChangedCells(a: Buffer, b: Buffer): number {
+    let count = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (Math.abs(a[i] - b[i]) > CELL_DIFFERENCE) {
+            count++;
+        }
+    }
+    return count;
+}
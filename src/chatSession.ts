@@ -0,0 +1,119 @@
+import { AIProvider } from './aiProvider';
+import { CameraSnapshot } from './cameraManager';
+import { ChatMessage } from './providers/visionProvider';
+import { WidgetTree } from './widgetTree';
+
+export interface ChatAttachment extends Pick<CameraSnapshot, 'imageData' | 'mimeType'> {
+    /** Where the frame comes from, e.g. "latest frame from Bench display" */
+    label: string;
+}
+
+export interface ChatTurn {
+    role: 'user' | 'assistant';
+    text: string;
+    /** Frame sent with a user turn */
+    attachment?: ChatAttachment;
+    timestamp: Date;
+}
+
+// Frames make up most of a request, so only the newest are resent with each message;
+// older ones are named in the text instead
+const MAX_CONTEXT_IMAGES = 2;
+// Turns sent with each message; older ones stay in the thread but leave the model's context
+const MAX_CONTEXT_TURNS = 20;
+
+/**
+ * A conversation with the AI provider about the display. The session keeps the
+ * turns and resends them with each message, so follow-up questions can refer to
+ * earlier answers and frames.
+ */
+export class ChatSession {
+    private turns: ChatTurn[] = [];
+    private pending = false;
+    // Bumped by clear(), so a reply to a cleared conversation is dropped
+    private generation = 0;
+
+    constructor(private readonly aiProvider: AIProvider) {}
+
+    public getTurns(): readonly ChatTurn[] {
+        return this.turns;
+    }
+
+    public get busy(): boolean {
+        return this.pending;
+    }
+
+    /**
+     * Sends a message and resolves with the reply, calling `onText` with the reply
+     * so far as it streams in. When the request fails the message is taken back
+     * out of the conversation, so it can be sent again.
+     */
+    public async send(
+        text: string,
+        attachment?: ChatAttachment,
+        onText: (text: string) => void = () => undefined,
+        widgetTree?: WidgetTree
+    ): Promise<ChatTurn> {
+        if (this.pending) {
+            throw new Error('Wait for the reply to the previous message');
+        }
+
+        const generation = this.generation;
+        const question: ChatTurn = { role: 'user', text, attachment, timestamp: new Date() };
+        this.turns.push(question);
+        this.pending = true;
+        try {
+            const reply = await this.aiProvider.chat(toChatMessages(this.turns), onText, widgetTree);
+            const answer: ChatTurn = { role: 'assistant', text: reply, timestamp: new Date() };
+            if (generation === this.generation) {
+                this.turns.push(answer);
+            }
+            return answer;
+        } catch (error) {
+            if (generation === this.generation) {
+                this.turns = this.turns.filter(turn => turn !== question);
+            }
+            throw error;
+        } finally {
+            if (generation === this.generation) {
+                this.pending = false;
+            }
+        }
+    }
+
+    public clear(): void {
+        this.turns = [];
+        this.pending = false;
+        this.generation++;
+    }
+}
+
+/**
+ * The recent turns as provider messages, with the frames of the newest few
+ * attached and the older ones only named.
+ */
+export function toChatMessages(turns: readonly ChatTurn[]): ChatMessage[] {
+    const recent = turns.slice(-MAX_CONTEXT_TURNS);
+    // Providers expect the conversation to open with a user turn
+    while (recent.length > 0 && recent[0].role !== 'user') {
+        recent.shift();
+    }
+
+    const withImages = new Set(recent.filter(turn => turn.attachment).slice(-MAX_CONTEXT_IMAGES));
+    return recent.map(turn => {
+        if (!turn.attachment) {
+            return { role: turn.role, text: turn.text };
+        }
+        if (!withImages.has(turn)) {
+            return { role: turn.role, text: `[Attached earlier: ${turn.attachment.label}, no longer included]\n${turn.text}` };
+        }
+        return {
+            role: turn.role,
+            text: `[Attached: ${turn.attachment.label}]\n${turn.text}`,
+            image: {
+                base64: turn.attachment.imageData.toString('base64'),
+                mimeType: turn.attachment.mimeType
+            }
+        };
+    });
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CredentialStore } from '../credentials';
+import { DeviceConfig, slugify } from '../deviceConfig';
+import { ImageDiffOptions } from '../imageDiff';
+import { setSettingsSource, Settings } from '../settings';
+
+export const DEFAULT_CONFIG_FILE = 'double-vision.config.json';
+
+/*
+ * The config file holds the same settings as the extension, with or without the
+ * `doubleVision.` prefix, so a workspace's settings.json entries can be copied over:
+ *
+ *   {
+ *     "ai.provider": "anthropic",
+ *     "baseline.maxChangedPercent": 0.5,
+ *     "devices": [
+ *       { "name": "Bench display", "ipAddress": "192.168.1.60", "uiAddress": "192.168.1.61" }
+ *     ]
+ *   }
+ *
+ * Folders such as `baseline.folder` are relative to the config file's directory.
+ * API keys are read from DOUBLE_VISION_<PROVIDER>_API_KEY (e.g. DOUBLE_VISION_OPENAI_API_KEY),
+ * then DOUBLE_VISION_API_KEY, then `ai.<provider>.apiKey` in the file.
+ */
+export interface CliConfig {
+    /** Project directory: where the config file lives, or the working directory without one */
+    root: string;
+    settings: Settings;
+    credentials: CredentialStore;
+    devices: DeviceConfig[];
+}
+
+/**
+ * Reads the config file and makes it the settings source of the core modules.
+ * A missing default config file is fine; a missing explicit one is an error.
+ */
+export async function loadConfig(configPath?: string): Promise<CliConfig> {
+    const file = path.resolve(configPath ?? DEFAULT_CONFIG_FILE);
+    let values: Record<string, unknown> = {};
+    try {
+        const data = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            throw new Error('expected an object of settings');
+        }
+        values = Object.fromEntries(Object.entries(data).map(([key, value]) => [key.replace(/^doubleVision\./, ''), value]));
+    } catch (error) {
+        if (configPath || (error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw new Error(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    const settings: Settings = {
+        get: <T>(key: string, defaultValue: T) => (key in values ? values[key] as T : defaultValue)
+    };
+    setSettingsSource(() => settings);
+
+    return {
+        root: path.dirname(file),
+        settings,
+        credentials: {
+            getApiKey: async providerId =>
+                process.env[`DOUBLE_VISION_${providerId.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`]
+                || process.env.DOUBLE_VISION_API_KEY
+                || settings.get(`ai.${providerId}.apiKey`, '')
+                || undefined
+        },
+        devices: readDevices(settings)
+    };
+}
+
+/**
+ * Resolves a project folder setting such as `baseline.folder` against the project root.
+ */
+export function resolveFolder(config: CliConfig, key: string, defaultValue: string): string {
+    return path.resolve(config.root, config.settings.get(key, defaultValue));
+}
+
+export function readDiffOptions(settings: Settings): ImageDiffOptions {
+    return {
+        pixelThreshold: settings.get('baseline.pixelThreshold', 0.1),
+        maxChangedPercent: settings.get('baseline.maxChangedPercent', 1),
+        minSimilarity: settings.get('baseline.minSimilarity', 0.9)
+    };
+}
+
+/**
+ * Finds a device by id or name; the first device when none is given.
+ */
+export function findDevice(config: CliConfig, nameOrId?: string): DeviceConfig {
+    if (!nameOrId) {
+        return config.devices[0];
+    }
+    const device = config.devices.find(entry => entry.id === nameOrId || entry.name === nameOrId);
+    if (!device) {
+        throw new Error(`No device named "${nameOrId}"; configured: ${config.devices.map(entry => entry.name).join(', ')}`);
+    }
+    return device;
+}
+
+// Same rules as the extension's device registry: `devices`, or a single device
+// from the legacy camera settings when that list is empty
+function readDevices(settings: Settings): DeviceConfig[] {
+    const configured = settings.get<Partial<DeviceConfig>[]>('devices', []);
+    if (configured.length === 0) {
+        return [{
+            id: 'esp32-camera',
+            name: 'ESP32 Camera',
+            ipAddress: settings.get('camera.ipAddress', '192.168.1.100'),
+            port: settings.get('camera.port', 80)
+        }];
+    }
+
+    const devices: DeviceConfig[] = [];
+    for (const entry of configured) {
+        if (!entry.name || !entry.ipAddress) {
+            throw new Error(`Device entry needs a name and ipAddress: ${JSON.stringify(entry)}`);
+        }
+        devices.push({
+            id: entry.id || slugify(entry.name),
+            name: entry.name,
+            ipAddress: entry.ipAddress,
+            port: entry.port ?? 80,
+            wsPort: entry.wsPort,
+            wsPath: entry.wsPath,
+            uiAddress: entry.uiAddress
+        });
+    }
+    return devices;
+}
@@ -0,0 +1,396 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import * as util from 'util';
+import { AIProvider } from '../aiProvider';
+import { AIAnalysisResult, formatAnalysisMarkdown, getHighestSeverity, IssueSeverity, SEVERITIES } from '../analysisResult';
+import { BaselineStore } from '../baselineStore';
+import { CalibrationStore } from '../calibrationStore';
+import { CameraManager, CameraSnapshot, postCommand } from '../cameraManager';
+import { DeviceConfig, getUiAddress } from '../deviceConfig';
+import { readImageInfo } from '../imageInfo';
+import { toCommandParams } from '../inputInjection';
+import { SourceFile } from '../issueLocator';
+import { setLogger } from '../logger';
+import { DEFAULT_PROMPTS_FOLDER, PromptTemplates } from '../promptTemplates';
+import { parseScenario } from '../scenario';
+import { RESULTS_FOLDER, runScenario, saveStepScreenshot, ScenarioContext, scenarioSlug } from '../scenarioRunner';
+import { SourceCollector } from '../sourceContext';
+import { sumUsage, UsageTracker } from '../usageTracker';
+import { WidgetTree, WidgetTreeClient } from '../widgetTree';
+import { CliConfig, DEFAULT_CONFIG_FILE, findDevice, loadConfig, readDiffOptions, resolveFolder } from './config';
+import { formatReports, REPORT_FORMATS, ReportFormat, ScenarioReport } from './reporters';
+
+const USAGE = `Usage: double-vision <command> [options]
+
+Commands:
+  capture [--out file] [--raw]                 Save a frame from the camera
+  analyze [--image file] [--json]              Analyze a frame with the configured AI provider
+          [--fail-on warning|error]            Exit with 1 if an issue is at least this severe
+  diff <baseline> [--image file] [--update]    Compare a frame against a saved screen baseline
+  run-scenarios [paths...]                     Run scenario files (default: the project folder)
+          [--reporter text|json|junit] [--output file]
+
+Options:
+  --config file     Settings and devices (default: ${DEFAULT_CONFIG_FILE})
+  --device name     Device name or id (default: the first configured device)
+  --verbose         Log camera and provider details to stderr
+  --help            Show this help
+
+Exit codes: 0 passed, 1 a check failed, 2 the command could not run.`;
+
+const SCENARIO_PATTERN = /\.scenario\.(ya?ml|json)$/i;
+const SOURCE_PATTERN = /\.(ino|c|cpp|h)$/i;
+// Same as the editor skips: dependencies, PlatformIO libraries and build output
+const SKIPPED_FOLDERS = new Set(['node_modules', '.git', '.pio', 'build']);
+const MAX_SOURCE_FILES = 200;
+const MAX_SOURCE_SIZE = 512 * 1024;
+// The camera falls back to HTTP polling if the WebSocket does not open within its handshake timeout
+const CONNECT_TIMEOUT = 15000;
+// Options followed by a value; the others are flags
+const VALUE_OPTIONS = new Set(['config', 'device', 'out', 'image', 'fail-on', 'reporter', 'output']);
+
+interface ParsedArgs {
+    command?: string;
+    positional: string[];
+    options: Record<string, string | boolean>;
+}
+
+class UsageError extends Error {}
+
+/**
+ * Headless runner for nightly display checks: captures, analyzes and compares
+ * frames and runs scenario files with the settings of a config file instead of
+ * the editor's.
+ */
+async function main(argv: string[]): Promise<number> {
+    const args = parseArgs(argv);
+    if (!args.command || args.options.help) {
+        print(USAGE);
+        return args.command || args.options.help ? 0 : 2;
+    }
+
+    // The core modules log transport details; keep them off stdout so JSON and
+    // JUnit reports stay parseable
+    const log = (...data: unknown[]) => {
+        if (args.options.verbose) {
+            process.stderr.write(`${util.format(...data)}\n`);
+        }
+    };
+    setLogger({ info: log, warn: log, error: log });
+
+    const config = await loadConfig(stringOption(args, 'config'));
+    switch (args.command) {
+        case 'capture':
+            return capture(config, args);
+        case 'analyze':
+            return analyze(config, args);
+        case 'diff':
+            return diff(config, args);
+        case 'run-scenarios':
+            return runScenarios(config, args);
+        default:
+            throw new UsageError(`Unknown command "${args.command}"`);
+    }
+}
+
+async function capture(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const device = findDevice(config, stringOption(args, 'device'));
+    const snapshot = await withCamera(config, device, camera => camera.takeSnapshot({ raw: args.options.raw === true }));
+    const out = path.resolve(stringOption(args, 'out')
+        ?? `${device.id}-${snapshot.timestamp.toISOString().replace(/[:.]/g, '-')}.${snapshot.format === 'png' ? 'png' : 'jpg'}`);
+    await fs.promises.mkdir(path.dirname(out), { recursive: true });
+    await fs.promises.writeFile(out, snapshot.imageData);
+    print(`Saved ${snapshot.width}x${snapshot.height} frame from ${device.name} to ${out}`);
+    return 0;
+}
+
+async function analyze(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const failOn = stringOption(args, 'fail-on') as IssueSeverity | undefined;
+    if (failOn && !SEVERITIES.includes(failOn)) {
+        throw new UsageError(`--fail-on must be one of ${SEVERITIES.join(', ')}`);
+    }
+
+    const aiProvider = createAIProvider(config);
+    let analysis: AIAnalysisResult;
+    const image = stringOption(args, 'image');
+    if (image) {
+        analysis = await aiProvider.analyzeImage(await readSnapshot(image));
+    } else {
+        const device = findDevice(config, stringOption(args, 'device'));
+        const widgetTree = await readWidgetTree(config, device);
+        analysis = await withCamera(config, device, async camera =>
+            aiProvider.analyzeImage(await camera.takeSnapshot(), widgetTree));
+    }
+
+    print(args.options.json ? JSON.stringify(analysis, null, 2) : formatAnalysisMarkdown(analysis));
+    reportUsage(aiProvider);
+    const highest = getHighestSeverity(analysis);
+    return failOn && highest && SEVERITIES.indexOf(highest) >= SEVERITIES.indexOf(failOn) ? 1 : 0;
+}
+
+async function diff(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const name = args.positional[0];
+    if (!name) {
+        throw new UsageError('diff needs the name of a baseline');
+    }
+
+    const store = new BaselineStore(resolveFolder(config, 'baseline.folder', '.double-vision/baselines'));
+    const image = stringOption(args, 'image');
+    const snapshot = image
+        ? await readSnapshot(image)
+        : await withCamera(config, findDevice(config, stringOption(args, 'device')), camera => camera.takeSnapshot());
+
+    if (args.options.update) {
+        await store.save(name, snapshot);
+        print(`Updated baseline for screen "${name}"`);
+        return 0;
+    }
+
+    const comparison = await store.compare(name, snapshot, readDiffOptions(config.settings));
+    print(`Screen "${comparison.name}" ${comparison.passed ? 'PASSED' : 'FAILED'}: ` +
+        `${comparison.changedPercent.toFixed(2)}% changed, similarity ${comparison.similarity.toFixed(3)}`);
+    print(`Diff: ${comparison.heatmapPath}`);
+    return comparison.passed ? 0 : 1;
+}
+
+async function runScenarios(config: CliConfig, args: ParsedArgs): Promise<number> {
+    const format = (stringOption(args, 'reporter') ?? 'text') as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+        throw new UsageError(`--reporter must be one of ${REPORT_FORMATS.join(', ')}`);
+    }
+
+    const files: string[] = [];
+    for (const target of args.positional.length > 0 ? args.positional : [config.root]) {
+        files.push(...await findFiles(path.resolve(target), SCENARIO_PATTERN));
+    }
+    if (files.length === 0) {
+        throw new UsageError('No scenario files found');
+    }
+
+    const aiProvider = createAIProvider(config);
+    const baselines = new BaselineStore(resolveFolder(config, 'baseline.folder', '.double-vision/baselines'));
+    const resultsFolder = path.resolve(config.root, RESULTS_FOLDER);
+    const reports: ScenarioReport[] = [];
+
+    for (const file of files) {
+        const report: ScenarioReport = { file: path.relative(config.root, file) || file, screenshots: {} };
+        reports.push(report);
+        try {
+            const scenario = parseScenario(await fs.promises.readFile(file, 'utf8'), file);
+            const device = findDevice(config, stringOption(args, 'device') ?? scenario.device);
+            const ui = getUiAddress(device);
+
+            report.result = await withCamera(config, device, camera => {
+                const context: ScenarioContext = {
+                    capture: () => camera.takeSnapshot(),
+                    sendInput: async input => {
+                        const { command, params } = toCommandParams(input);
+                        await postCommand(ui.host, ui.port, command, params);
+                    },
+                    sendCommand: (command, params) => camera.sendCommand(command, params),
+                    compareBaseline: (name, snapshot, options) =>
+                        baselines.compare(name, snapshot, { ...readDiffOptions(config.settings), ...options }),
+                    checkExpectation: async (snapshot, expectation) =>
+                        aiProvider.checkExpectation(snapshot, expectation, await readWidgetTree(config, device))
+                };
+                return runScenario(scenario, context, {
+                    onStepEnd: async result => {
+                        const screenshot = result.status === 'failed' || result.status === 'errored'
+                            ? await saveStepScreenshot(path.join(resultsFolder, scenarioSlug(file)), result)
+                            : undefined;
+                        if (screenshot) {
+                            report.screenshots[result.index] = screenshot;
+                        }
+                    }
+                });
+            });
+        } catch (error) {
+            report.error = error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    const output = formatReports(reports, format);
+    const outFile = stringOption(args, 'output');
+    if (outFile) {
+        await fs.promises.mkdir(path.dirname(path.resolve(outFile)), { recursive: true });
+        await fs.promises.writeFile(outFile, output);
+        // Keep a readable summary on the console when the report goes to a file
+        if (format !== 'text') {
+            process.stdout.write(formatReports(reports, 'text'));
+        }
+    } else {
+        process.stdout.write(output);
+    }
+    reportUsage(aiProvider);
+    // Nothing ran at all, e.g. no device answered: the run could not check anything
+    if (reports.every(report => !report.result)) {
+        return 2;
+    }
+    return reports.every(report => report.result?.passed) ? 0 : 1;
+}
+
+/**
+ * Connects to a device with its calibration applied, runs `action` and always
+ * disconnects, so the process can exit once the command is done.
+ */
+async function withCamera<T>(config: CliConfig, device: DeviceConfig, action: (camera: CameraManager) => Promise<T>): Promise<T> {
+    const camera = new CameraManager();
+    try {
+        const calibrations = new CalibrationStore(path.join(config.root, '.double-vision', 'calibration.json'));
+        camera.setCalibration(await calibrations.get(device.id));
+        await camera.connect(device.ipAddress, device.port, { wsPort: device.wsPort, wsPath: device.wsPath });
+        await waitForConnection(camera, device);
+        return await action(camera);
+    } finally {
+        camera.dispose();
+    }
+}
+
+/**
+ * `connect` returns once the camera answers; frames can be taken when the stream
+ * or the polling fallback is up.
+ */
+function waitForConnection(camera: CameraManager, device: DeviceConfig): Promise<void> {
+    if (camera.isConnected()) {
+        return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => {
+            subscription.dispose();
+            reject(new Error(`${device.name} did not start streaming within ${CONNECT_TIMEOUT / 1000} s`));
+        }, CONNECT_TIMEOUT);
+        const subscription = camera.onDidChangeState(() => {
+            if (camera.isConnected()) {
+                clearTimeout(timer);
+                subscription.dispose();
+                resolve();
+            }
+        });
+    });
+}
+
+async function readWidgetTree(config: CliConfig, device: DeviceConfig): Promise<WidgetTree | undefined> {
+    if (!config.settings.get('widgetTree.enabled', true)) {
+        return undefined;
+    }
+    return new WidgetTreeClient(() => getUiAddress(device)).fetch().catch(() => undefined);
+}
+
+/**
+ * Loads an image file as a snapshot. Image files are taken to show the display
+ * itself, as saved by `capture` or kept as baselines.
+ */
+async function readSnapshot(file: string): Promise<CameraSnapshot> {
+    const imageData = await fs.promises.readFile(file);
+    return {
+        imageData,
+        timestamp: new Date(),
+        ...readImageInfo(imageData),
+        sequence: 0,
+        source: 'replay',
+        corrected: true
+    };
+}
+
+async function findFiles(target: string, pattern: RegExp): Promise<string[]> {
+    const stat = await fs.promises.stat(target);
+    if (stat.isFile()) {
+        return [target];
+    }
+
+    const files: string[] = [];
+    const entries = await fs.promises.readdir(target, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const entryPath = path.join(target, entry.name);
+        if (entry.isDirectory() && !SKIPPED_FOLDERS.has(entry.name)) {
+            files.push(...await findFiles(entryPath, pattern));
+        } else if (entry.isFile() && pattern.test(entry.name)) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+    const args: ParsedArgs = { positional: [], options: {} };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg.startsWith('--')) {
+            const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+            if (inline !== undefined) {
+                args.options[name] = inline;
+            } else if (VALUE_OPTIONS.has(name)) {
+                if (i + 1 >= argv.length) {
+                    throw new UsageError(`--${name} needs a value`);
+                }
+                args.options[name] = argv[++i];
+            } else {
+                args.options[name] = true;
+            }
+        } else if (!args.command) {
+            args.command = arg;
+        } else {
+            args.positional.push(arg);
+        }
+    }
+    return args;
+}
+
+/**
+ * An AI provider using the project's prompt templates and sources.
+ */
+function createAIProvider(config: CliConfig): AIProvider {
+    const promptFolder = resolveFolder(config, 'prompts.folder', DEFAULT_PROMPTS_FOLDER);
+    return new AIProvider(
+        config.credentials,
+        new UsageTracker(),
+        new PromptTemplates(() => promptFolder),
+        new SourceCollector(() => readSourceFiles(config.root), () => config.root)
+    );
+}
+
+/**
+ * The C/C++ sources under the project folder, for source-aware analysis.
+ */
+async function readSourceFiles(root: string): Promise<SourceFile[]> {
+    const files: SourceFile[] = [];
+    for (const file of (await findFiles(root, SOURCE_PATTERN)).slice(0, MAX_SOURCE_FILES)) {
+        const { size } = await fs.promises.stat(file);
+        if (size <= MAX_SOURCE_SIZE) {
+            files.push({ path: file, text: await fs.promises.readFile(file, 'utf8') });
+        }
+    }
+    return files;
+}
+
+/**
+ * Notes the run's AI usage on stderr, for keeping an eye on what nightly runs cost.
+ */
+function reportUsage(aiProvider: AIProvider): void {
+    const usage = sumUsage(aiProvider.usage.getSession());
+    if (usage.requests > 0) {
+        process.stderr.write(`AI usage: ${usage.requests} request${usage.requests === 1 ? '' : 's'}, ` +
+            `${(usage.inputTokens + usage.outputTokens).toLocaleString('en-US')} tokens, about $${usage.cost.toFixed(4)}\n`);
+    }
+}
+
+function print(text: string): void {
+    process.stdout.write(`${text}\n`);
+}
+
+function stringOption(args: ParsedArgs, name: string): string | undefined {
+    const value = args.options[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+main(process.argv.slice(2)).then(
+    code => process.exit(code),
+    error => {
+        process.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+        if (error instanceof UsageError) {
+            process.stderr.write(`\n${USAGE}\n`);
+        }
+        process.exit(2);
+    }
+);
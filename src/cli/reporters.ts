@@ -0,0 +1,138 @@
+import { describeStep } from '../scenario';
+import { ScenarioResult } from '../scenarioRunner';
+
+/** A scenario's result together with the file it came from */
+export interface ScenarioReport {
+    file: string;
+    /** Set when the file could not be loaded or the device could not be reached */
+    error?: string;
+    result?: ScenarioResult;
+    /** Screenshots of failed steps by step index */
+    screenshots: Record<number, string>;
+}
+
+export type ReportFormat = 'text' | 'json' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit'];
+
+export function formatReports(reports: ScenarioReport[], format: ReportFormat): string {
+    switch (format) {
+        case 'text':
+            return formatText(reports);
+        case 'json':
+            return formatJson(reports);
+        case 'junit':
+            return formatJunit(reports);
+    }
+}
+
+function formatText(reports: ScenarioReport[]): string {
+    const lines: string[] = [];
+    for (const report of reports) {
+        if (!report.result) {
+            lines.push(`ERROR  ${report.file}: ${report.error}`);
+            continue;
+        }
+        const { result } = report;
+        lines.push(`${result.passed ? 'PASS' : 'FAIL'}   ${result.scenario.name} (${report.file}, ${result.durationMs} ms)`);
+        for (const step of result.steps) {
+            if (step.status !== 'passed' || !result.passed) {
+                lines.push(`       ${step.index + 1}. ${describeStep(step.step)}: ${step.status}${step.message ? ` (${step.message})` : ''}`);
+            }
+            if (report.screenshots[step.index]) {
+                lines.push(`          screenshot: ${report.screenshots[step.index]}`);
+            }
+            if (step.heatmapPath && step.status !== 'passed') {
+                lines.push(`          diff: ${step.heatmapPath}`);
+            }
+        }
+    }
+
+    const passed = reports.filter(report => report.result?.passed).length;
+    lines.push('', `${passed} of ${reports.length} scenarios passed`);
+    return lines.join('\n') + '\n';
+}
+
+function formatJson(reports: ScenarioReport[]): string {
+    const scenarios = reports.map(report => ({
+        file: report.file,
+        name: report.result?.scenario.name,
+        passed: report.result?.passed ?? false,
+        error: report.error,
+        durationMs: report.result?.durationMs,
+        steps: report.result?.steps.map(step => ({
+            index: step.index + 1,
+            description: describeStep(step.step),
+            status: step.status,
+            durationMs: step.durationMs,
+            message: step.message,
+            screenshot: report.screenshots[step.index],
+            heatmap: step.heatmapPath
+        }))
+    }));
+    return JSON.stringify({
+        passed: scenarios.every(scenario => scenario.passed),
+        total: scenarios.length,
+        failed: scenarios.filter(scenario => !scenario.passed).length,
+        scenarios
+    }, null, 2) + '\n';
+}
+
+/**
+ * JUnit XML as read by CI servers: one suite per scenario, one test case per step.
+ */
+function formatJunit(reports: ScenarioReport[]): string {
+    const suites = reports.map(report => {
+        const name = report.result?.scenario.name ?? report.file;
+        if (!report.result) {
+            return `  <testsuite name="${xml(name)}" tests="1" failures="0" errors="1" skipped="0" time="0">\n` +
+                `    <testcase name="load" classname="${xml(report.file)}" time="0">\n` +
+                `      <error message="${xml(report.error ?? 'Scenario did not run')}"/>\n` +
+                '    </testcase>\n' +
+                '  </testsuite>';
+        }
+
+        const { steps } = report.result;
+        const count = (status: string) => steps.filter(step => step.status === status).length;
+        const cases = steps.map(step => {
+            const attributes = `name="${xml(`${step.index + 1}. ${describeStep(step.step)}`)}" classname="${xml(report.file)}" time="${seconds(step.durationMs)}"`;
+            const details = [
+                report.screenshots[step.index] && `[[ATTACHMENT|${report.screenshots[step.index]}]]`,
+                step.heatmapPath && step.status !== 'passed' && `[[ATTACHMENT|${step.heatmapPath}]]`
+            ].filter(Boolean).join('\n');
+            const output = details ? `\n      <system-out>${xml(details)}</system-out>` : '';
+            switch (step.status) {
+                case 'passed':
+                    return `    <testcase ${attributes}/>`;
+                case 'skipped':
+                    return `    <testcase ${attributes}>\n      <skipped message="${xml(step.message ?? '')}"/>\n    </testcase>`;
+                case 'failed':
+                case 'errored': {
+                    const tag = step.status === 'failed' ? 'failure' : 'error';
+                    return `    <testcase ${attributes}>\n      <${tag} message="${xml(step.message ?? step.status)}"/>${output}\n    </testcase>`;
+                }
+            }
+        });
+        return `  <testsuite name="${xml(name)}" tests="${steps.length}" failures="${count('failed')}" ` +
+            `errors="${count('errored')}" skipped="${count('skipped')}" time="${seconds(report.result.durationMs)}">\n` +
+            `${cases.join('\n')}\n  </testsuite>`;
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        `<testsuites name="Double Vision scenarios">\n${suites.join('\n')}\n</testsuites>\n`;
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+function xml(text: string): string {
+    // Control characters other than tab, LF and CR are not allowed in XML 1.0, even escaped;
+    // AI output and error text can contain them
+    return text
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '\uFFFD')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,119 @@
+export interface LVGLCodeResult {
+    code: string;
+    rationale: string;
+    language: string;
+    timestamp: Date;
+}
+
+/**
+ * Asks for code to a description; `requirements` is the rendered code generation template.
+ */
+export function buildCodeGenerationPrompt(description: string, hasImage: boolean, requirements: string): string {
+    const reference = hasImage
+        ? 'The attached image is the current ESP32 display as seen by the camera. Use it as the visual reference ' +
+          'and apply the requested changes to it. '
+        : '';
+
+    return `Generate LVGL C code for ESP32 to create a graphical interface based on this description: ${description}\n\n` +
+        reference +
+        `${requirements} ` +
+        'Reply with a single ```c fenced code block containing the complete code, followed by a short rationale ' +
+        '(at most three sentences) explaining the design choices.';
+}
+
+export interface FixRequest {
+    /** The issue as reported by the analysis, including the element it names */
+    issue: string;
+    /** Description of the whole screen, for context */
+    screen: string;
+    fileName: string;
+    /** One-based line numbers of the excerpt */
+    startLine: number;
+    endLine: number;
+    excerpt: string;
+}
+
+export function buildFixPrompt(request: FixRequest, hasImage: boolean, lvglVersion: string): string {
+    const reference = hasImage ? 'The attached image is the display as the camera saw it when the issue was reported. ' : '';
+
+    return `A camera watching an ESP32 display running LVGL ${lvglVersion} reported this issue: ${request.issue}\n\n` +
+        `The whole screen was described as: ${request.screen}\n\n` +
+        reference +
+        `The code below is lines ${request.startLine}-${request.endLine} of ${request.fileName}, which most likely ` +
+        'creates the affected element:\n\n' +
+        `\`\`\`c\n${request.excerpt}\n\`\`\`\n\n` +
+        'Fix the issue with the smallest possible change. Reply with a single ```c fenced code block containing ' +
+        'the complete corrected excerpt, which will replace exactly those lines, so keep the surrounding code and ' +
+        'indentation as they are. Follow it with one sentence explaining the change.';
+}
+
+export interface FileEditRequest {
+    /** What to change: the issues to fix or the user's own request */
+    instruction: string;
+    fileName: string;
+    content: string;
+}
+
+export function buildFileEditPrompt(request: FileEditRequest, hasImage: boolean, lvglVersion: string): string {
+    const reference = hasImage ? 'The attached image is the ESP32 display as the camera currently sees it. ' : '';
+
+    return `You are editing ${request.fileName}, part of an ESP32 firmware using LVGL ${lvglVersion}. ${request.instruction}\n\n` +
+        reference +
+        `This is the current content of ${request.fileName}:\n\n` +
+        `\`\`\`c\n${request.content}\n\`\`\`\n\n` +
+        'Change only what is needed. Reply with a single ```c fenced code block containing the complete updated ' +
+        'file, unchanged parts included, followed by a short rationale (at most three sentences).';
+}
+
+/**
+ * Splits a model reply into the code inside its markdown fence and the prose around it,
+ * which is kept as the rationale. Replies without a fence are treated as bare code.
+ */
+export function parseCodeResponse(response: string): LVGLCodeResult {
+    const fencePattern = /```([\w+#-]*)[^\n]*\n([\s\S]*?)```/g;
+    const blocks: { language: string; code: string }[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = fencePattern.exec(response)) !== null) {
+        blocks.push({ language: match[1].toLowerCase(), code: match[2] });
+    }
+
+    if (blocks.length === 0) {
+        return {
+            code: response.trim(),
+            rationale: '',
+            language: 'c',
+            timestamp: new Date()
+        };
+    }
+
+    // Prefer the first C/C++ block; models sometimes add a shell or config snippet as well
+    const block = blocks.find(b => ['c', 'cpp', 'c++', 'h', 'arduino', 'ino'].includes(b.language)) || blocks[0];
+    const rationale = response
+        .replace(fencePattern, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+
+    return {
+        code: block.code.trimEnd(),
+        rationale,
+        language: block.language === 'cpp' || block.language === 'c++' ? 'cpp' : 'c',
+        timestamp: new Date()
+    };
+}
+
+/**
+ * Renders a code result as a source file, with the rationale as a leading block comment.
+ */
+export function formatCodeDocument(result: LVGLCodeResult): string {
+    if (!result.rationale) {
+        return result.code;
+    }
+
+    const comment = result.rationale
+        .replace(/\*\//g, '* /')
+        .split('\n')
+        .map(line => ` * ${line}`.trimEnd())
+        .join('\n');
+    return `/*\n * Rationale:\n${comment}\n */\n\n${result.code}\n`;
+}
@@ -0,0 +1,7 @@
+/**
+ * Where provider API keys come from. The extension keeps them in the editor's
+ * secret storage; the command-line runner reads them from the environment.
+ */
+export interface CredentialStore {
+    getApiKey(providerId: string): Promise<string | undefined>;
+}
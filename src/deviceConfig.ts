@@ -0,0 +1,27 @@
+export interface DeviceConfig {
+    id: string;
+    name: string;
+    ipAddress: string;
+    port: number;
+    /** Overrides doubleVision.camera.wsPort for this device */
+    wsPort?: number;
+    /** Overrides doubleVision.camera.wsPath for this device */
+    wsPath?: string;
+    /** `host[:port]` of the board running LVGL, when it is not the camera board */
+    uiAddress?: string;
+}
+
+/**
+ * The UI board's address: `uiAddress` if set, else the camera's own address,
+ * for boards that run both the camera and the display.
+ */
+export function getUiAddress(config: DeviceConfig): { host: string; port: number } {
+    const match = config.uiAddress?.trim().match(/^([^:\s]+)(?::(\d+))?$/);
+    return match
+        ? { host: match[1], port: match[2] ? Number(match[2]) : 80 }
+        : { host: config.ipAddress, port: config.port };
+}
+
+export function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
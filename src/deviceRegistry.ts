@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { CameraManager, postCommand } from './cameraManager';
+import { AIProvider } from './aiProvider';
+import { MonitoringService } from './monitoringService';
+import { DisplayCalibration } from './calibration';
+import { CalibrationStore } from './calibrationStore';
+import { HistoryStore } from './historyStore';
+import { WidgetTreeClient } from './widgetTree';
+import { InputCommand, toCommandParams } from './inputInjection';
+import { DeviceConfig, getUiAddress, slugify } from './deviceConfig';
+import { NotificationReporter } from './monitoringNotifications';
+
+export interface Device {
+    readonly config: DeviceConfig;
+    readonly camera: CameraManager;
+    readonly monitoring: MonitoringService;
+    /** Reads the LVGL widget tree from the board running the UI */
+    readonly widgets: WidgetTreeClient;
+}
+
+const DEFAULT_IP = '192.168.1.100';
+
+/**
+ * Named camera devices in the workspace, each with its own CameraManager and
+ * MonitoringService. Devices are persisted in `doubleVision.devices`; when that
+ * setting is empty a single device is created from the legacy
+ * `doubleVision.camera.*` settings.
+ */
+export class DeviceRegistry implements vscode.Disposable {
+    private devices = new Map<string, Device>();
+    private stateListeners = new Map<string, vscode.Disposable>();
+    private selectedId?: string;
+
+    private readonly _onDidChangeDevices = new vscode.EventEmitter<void>();
+    public readonly onDidChangeDevices = this._onDidChangeDevices.event;
+
+    private readonly _onDidChangeSelection = new vscode.EventEmitter<Device | undefined>();
+    public readonly onDidChangeSelection = this._onDidChangeSelection.event;
+
+    // Monitoring results of every device are shown as notifications
+    private readonly reporter = new NotificationReporter(this.history);
+
+    constructor(
+        private readonly aiProvider: AIProvider,
+        private readonly calibrations: CalibrationStore,
+        private readonly history: HistoryStore
+    ) {}
+
+    public loadFromConfiguration(): void {
+        const config = vscode.workspace.getConfiguration('doubleVision');
+        const configured = config.get<Partial<DeviceConfig>[]>('devices', []);
+
+        if (configured.length === 0) {
+            this.add({
+                name: 'ESP32 Camera',
+                ipAddress: config.get('camera.ipAddress', DEFAULT_IP),
+                port: config.get('camera.port', 80)
+            });
+            return;
+        }
+
+        for (const entry of configured) {
+            if (!entry.name || !entry.ipAddress) {
+                console.error('Ignoring device entry without name or ipAddress:', entry);
+                continue;
+            }
+            this.add({
+                id: entry.id,
+                name: entry.name,
+                ipAddress: entry.ipAddress,
+                port: entry.port ?? 80,
+                wsPort: entry.wsPort,
+                wsPath: entry.wsPath,
+                uiAddress: entry.uiAddress
+            });
+        }
+    }
+
+    public async saveToConfiguration(): Promise<void> {
+        const devices = this.list().map(device => ({ ...device.config }));
+        await vscode.workspace.getConfiguration('doubleVision').update(
+            'devices',
+            devices,
+            vscode.ConfigurationTarget.Workspace
+        );
+    }
+
+    public add(config: Omit<DeviceConfig, 'id'> & { id?: string }): Device {
+        const id = this.uniqueId(config.id || slugify(config.name));
+        const camera = new CameraManager();
+        const deviceConfig: DeviceConfig = { ...config, id };
+        const widgets = new WidgetTreeClient(() => getUiAddress(deviceConfig));
+        const device: Device = {
+            config: deviceConfig,
+            camera,
+            monitoring: new MonitoringService(camera, this.aiProvider, this.history, id, config.name, this.reporter, widgets),
+            widgets
+        };
+
+        this.devices.set(id, device);
+        this.calibrations.get(id)
+            .then(calibration => {
+                camera.setCalibration(calibration);
+                if (calibration) {
+                    this._onDidChangeDevices.fire();
+                }
+            })
+            .catch(error => console.error(`Failed to load calibration for ${config.name}:`, error));
+        this.stateListeners.set(id, vscode.Disposable.from(
+            camera.onDidChangeState(() => this._onDidChangeDevices.fire()),
+            device.monitoring.onDidChangeActive(() => this._onDidChangeDevices.fire())
+        ));
+        this._onDidChangeDevices.fire();
+
+        if (!this.selectedId) {
+            this.select(id);
+        }
+        return device;
+    }
+
+    public remove(id: string): void {
+        const device = this.devices.get(id);
+        if (!device) {
+            return;
+        }
+
+        this.stateListeners.get(id)?.dispose();
+        device.monitoring.dispose();
+        device.camera.dispose();
+        this.stateListeners.delete(id);
+        this.devices.delete(id);
+        this._onDidChangeDevices.fire();
+
+        if (this.selectedId === id) {
+            const next = this.list()[0];
+            this.selectedId = undefined;
+            if (next) {
+                this.select(next.config.id);
+            } else {
+                this._onDidChangeSelection.fire(undefined);
+            }
+        }
+    }
+
+    public updateAddress(id: string, ipAddress: string, port: number): void {
+        const device = this.devices.get(id);
+        if (device) {
+            device.config.ipAddress = ipAddress;
+            device.config.port = port;
+            this._onDidChangeDevices.fire();
+        }
+    }
+
+    /**
+     * Connects the device's camera using its configured address and transport overrides.
+     */
+    public connect(device: Device, ipAddress = device.config.ipAddress, port = device.config.port): Promise<void> {
+        return device.camera.connect(ipAddress, port, {
+            wsPort: device.config.wsPort,
+            wsPath: device.config.wsPath
+        });
+    }
+
+    /**
+     * Stores the display calibration for a device and applies it to its camera;
+     * `undefined` removes it.
+     */
+    public async setCalibration(device: Device, calibration: DisplayCalibration | undefined): Promise<void> {
+        await this.calibrations.set(device.config.id, calibration);
+        device.camera.setCalibration(calibration);
+        this._onDidChangeDevices.fire();
+    }
+
+    /**
+     * Injects touch, swipe or key input into the device's UI. It goes to the board at
+     * `uiAddress` when the display runs on its own ESP32, else through the camera.
+     */
+    public async sendInput(device: Device, input: InputCommand): Promise<void> {
+        const { command, params } = toCommandParams(input);
+        if (device.config.uiAddress) {
+            const { host, port } = getUiAddress(device.config);
+            await postCommand(host, port, command, params);
+        } else {
+            await device.camera.sendCommand(command, params);
+        }
+    }
+
+    public get(id: string): Device | undefined {
+        return this.devices.get(id);
+    }
+
+    public list(): Device[] {
+        return [...this.devices.values()];
+    }
+
+    public select(id: string): void {
+        if (!this.devices.has(id) || this.selectedId === id) {
+            return;
+        }
+        this.selectedId = id;
+        this._onDidChangeSelection.fire(this.devices.get(id));
+        this._onDidChangeDevices.fire();
+    }
+
+    public getSelected(): Device | undefined {
+        return this.selectedId ? this.devices.get(this.selectedId) : undefined;
+    }
+
+    /**
+     * Lets views refresh after a device's state changed in a way the registry does
+     * not see. Connection and monitoring state changes are forwarded automatically.
+     */
+    public notifyStateChanged(): void {
+        this._onDidChangeDevices.fire();
+    }
+
+    public dispose(): void {
+        for (const listener of this.stateListeners.values()) {
+            listener.dispose();
+        }
+        for (const device of this.devices.values()) {
+            device.monitoring.dispose();
+            device.camera.dispose();
+        }
+        this.devices.clear();
+        this.stateListeners.clear();
+        this._onDidChangeDevices.dispose();
+        this._onDidChangeSelection.dispose();
+    }
+
+    private uniqueId(base: string): string {
+        let id = base || 'device';
+        for (let suffix = 2; this.devices.has(id); suffix++) {
+            id = `${base}-${suffix}`;
+        }
+        return id;
+    }
+}
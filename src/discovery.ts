@@ -0,0 +1,190 @@
+import * as os from 'os';
+import axios from 'axios';
+import { browseMdns } from './mdns';
+
+export interface DiscoveredDevice {
+    /** Address the device answered on */
+    host: string;
+    port: number;
+    /** Name announced over mDNS, if any */
+    name?: string;
+    /** IP address the device reports in its /status response */
+    reportedIp?: string;
+    /** Camera state from /status, e.g. "ready" */
+    cameraState?: string;
+    source: 'mdns' | 'scan';
+}
+
+export interface DiscoveryOptions {
+    /** Port probed during the subnet scan */
+    port: number;
+    /** Time to wait for mDNS answers and for each /status probe */
+    timeoutMs: number;
+    /** Also probe every host on the local subnets */
+    subnetScan: boolean;
+    /** Upper bound on the number of hosts probed by the subnet scan */
+    maxHosts: number;
+    /** Number of /status probes in flight at once */
+    concurrency: number;
+}
+
+export const SERVICE_TYPE = '_double-vision._tcp.local';
+
+export const DEFAULT_DISCOVERY_OPTIONS: DiscoveryOptions = {
+    port: 80,
+    timeoutMs: 2000,
+    subnetScan: false,
+    maxHosts: 254,
+    concurrency: 32
+};
+
+/**
+ * Finds Double Vision cameras through mDNS/DNS-SD announcements and, optionally,
+ * a bounded scan of the local IPv4 subnets. Every candidate is confirmed by
+ * probing its `/status` endpoint.
+ */
+export async function discoverDevices(options: DiscoveryOptions = DEFAULT_DISCOVERY_OPTIONS): Promise<DiscoveredDevice[]> {
+    const [announced, scanned] = await Promise.all([
+        discoverWithMdns(options),
+        options.subnetScan ? scanSubnets(options) : Promise.resolve([])
+    ]);
+
+    // Prefer mDNS entries since they carry a name
+    const devices = new Map<string, DiscoveredDevice>();
+    for (const device of [...announced, ...scanned]) {
+        const key = `${device.host}:${device.port}`;
+        if (!devices.has(key)) {
+            devices.set(key, device);
+        }
+    }
+    return [...devices.values()].sort((a, b) => compareAddresses(a.host, b.host));
+}
+
+export async function discoverWithMdns(options: DiscoveryOptions): Promise<DiscoveredDevice[]> {
+    const services = await browseMdns(SERVICE_TYPE, options.timeoutMs);
+    const candidates = services.flatMap(service => service.addresses.map(address => ({
+        host: address,
+        port: service.port ?? options.port,
+        name: service.name.replace(`.${SERVICE_TYPE}`, '')
+    })));
+
+    const results = await runWithConcurrency(candidates, options.concurrency, async (candidate): Promise<DiscoveredDevice | undefined> => {
+        const status = await probeDevice(candidate.host, candidate.port, options.timeoutMs);
+        return status ? { ...status, name: candidate.name, source: 'mdns' as const } : undefined;
+    });
+    return results.filter((device): device is DiscoveredDevice => device !== undefined);
+}
+
+export async function scanSubnets(options: DiscoveryOptions): Promise<DiscoveredDevice[]> {
+    return probeHosts(getSubnetHosts(options.maxHosts), options);
+}
+
+/**
+ * Probes the given hosts on `options.port`, returning those that answer like a
+ * Double Vision camera.
+ */
+export async function probeHosts(hosts: string[], options: DiscoveryOptions): Promise<DiscoveredDevice[]> {
+    const results = await runWithConcurrency(hosts, options.concurrency, async (host): Promise<DiscoveredDevice | undefined> => {
+        const status = await probeDevice(host, options.port, options.timeoutMs);
+        return status ? { ...status, source: 'scan' as const } : undefined;
+    });
+    return results.filter((device): device is DiscoveredDevice => device !== undefined);
+}
+
+/**
+ * Requests `/status` and checks the response matches the firmware's
+ * `{ "status": "ok", "camera": ..., "ip": ... }` shape.
+ */
+export async function probeDevice(
+    host: string,
+    port: number,
+    timeoutMs: number
+): Promise<Omit<DiscoveredDevice, 'source'> | undefined> {
+    try {
+        const response = await axios.get(`http://${host}:${port}/status`, {
+            timeout: timeoutMs,
+            validateStatus: status => status === 200
+        });
+
+        const data = response.data;
+        if (typeof data !== 'object' || data === null || data.status !== 'ok' || !('camera' in data)) {
+            return undefined;
+        }
+
+        return {
+            host,
+            port,
+            reportedIp: typeof data.ip === 'string' ? data.ip : undefined,
+            cameraState: String(data.camera),
+            name: typeof data.name === 'string' ? data.name : undefined
+        };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Lists host addresses on the machine's non-internal IPv4 networks, excluding its own
+ * addresses. Networks larger than a /24 are narrowed to the /24 around the local
+ * address, and the total is capped at `maxHosts`.
+ */
+export function getSubnetHosts(maxHosts: number): string[] {
+    const interfaces = Object.values(os.networkInterfaces())
+        .flatMap(addresses => addresses || [])
+        .filter(address => address.family === 'IPv4' && !address.internal);
+    const own = new Set(interfaces.map(address => address.address));
+    const hosts = new Set<string>();
+
+    for (const address of interfaces) {
+        const ip = toNumber(address.address);
+        const prefix = Math.max(24, maskToPrefix(address.netmask));
+        const mask = prefix === 32 ? 0xffffffff : (~0 << (32 - prefix)) >>> 0;
+        const network = (ip & mask) >>> 0;
+        const broadcast = (network | (~mask >>> 0)) >>> 0;
+
+        for (let host = network + 1; host < broadcast && hosts.size < maxHosts; host++) {
+            if (!own.has(toAddress(host))) {
+                hosts.add(toAddress(host));
+            }
+        }
+    }
+
+    return [...hosts];
+}
+
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+
+    const lanes = Array.from({ length: Math.min(Math.max(1, limit), items.length) }, async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await worker(items[index]);
+        }
+    });
+
+    await Promise.all(lanes);
+    return results;
+}
+
+function toNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => ((value << 8) | parseInt(octet, 10)) >>> 0, 0);
+}
+
+function toAddress(value: number): string {
+    return [24, 16, 8, 0].map(shift => (value >>> shift) & 0xff).join('.');
+}
+
+function maskToPrefix(netmask: string): number {
+    let bits = toNumber(netmask);
+    let prefix = 0;
+    while (bits & 0x80000000) {
+        prefix++;
+        bits = (bits << 1) >>> 0;
+    }
+    return prefix;
+}
+
+function compareAddresses(a: string, b: string): number {
+    return toNumber(a) - toNumber(b);
+}
@@ -0,0 +1,35 @@
+import { logger } from './logger';
+
+/*
+ * Minimal event primitives for the editor-independent core. They match the shape
+ * of vscode.Event and vscode.Disposable, so the extension can use them unchanged.
+ */
+
+export interface Disposable {
+    dispose(): void;
+}
+
+export type Event<T> = (listener: (e: T) => unknown) => Disposable;
+
+export class EventEmitter<T> implements Disposable {
+    private listeners = new Set<(e: T) => unknown>();
+
+    public readonly event: Event<T> = listener => {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    };
+
+    public fire(value: T): void {
+        for (const listener of [...this.listeners]) {
+            try {
+                listener(value);
+            } catch (error) {
+                logger.error('Event listener failed:', error);
+            }
+        }
+    }
+
+    public dispose(): void {
+        this.listeners.clear();
+    }
+}
@@ -1,82 +1,293 @@
 import * as vscode from 'vscode';
-import { CameraManager } from './cameraManager';
+import * as fs from 'fs';
+import * as path from 'path';
 import { AIProvider } from './aiProvider';
-import { MonitoringService } from './monitoringService';
+import { formatAnalysisMarkdown } from './analysisResult';
+import { Device, DeviceRegistry } from './deviceRegistry';
 import { CameraViewProvider } from './views/cameraViewProvider';
 import { AIAnalysisProvider } from './views/aiAnalysisProvider';
+import { DeviceTreeItem, DeviceTreeProvider } from './views/deviceTreeProvider';
+import { VisionProvider } from './providers/visionProvider';
+import { BaselineStore } from './baselineStore';
+import { ImageDiffOptions } from './imageDiff';
+import { ConnectionStatusBar } from './statusBar';
+import { CONNECTION_STATE_LABELS } from './cameraManager';
+import { CalibrationStore } from './calibrationStore';
+import { RECORDING_EXTENSION, RecordingReader, SessionRecorder } from './recording';
+import { ReplaySource } from './replaySource';
+import { CollectingReporter, MonitoringService } from './monitoringService';
+import { FrameSubscription } from './frameBus';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { HistoryGalleryPanel, openHistoryEntry } from './views/historyGalleryPanel';
+import { IssueDiagnostics, readSources } from './issueDiagnostics';
+import { FIX_SCHEME, FixWorkflow } from './fixWorkflow';
+import { INPUT_KEYS, InputKey } from './inputInjection';
+import { ScenarioTestController } from './scenarioTests';
+import { setSettingsSource } from './settings';
+import { SecretCredentialStore } from './secretCredentials';
+import { formatBudget, formatUsageMarkdown, UsageTracker } from './usageTracker';
+import { SourceCollector } from './sourceContext';
+import { DEFAULT_PROMPTS_FOLDER, newTemplateContent, parsePromptTemplate, PROMPT_KINDS, PromptKind, PromptTemplate, PromptTemplates } from './promptTemplates';
+import { DEFAULT_DISCOVERY_OPTIONS, DiscoveredDevice, discoverDevices, DiscoveryOptions, scanSubnets } from './discovery';
 
-export function activate(context: vscode.ExtensionContext) {
+/**
+ * API returned from activate() for other extensions to consume.
+ */
+export interface DoubleVisionApi {
+    registerAIProvider(provider: VisionProvider): vscode.Disposable;
+}
+
+export function activate(context: vscode.ExtensionContext): DoubleVisionApi {
     console.log('Double Vision extension is now active!');
     
-    const cameraManager = new CameraManager();
-    const aiProvider = new AIProvider();
-    const monitoringService = new MonitoringService(cameraManager, aiProvider);
+    // The editor-independent core reads its settings from the workspace configuration
+    setSettingsSource(() => vscode.workspace.getConfiguration('doubleVision'));
+    
+    const credentials = new SecretCredentialStore(context.secrets);
+    // The camera and analysis views take the focus from the editor, so prompts get
+    // the last file open in one
+    let activeFile: vscode.Uri | undefined;
+    const trackActiveFile = (editor?: vscode.TextEditor) => {
+        if (editor?.document.uri.scheme === 'file') {
+            activeFile = editor.document.uri;
+        }
+    };
+    trackActiveFile(vscode.window.activeTextEditor);
+    const activeEditorListener = vscode.window.onDidChangeActiveTextEditor(trackActiveFile);
+    // Daily usage totals survive restarts in the global state
+    const aiProvider = new AIProvider(
+        credentials,
+        new UsageTracker(context.globalState),
+        new PromptTemplates(getPromptFolder, () => ({ activeFile: activeFile && vscode.workspace.asRelativePath(activeFile) })),
+        new SourceCollector(
+            () => readSources(vscode.workspace.getConfiguration('doubleVision').get('diagnostics.include', '**/*.{ino,c,cpp,h}')),
+            () => vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+            () => activeFile?.fsPath
+        )
+    );
+    credentials.migrateLegacyKey(aiProvider.getProviders())
+        .then(({ moved, kept }) => {
+            if (moved.length > 0) {
+                vscode.window.showInformationMessage('Moved the API key from doubleVision.ai.apiKey to secure storage for ' +
+                    `${moved.map(provider => provider.displayName).join(', ')}.`);
+            }
+            if (kept > 0) {
+                vscode.window.showWarningMessage(
+                    'doubleVision.ai.apiKey is no longer used and was left in your settings, because its provider is ' +
+                    'unknown or a different key is already stored. Run "Double Vision: Set API Key" to store it for ' +
+                    'a provider, then remove the setting.');
+            }
+        })
+        .catch(error => console.error('Failed to migrate the API key setting:', error));
+    const history = new HistoryStore(
+        getHistoryDirectory(context),
+        vscode.workspace.getConfiguration('doubleVision').get('history.maxEntries', 500)
+    );
+    const registry = new DeviceRegistry(aiProvider, new CalibrationStore(getCalibrationPath(context)), history);
+    
+    // AI edits to source files are previewed through this scheme before they are applied
+    const fixWorkflow = new FixWorkflow(aiProvider, registry, history);
+    const fixContentProvider = vscode.workspace.registerTextDocumentContentProvider(FIX_SCHEME, fixWorkflow);
     
     // Register view providers
-    const cameraViewProvider = new CameraViewProvider(context.extensionUri, cameraManager);
-    const aiAnalysisProvider = new AIAnalysisProvider(context.extensionUri, aiProvider);
+    const cameraViewProvider = new CameraViewProvider(context.extensionUri, registry);
+    const aiAnalysisProvider = new AIAnalysisProvider(context.extensionUri, aiProvider, registry, history, fixWorkflow);
+    const deviceTreeProvider = new DeviceTreeProvider(registry);
     
     vscode.window.registerWebviewViewProvider('double-vision-camera', cameraViewProvider);
     vscode.window.registerWebviewViewProvider('double-vision-ai', aiAnalysisProvider);
+    const deviceTreeView = vscode.window.createTreeView('double-vision-devices', {
+        treeDataProvider: deviceTreeProvider
+    });
+    
+    const statusBar = new ConnectionStatusBar(registry);
+    
+    // Issues of each new analysis are mapped onto the sketch sources as diagnostics
+    const issueDiagnostics = new IssueDiagnostics(aiProvider, history, fixWorkflow);
+    const codeActionProvider = vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, issueDiagnostics, {
+        providedCodeActionKinds: IssueDiagnostics.providedCodeActionKinds
+    });
+    
+    // Scenario files show up in the Test Explorer and run against the devices
+    const scenarioTests = new ScenarioTestController(registry, aiProvider, getBaselineStore, getDiffOptions);
+    
+    // Context keys drive view visibility; they reflect all devices, not just the selected one
+    const updateContextKeys = () => {
+        const devices = registry.list();
+        vscode.commands.executeCommand('setContext', 'double-vision.cameraConnected',
+            devices.some(device => device.camera.isConnected()));
+        // The AI Analysis view also chats about past frames, so it only needs a device
+        vscode.commands.executeCommand('setContext', 'double-vision.hasDevices', devices.length > 0);
+    };
+    // Fires on connection state changes too, so the keys follow reconnects and drops
+    const contextKeyListener = registry.onDidChangeDevices(updateContextKeys);
+    
+    registry.loadFromConfiguration();
+    
+    // Resolves the device a command applies to: the tree item it was invoked on, else the selected device
+    const resolveDevice = (item?: DeviceTreeItem): Device | undefined => {
+        const device = item?.device ?? registry.getSelected();
+        if (!device) {
+            vscode.window.showWarningMessage('No device configured. Add one with "Double Vision: Add Device".');
+        }
+        return device;
+    };
+    
+    const resolveConnectedDevice = (item?: DeviceTreeItem): Device | undefined => {
+        const device = resolveDevice(item);
+        if (device && !device.camera.isConnected()) {
+            vscode.window.showWarningMessage(`Please connect to ${device.config.name} first`);
+            return undefined;
+        }
+        return device;
+    };
     
     // Register commands
-    const connectCameraCommand = vscode.commands.registerCommand('double-vision.connectCamera', async () => {
-        const ipAddress = await vscode.window.showInputBox({
-            prompt: 'Enter ESP32 camera IP address',
-            value: vscode.workspace.getConfiguration('doubleVision').get('camera.ipAddress', '192.168.1.100'),
-            validateInput: (value) => {
-                const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
-                return ipRegex.test(value) ? null : 'Please enter a valid IP address';
-            }
+    const connectCameraCommand = vscode.commands.registerCommand('double-vision.connectCamera', async (item?: DeviceTreeItem) => {
+        const device = item?.device ?? registry.getSelected() ?? registry.add({
+            name: 'ESP32 Camera',
+            ipAddress: vscode.workspace.getConfiguration('doubleVision').get('camera.ipAddress', '192.168.1.100'),
+            port: vscode.workspace.getConfiguration('doubleVision').get('camera.port', 80)
         });
         
-        if (ipAddress) {
+        const address = await pickCameraAddress(device);
+        
+        if (address) {
+            const { host: ipAddress, port } = address;
             try {
-                await cameraManager.connect(ipAddress);
-                vscode.window.showInformationMessage(`Connected to ESP32 camera at ${ipAddress}`);
-                vscode.commands.executeCommand('setContext', 'double-vision.cameraConnected', true);
+                await registry.connect(device, ipAddress, port);
+                if (ipAddress !== device.config.ipAddress || port !== device.config.port) {
+                    registry.updateAddress(device.config.id, ipAddress, port);
+                    await registry.saveToConfiguration();
+                }
+                vscode.window.showInformationMessage(`Connected to ${device.config.name} at ${ipAddress}`);
             } catch (error) {
                 vscode.window.showErrorMessage(`Failed to connect to camera: ${error}`);
             }
         }
     });
     
-    const startMonitoringCommand = vscode.commands.registerCommand('double-vision.startMonitoring', async () => {
-        if (!cameraManager.isConnected()) {
-            vscode.window.showWarningMessage('Please connect to a camera first');
+    const disconnectCameraCommand = vscode.commands.registerCommand('double-vision.disconnectCamera', (item?: DeviceTreeItem) => {
+        const device = resolveDevice(item);
+        if (device) {
+            device.monitoring.stop();
+            device.camera.disconnect();
+        }
+    });
+    
+    const addDeviceCommand = vscode.commands.registerCommand('double-vision.addDevice', async () => {
+        const name = await vscode.window.showInputBox({
+            prompt: 'Device name (e.g. Main HMI, Remote Panel)',
+            validateInput: (value) => value.trim() ? null : 'Please enter a name'
+        });
+        if (!name) {
+            return;
+        }
+        
+        const ipAddress = await vscode.window.showInputBox({
+            prompt: `Enter IP address for ${name}`,
+            validateInput: validateIpAddress
+        });
+        if (!ipAddress) {
+            return;
+        }
+        
+        const portText = await vscode.window.showInputBox({
+            prompt: 'Camera HTTP port',
+            value: '80',
+            validateInput: validatePort
+        });
+        if (!portText) {
+            return;
+        }
+        
+        const device = registry.add({ name: name.trim(), ipAddress, port: parseInt(portText, 10) });
+        registry.select(device.config.id);
+        await registry.saveToConfiguration();
+    });
+    
+    const removeDeviceCommand = vscode.commands.registerCommand('double-vision.removeDevice', async (item?: DeviceTreeItem) => {
+        const device = resolveDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        const confirm = await vscode.window.showWarningMessage(
+            `Remove device "${device.config.name}"?`,
+            { modal: true },
+            'Remove'
+        );
+        if (confirm === 'Remove') {
+            registry.remove(device.config.id);
+            await registry.saveToConfiguration();
+        }
+    });
+    
+    const selectDeviceCommand = vscode.commands.registerCommand('double-vision.selectDevice', async (item?: DeviceTreeItem) => {
+        let device = item?.device;
+        if (!device) {
+            const picked = await vscode.window.showQuickPick(
+                registry.list().map(d => ({
+                    label: d.config.name,
+                    description: `${d.config.ipAddress}:${d.config.port}`,
+                    detail: CONNECTION_STATE_LABELS[d.camera.getState()],
+                    device: d
+                })),
+                { placeHolder: 'Select the device to show in the camera and AI views' }
+            );
+            device = picked?.device;
+        }
+        if (device) {
+            registry.select(device.config.id);
+        }
+    });
+    
+    const startMonitoringCommand = vscode.commands.registerCommand('double-vision.startMonitoring', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
             return;
         }
         
         try {
-            await monitoringService.start();
-            vscode.window.showInformationMessage('AI visual monitoring started');
-            vscode.commands.executeCommand('setContext', 'double-vision.aiEnabled', true);
+            await device.monitoring.start();
         } catch (error) {
             vscode.window.showErrorMessage(`Failed to start monitoring: ${error}`);
         }
+        registry.notifyStateChanged();
     });
     
-    const stopMonitoringCommand = vscode.commands.registerCommand('double-vision.stopMonitoring', () => {
-        monitoringService.stop();
-        vscode.window.showInformationMessage('AI visual monitoring stopped');
-        vscode.commands.executeCommand('setContext', 'double-vision.aiEnabled', false);
+    const stopMonitoringCommand = vscode.commands.registerCommand('double-vision.stopMonitoring', (item?: DeviceTreeItem) => {
+        const device = resolveDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        device.monitoring.stop();
+        const skipped = device.monitoring.getSkippedFrameCount();
+        vscode.window.showInformationMessage(
+            `AI visual monitoring stopped for ${device.config.name} ` +
+            `(${skipped} unchanged frame${skipped === 1 ? '' : 's'} skipped)`
+        );
+        registry.notifyStateChanged();
     });
     
-    const takeSnapshotCommand = vscode.commands.registerCommand('double-vision.takeSnapshot', async () => {
-        if (!cameraManager.isConnected()) {
-            vscode.window.showWarningMessage('Please connect to a camera first');
+    const takeSnapshotCommand = vscode.commands.registerCommand('double-vision.takeSnapshot', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
             return;
         }
         
         try {
-            const snapshot = await cameraManager.takeSnapshot();
-            const analysis = await aiProvider.analyzeImage(snapshot);
+            const snapshot = await device.camera.takeSnapshot();
+            const analysis = await device.monitoring.enqueue(async () =>
+                aiProvider.analyzeImage(snapshot, await device.monitoring.getWidgetTree()));
+            await history.add(snapshot, analysis, { id: device.config.id, name: device.config.name });
             
             vscode.window.showInformationMessage('Snapshot taken and analyzed');
             
             // Show analysis in a new document
             const doc = await vscode.workspace.openTextDocument({
-                content: `# Display Analysis\n\n${analysis}\n\nTimestamp: ${new Date().toISOString()}`,
+                content: `# Display Analysis - ${device.config.name}\n\n${formatAnalysisMarkdown(analysis)}`,
                 language: 'markdown'
             });
             await vscode.window.showTextDocument(doc);
@@ -85,27 +296,851 @@ export function activate(context: vscode.ExtensionContext) {
         }
     });
     
+    const forceAnalyzeCommand = vscode.commands.registerCommand('double-vision.forceAnalyze', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        try {
+            const analysis = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Analyzing ${device.config.name}...`
+            }, () => device.monitoring.forceAnalyze());
+            
+            if (analysis.issues.length === 0) {
+                vscode.window.showInformationMessage('Analysis complete: no issues detected');
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Analysis failed: ${error}`);
+        }
+    });
+    
+    const saveBaselineCommand = vscode.commands.registerCommand('double-vision.saveBaseline', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        const store = getBaselineStore();
+        if (!store) {
+            return;
+        }
+        
+        const name = await vscode.window.showInputBox({
+            prompt: 'Screen name for this baseline (e.g. home, settings)',
+            validateInput: (value) => BaselineStore.isValidName(value)
+                ? null
+                : 'Use letters, digits, \'.\', \'-\' or \'_\''
+        });
+        if (!name) {
+            return;
+        }
+        
+        try {
+            if (await store.exists(name)) {
+                const overwrite = await vscode.window.showWarningMessage(
+                    `A baseline for "${name}" already exists. Replace it?`,
+                    { modal: true },
+                    'Replace'
+                );
+                if (overwrite !== 'Replace') {
+                    return;
+                }
+            }
+            
+            const snapshot = await device.camera.takeSnapshot();
+            await store.save(name, snapshot);
+            vscode.window.showInformationMessage(`Saved baseline for screen "${name}"`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save baseline: ${error}`);
+        }
+    });
+    
+    const compareBaselineCommand = vscode.commands.registerCommand('double-vision.compareBaseline', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        const store = getBaselineStore();
+        if (!store) {
+            return;
+        }
+        
+        const baselines = await store.list();
+        if (baselines.length === 0) {
+            vscode.window.showWarningMessage('No baselines saved yet. Run "Save Screen Baseline" first.');
+            return;
+        }
+        
+        const picked = await vscode.window.showQuickPick(
+            baselines.map(b => ({
+                label: b.name,
+                description: `${b.width}x${b.height}`,
+                detail: `Saved ${new Date(b.createdAt).toLocaleString()}`
+            })),
+            { placeHolder: 'Select the screen to compare against' }
+        );
+        if (!picked) {
+            return;
+        }
+        
+        try {
+            const snapshot = await device.camera.takeSnapshot();
+            const comparison = await store.compare(picked.label, snapshot, getDiffOptions());
+            const summary = `Screen "${comparison.name}" ${comparison.passed ? 'PASSED' : 'FAILED'}: ` +
+                `${comparison.changedPercent.toFixed(2)}% changed, similarity ${comparison.similarity.toFixed(3)}`;
+            
+            const show = comparison.passed ? vscode.window.showInformationMessage : vscode.window.showErrorMessage;
+            const action = await show(summary, 'Show Diff', 'Update Baseline');
+            
+            if (action === 'Show Diff') {
+                await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(comparison.heatmapPath));
+            } else if (action === 'Update Baseline') {
+                await store.save(comparison.name, snapshot);
+                vscode.window.showInformationMessage(`Updated baseline for screen "${comparison.name}"`);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Baseline comparison failed: ${error}`);
+        }
+    });
+    
+    const calibrateDisplayCommand = vscode.commands.registerCommand('double-vision.calibrateDisplay', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
+            return;
+        }
+        
+        registry.select(device.config.id);
+        await vscode.commands.executeCommand('double-vision-camera.focus');
+        await cameraViewProvider.startCalibration();
+    });
+    
+    const clearCalibrationCommand = vscode.commands.registerCommand('double-vision.clearCalibration', async (item?: DeviceTreeItem) => {
+        const device = resolveDevice(item);
+        if (!device) {
+            return;
+        }
+        if (!device.camera.getCalibration()) {
+            vscode.window.showInformationMessage(`${device.config.name} is not calibrated`);
+            return;
+        }
+        
+        try {
+            await registry.setCalibration(device, undefined);
+            vscode.window.showInformationMessage(`Removed display calibration for ${device.config.name}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to remove calibration: ${error}`);
+        }
+    });
+    
+    const sendKeyCommand = vscode.commands.registerCommand('double-vision.sendKey', async (item?: DeviceTreeItem) => {
+        const device = resolveDevice(item);
+        if (!device) {
+            return;
+        }
+        const key = await vscode.window.showQuickPick([...INPUT_KEYS], {
+            placeHolder: `Key to send to ${device.config.name}`
+        });
+        if (!key) {
+            return;
+        }
+        
+        try {
+            await registry.sendInput(device, { type: 'key', key: key as InputKey });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to send input: ${error}`);
+        }
+    });
+    
+    // Active recordings by device id
+    const recordings = new Map<string, { recorder: SessionRecorder; subscription: FrameSubscription }>();
+    const updateRecordingContext = () => {
+        vscode.commands.executeCommand('setContext', 'double-vision.recording', recordings.size > 0);
+    };
+    
+    const stopRecording = async (deviceId: string) => {
+        const recording = recordings.get(deviceId);
+        if (!recording) {
+            return undefined;
+        }
+        recordings.delete(deviceId);
+        updateRecordingContext();
+        recording.subscription.dispose();
+        const summary = await recording.recorder.close();
+        return { ...summary, filePath: recording.recorder.filePath };
+    };
+    
+    const recordSessionCommand = vscode.commands.registerCommand('double-vision.recordSession', async (item?: DeviceTreeItem) => {
+        const device = resolveConnectedDevice(item);
+        if (!device) {
+            return;
+        }
+        if (recordings.has(device.config.id)) {
+            vscode.window.showInformationMessage(`${device.config.name} is already being recorded`);
+            return;
+        }
+        
+        const folder = getRecordingFolder();
+        if (!folder) {
+            return;
+        }
+        
+        try {
+            await fs.promises.mkdir(folder, { recursive: true });
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const recorder = new SessionRecorder(
+                path.join(folder, `${device.config.id}-${stamp}${RECORDING_EXTENSION}`),
+                { deviceId: device.config.id, deviceName: device.config.name }
+            );
+            // Writing is cheap, but queue rather than drop so the recording has every frame
+            const subscription = device.camera.onFrame(snapshot => recorder.write(snapshot), { policy: 'queue', maxQueue: 64 });
+            recordings.set(device.config.id, { recorder, subscription });
+            updateRecordingContext();
+            vscode.window.showInformationMessage(`Recording ${device.config.name}. Run "Stop Recording" to finish.`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start recording: ${error}`);
+        }
+    });
+    
+    const stopRecordingCommand = vscode.commands.registerCommand('double-vision.stopRecording', async (item?: DeviceTreeItem) => {
+        // Without a target device, stop the only recording if there is just one
+        const deviceId = item?.device.config.id
+            ?? (recordings.size === 1 ? [...recordings.keys()][0] : registry.getSelected()?.config.id);
+        if (!deviceId || !recordings.has(deviceId)) {
+            vscode.window.showInformationMessage('No recording in progress for this device');
+            return;
+        }
+        
+        try {
+            const result = await stopRecording(deviceId);
+            if (!result) {
+                return;
+            }
+            const action = await vscode.window.showInformationMessage(
+                `Recorded ${result.frameCount} frames (${(result.byteCount / 1024 / 1024).toFixed(1)} MB, ` +
+                `${Math.round(result.durationMs / 1000)} s) to ${path.basename(result.filePath)}`,
+                'Replay'
+            );
+            if (action === 'Replay') {
+                await vscode.commands.executeCommand('double-vision.replaySession', vscode.Uri.file(result.filePath));
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save recording: ${error}`);
+        }
+    });
+    
+    const replaySessionCommand = vscode.commands.registerCommand('double-vision.replaySession', async (uri?: vscode.Uri) => {
+        const filePath = uri?.fsPath ?? await pickRecording();
+        if (!filePath) {
+            return;
+        }
+        
+        try {
+            await replayRecording(filePath, aiProvider, history);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Replay failed: ${error}`);
+        }
+    });
+    
+    const showHistoryCommand = vscode.commands.registerCommand('double-vision.showHistory', () => {
+        HistoryGalleryPanel.show(history);
+    });
+    
+    const openHistoryEntryCommand = vscode.commands.registerCommand('double-vision.openHistoryEntry', async (id?: string) => {
+        const entry = id ? await history.get(id) : await pickHistoryEntry(history, 'Select a snapshot to open');
+        if (entry) {
+            await openHistoryEntry(history, entry);
+        }
+    });
+    
+    const pinHistoryEntryCommand = vscode.commands.registerCommand('double-vision.pinHistoryEntry', async (id?: string) => {
+        const entry = id ? await history.get(id) : await pickHistoryEntry(history, 'Select a snapshot to pin or unpin');
+        if (!entry) {
+            return;
+        }
+        
+        try {
+            await history.setPinned(entry.id, !entry.pinned);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to update history entry: ${error}`);
+        }
+    });
+    
+    const deleteHistoryEntryCommand = vscode.commands.registerCommand('double-vision.deleteHistoryEntry', async (id?: string) => {
+        const entry = id ? await history.get(id) : await pickHistoryEntry(history, 'Select a snapshot to delete');
+        if (!entry) {
+            return;
+        }
+        
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the snapshot of ${entry.deviceName} from ${entry.capturedAt.toLocaleString()}?` +
+            `${entry.pinned ? ' It is pinned.' : ''}`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+        
+        try {
+            await history.delete(entry.id);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete history entry: ${error}`);
+        }
+    });
+    
+    const fixDisplayIssueCommand = vscode.commands.registerCommand('double-vision.fixDisplayIssue', async (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+        try {
+            await issueDiagnostics.fix(uri, diagnostic);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to fix issue: ${error}`);
+        }
+    });
+    
+    const proposeFixCommand = vscode.commands.registerCommand('double-vision.proposeFix', async (id?: string) => {
+        let entry: HistoryEntry | undefined;
+        if (id) {
+            entry = await history.get(id);
+        } else {
+            const device = resolveDevice();
+            entry = device ? (await history.list({ deviceId: device.config.id, limit: 1 }))[0] : undefined;
+            if (device && !entry) {
+                vscode.window.showInformationMessage(`No analysis of ${device.config.name} to fix yet`);
+            }
+        }
+        if (!entry) {
+            return;
+        }
+        
+        try {
+            await fixWorkflow.fixEntry(entry);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to generate fix: ${error}`);
+        }
+    });
+    
+    const applyFixCommand = vscode.commands.registerCommand('double-vision.applyFix', async () => {
+        try {
+            await fixWorkflow.apply();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to apply fix: ${error}`);
+        }
+    });
+    
+    const discardFixCommand = vscode.commands.registerCommand('double-vision.discardFix', () => {
+        fixWorkflow.discard();
+    });
+    
+    const undoFixCommand = vscode.commands.registerCommand('double-vision.undoFix', async () => {
+        try {
+            await fixWorkflow.undo();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to undo fix: ${error}`);
+        }
+    });
+    
+    const verifyFixCommand = vscode.commands.registerCommand('double-vision.verifyFix', async () => {
+        try {
+            await fixWorkflow.verify();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Verification failed: ${error}`);
+        }
+    });
+    
+    const clearDiagnosticsCommand = vscode.commands.registerCommand('double-vision.clearDiagnostics', () => {
+        issueDiagnostics.clear();
+    });
+    
+    const setApiKeyCommand = vscode.commands.registerCommand('double-vision.setApiKey', async (providerId?: string) => {
+        const active = vscode.workspace.getConfiguration('doubleVision').get('ai.provider', 'github-copilot');
+        let provider = aiProvider.getProviders().find(candidate => candidate.id === providerId);
+        if (!provider) {
+            const items = await Promise.all(aiProvider.getProviders().map(async candidate => ({
+                label: candidate.displayName,
+                description: [
+                    candidate.id === active ? 'active' : undefined,
+                    candidate.requiresApiKey ? undefined : 'key optional',
+                    await credentials.getApiKey(candidate.id) ? 'key stored' : undefined
+                ].filter(Boolean).join(' · '),
+                provider: candidate
+            })));
+            provider = (await vscode.window.showQuickPick(items, { placeHolder: 'Provider to set the API key for' }))?.provider;
+        }
+        if (!provider) {
+            return;
+        }
+        
+        const apiKey = await vscode.window.showInputBox({
+            prompt: `API key for ${provider.displayName}; leave empty to remove the stored key`,
+            password: true,
+            ignoreFocusOut: true
+        });
+        if (apiKey === undefined) {
+            return;
+        }
+        
+        try {
+            await credentials.setApiKey(provider.id, apiKey.trim());
+            vscode.window.showInformationMessage(apiKey.trim()
+                ? `Stored the API key for ${provider.displayName}`
+                : `Removed the API key for ${provider.displayName}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to store API key: ${error}`);
+        }
+    });
+    
+    const showUsageCommand = vscode.commands.registerCommand('double-vision.showUsage', async () => {
+        const names = Object.fromEntries(aiProvider.getProviders().map(provider => [provider.id, provider.displayName]));
+        const doc = await vscode.workspace.openTextDocument({
+            content: formatUsageMarkdown(aiProvider.usage, names),
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc);
+    });
+    
+    // Pause every device at once when the budget runs out, rather than one
+    // notification per device as their next requests are refused
+    const budgetListener = aiProvider.usage.onDidExceedBudget(async status => {
+        const paused = registry.list().filter(device => device.monitoring.isActive());
+        paused.forEach(device => device.monitoring.stop());
+        const action = await vscode.window.showWarningMessage(
+            `AI budget for this ${status.period} used up (${formatBudget(status)}).` +
+            (paused.length > 0 ? ` Monitoring paused for ${paused.map(device => device.config.name).join(', ')}.` : ''),
+            'Show Usage',
+            'Open Settings'
+        );
+        if (action === 'Show Usage') {
+            await vscode.commands.executeCommand('double-vision.showUsage');
+        } else if (action === 'Open Settings') {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'doubleVision.budget');
+        }
+    });
+    
+    const selectPromptTemplateCommand = vscode.commands.registerCommand('double-vision.selectPromptTemplate', async () => {
+        const picked = await pickPromptTemplate(aiProvider.prompts);
+        if (!picked) {
+            return;
+        }
+        
+        try {
+            let template = picked.template;
+            if (picked.create) {
+                template = await createPromptTemplate(aiProvider.prompts, picked.kind);
+                if (!template) {
+                    return;
+                }
+            }
+            const target = vscode.workspace.workspaceFolders
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await vscode.workspace.getConfiguration('doubleVision').update(`prompts.${picked.kind}`, template?.name ?? '', target);
+            vscode.window.showInformationMessage(template
+                ? `Using the prompt template "${template.name}" for ${PROMPT_KIND_LABELS[picked.kind].toLowerCase()}`
+                : `Using the built-in prompt for ${PROMPT_KIND_LABELS[picked.kind].toLowerCase()}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to select prompt template: ${error}`);
+        }
+    });
+    
     const showSettingsCommand = vscode.commands.registerCommand('double-vision.showSettings', () => {
         vscode.commands.executeCommand('workbench.action.openSettings', 'doubleVision');
     });
     
     // Register all commands
     context.subscriptions.push(
+        registry,
+        history,
+        deviceTreeView,
+        statusBar,
+        fixWorkflow,
+        fixContentProvider,
+        issueDiagnostics,
+        codeActionProvider,
+        scenarioTests,
+        contextKeyListener,
         connectCameraCommand,
+        disconnectCameraCommand,
+        addDeviceCommand,
+        removeDeviceCommand,
+        selectDeviceCommand,
         startMonitoringCommand,
         stopMonitoringCommand,
         takeSnapshotCommand,
+        forceAnalyzeCommand,
+        saveBaselineCommand,
+        compareBaselineCommand,
+        calibrateDisplayCommand,
+        clearCalibrationCommand,
+        sendKeyCommand,
+        recordSessionCommand,
+        stopRecordingCommand,
+        replaySessionCommand,
+        { dispose: () => [...recordings.keys()].forEach(stopRecording) },
+        showHistoryCommand,
+        openHistoryEntryCommand,
+        pinHistoryEntryCommand,
+        deleteHistoryEntryCommand,
+        fixDisplayIssueCommand,
+        proposeFixCommand,
+        applyFixCommand,
+        discardFixCommand,
+        undoFixCommand,
+        verifyFixCommand,
+        clearDiagnosticsCommand,
+        setApiKeyCommand,
+        showUsageCommand,
+        budgetListener,
+        aiProvider.usage,
+        activeEditorListener,
+        selectPromptTemplateCommand,
         showSettingsCommand
     );
     
-    // Auto-connect if IP is configured
-    const configuredIP = vscode.workspace.getConfiguration('doubleVision').get('camera.ipAddress');
-    if (configuredIP && configuredIP !== '192.168.1.100') {
-        // Try to auto-connect in the background
-        cameraManager.connect(configuredIP as string).catch(() => {
-            // Silently fail on auto-connect
+    // Auto-connect devices whose address has been configured
+    for (const device of registry.list()) {
+        if (device.config.ipAddress && device.config.ipAddress !== '192.168.1.100') {
+            // Try to auto-connect in the background
+            registry.connect(device)
+                .catch(() => {
+                    // Silently fail on auto-connect
+                });
+        }
+    }
+
+    return {
+        registerAIProvider: (provider) => aiProvider.registerProvider(provider)
+    };
+}
+
+interface AddressPickItem extends vscode.QuickPickItem {
+    discovered?: DiscoveredDevice;
+    action?: 'manual' | 'scan';
+}
+
+/**
+ * Discovers cameras on the LAN and lets the user pick one, scan the subnet on demand,
+ * or fall back to typing an address.
+ */
+async function pickCameraAddress(device: Device): Promise<{ host: string; port: number } | undefined> {
+    const config = vscode.workspace.getConfiguration('doubleVision');
+    const options: DiscoveryOptions = {
+        ...DEFAULT_DISCOVERY_OPTIONS,
+        port: device.config.port,
+        timeoutMs: config.get('discovery.timeout', DEFAULT_DISCOVERY_OPTIONS.timeoutMs),
+        subnetScan: config.get('discovery.subnetScan', false),
+        maxHosts: config.get('discovery.maxHosts', DEFAULT_DISCOVERY_OPTIONS.maxHosts)
+    };
+    
+    let scanned = options.subnetScan;
+    let found = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Discovering Double Vision cameras...'
+    }, () => discoverDevices(options));
+    
+    for (;;) {
+        const items: AddressPickItem[] = found.map(discovered => ({
+            label: discovered.name || discovered.host,
+            description: `${discovered.host}:${discovered.port}`,
+            detail: `Reported IP ${discovered.reportedIp || 'unknown'} · camera ${discovered.cameraState || 'unknown'}` +
+                ` · found via ${discovered.source === 'mdns' ? 'mDNS' : 'subnet scan'}`,
+            discovered
+        }));
+        if (!scanned) {
+            items.push({ label: '$(search) Scan local subnet...', action: 'scan' });
+        }
+        items.push({ label: '$(edit) Enter IP address manually...', action: 'manual' });
+        
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: found.length > 0
+                ? `Select the camera for ${device.config.name}`
+                : 'No cameras found. Scan the subnet or enter an address.'
+        });
+        
+        if (!picked) {
+            return undefined;
+        }
+        if (picked.discovered) {
+            return { host: picked.discovered.host, port: picked.discovered.port };
+        }
+        if (picked.action === 'manual') {
+            const ipAddress = await vscode.window.showInputBox({
+                prompt: `Enter IP address for ${device.config.name}`,
+                value: device.config.ipAddress,
+                validateInput: validateIpAddress
+            });
+            return ipAddress ? { host: ipAddress, port: device.config.port } : undefined;
+        }
+        
+        const scanResults = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Scanning local subnet for cameras...'
+        }, () => scanSubnets(options));
+        const known = new Set(found.map(d => `${d.host}:${d.port}`));
+        found = [...found, ...scanResults.filter(d => !known.has(`${d.host}:${d.port}`))];
+        scanned = true;
+    }
+}
+
+function validateIpAddress(value: string): string | null {
+    const ipRegex = /^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/;
+    return ipRegex.test(value) ? null : 'Please enter a valid IP address';
+}
+
+function validatePort(value: string): string | null {
+    const port = Number(value);
+    return Number.isInteger(port) && port > 0 && port < 65536 ? null : 'Please enter a port between 1 and 65535';
+}
+
+function getBaselineStore(): BaselineStore | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showWarningMessage('Open a workspace folder to store screen baselines');
+        return undefined;
+    }
+    
+    const folder = vscode.workspace.getConfiguration('doubleVision').get('baseline.folder', '.double-vision/baselines');
+    return new BaselineStore(vscode.Uri.joinPath(workspaceFolder.uri, folder).fsPath);
+}
+
+function getPromptFolder(): string | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return undefined;
+    }
+    
+    const folder = vscode.workspace.getConfiguration('doubleVision').get('prompts.folder', DEFAULT_PROMPTS_FOLDER);
+    return vscode.Uri.joinPath(workspaceFolder.uri, folder).fsPath;
+}
+
+const PROMPT_KIND_LABELS: Record<PromptKind, string> = {
+    analysis: 'Display analysis',
+    codeGeneration: 'Code generation'
+};
+
+interface PromptTemplatePick extends vscode.QuickPickItem {
+    promptKind?: PromptKind;
+    template?: PromptTemplate;
+    create?: boolean;
+}
+
+/**
+ * Lists the built-in prompt and the workspace's templates of each kind, marking
+ * the active ones, with the option to start a new template.
+ */
+async function pickPromptTemplate(prompts: PromptTemplates): Promise<{ kind: PromptKind; template?: PromptTemplate; create?: boolean } | undefined> {
+    const templates = await prompts.list();
+    const config = vscode.workspace.getConfiguration('doubleVision');
+    const items: PromptTemplatePick[] = [];
+    for (const kind of PROMPT_KINDS) {
+        const active = config.get(`prompts.${kind}`, '');
+        items.push(
+            { label: PROMPT_KIND_LABELS[kind], kind: vscode.QuickPickItemKind.Separator },
+            { label: 'Built-in', description: active ? undefined : 'active', promptKind: kind },
+            ...templates.filter(template => template.kind === kind).map(template => ({
+                label: template.name,
+                description: [template.name === active ? 'active' : undefined, template.description].filter(Boolean).join(' · '),
+                promptKind: kind,
+                template
+            })),
+            { label: '$(add) New Template...', promptKind: kind, create: true }
+        );
+    }
+    
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Prompt template to use' });
+    return picked?.promptKind ? { kind: picked.promptKind, template: picked.template, create: picked.create } : undefined;
+}
+
+/**
+ * Writes a template starting from the built-in prompt and opens it for editing.
+ */
+async function createPromptTemplate(prompts: PromptTemplates, kind: PromptKind): Promise<PromptTemplate | undefined> {
+    const directory = prompts.directory;
+    if (!directory) {
+        vscode.window.showWarningMessage('Open a workspace folder to store prompt templates');
+        return undefined;
+    }
+    
+    const name = await vscode.window.showInputBox({
+        prompt: 'Template name, used as its file name',
+        placeHolder: 'brand-check',
+        validateInput: value => /^[\w.-]+$/.test(value) ? null : 'Use letters, digits, dots, dashes and underscores'
+    });
+    if (!name) {
+        return undefined;
+    }
+    
+    const filePath = path.join(directory, `${name}.md`);
+    if (fs.existsSync(filePath)) {
+        vscode.window.showWarningMessage(`A prompt template named "${name}" already exists`);
+        return undefined;
+    }
+    const content = newTemplateContent(kind, name);
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+    await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+    return parsePromptTemplate(filePath, content);
+}
+
+function getRecordingFolder(): string | undefined {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showWarningMessage('Open a workspace folder to store session recordings');
+        return undefined;
+    }
+    
+    const folder = vscode.workspace.getConfiguration('doubleVision').get('recording.folder', '.double-vision/recordings');
+    return vscode.Uri.joinPath(workspaceFolder.uri, folder).fsPath;
+}
+
+/**
+ * Lists the recordings in the workspace, newest first, with the option to browse for one elsewhere.
+ */
+async function pickRecording(): Promise<string | undefined> {
+    const folder = vscode.workspace.workspaceFolders ? getRecordingFolder() : undefined;
+    let files: string[] = [];
+    if (folder) {
+        try {
+            files = (await fs.promises.readdir(folder)).filter(file => file.endsWith(RECORDING_EXTENSION)).sort().reverse();
+        } catch {
+            // No recordings yet
+        }
+    }
+    
+    const browse = '$(folder-opened) Browse...';
+    const picked = await vscode.window.showQuickPick([...files, browse], {
+        placeHolder: 'Select a session recording to replay'
+    });
+    if (picked === browse) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Double Vision recordings': [RECORDING_EXTENSION.slice(1)] }
         });
+        return uris?.[0]?.fsPath;
     }
+    return picked && folder ? path.join(folder, picked) : undefined;
+}
+
+/**
+ * Feeds a recording through a dedicated MonitoringService, as if it came from the
+ * live camera, and opens a summary of the resulting analyses.
+ */
+async function replayRecording(filePath: string, aiProvider: AIProvider, history: HistoryStore): Promise<void> {
+    const reader = await RecordingReader.open(filePath);
+    if (reader.frameCount === 0) {
+        await reader.close();
+        vscode.window.showWarningMessage('The recording contains no frames');
+        return;
+    }
+    
+    const speed = vscode.workspace.getConfiguration('doubleVision').get('recording.replaySpeed', 1);
+    const source = new ReplaySource(reader, { speed });
+    const name = `Replay of ${reader.metadata.deviceName}`;
+    const replayId = `replay-${reader.metadata.deviceId}`;
+    // Results go to the summary rather than a notification per frame
+    const reporter = new CollectingReporter();
+    const monitoring = new MonitoringService(source, aiProvider, history, replayId, name, reporter);
+    const startTime = new Date();
+    
+    try {
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: name,
+            cancellable: true
+        }, async (progress, token) => {
+            await monitoring.start();
+            const subscription = source.onFrame(() => {
+                const { played, total } = source.getProgress();
+                progress.report({ message: `frame ${played + 1} of ${total}`, increment: 100 / total });
+            });
+            
+            const ended = await new Promise<boolean>(resolve => {
+                source.onDidEnd(() => resolve(true));
+                token.onCancellationRequested(() => resolve(false));
+                source.play();
+            });
+            subscription.dispose();
+            
+            // The summary reads the history, so the analysis of the last frames has to be saved first
+            if (ended) {
+                progress.report({ message: 'finishing analysis' });
+                await monitoring.finish();
+            }
+        });
+    } finally {
+        monitoring.stop();
+        source.dispose();
+    }
+    
+    // Oldest first, in playback order
+    const entries = (await history.list({ deviceId: replayId, from: startTime })).reverse();
+    const body = entries.length > 0
+        ? entries.map(entry => formatAnalysisMarkdown(entry.analysis)).join('\n\n---\n\n')
+        : 'No frames were analyzed.';
+    const doc = await vscode.workspace.openTextDocument({
+        content: `# ${name}\n\n` +
+            `Recording: ${path.basename(filePath)} (started ${reader.metadata.startedAt})\n\n` +
+            `Frames: ${reader.frameCount}, skipped as unchanged: ${monitoring.getSkippedFrameCount()}, ` +
+            `dropped while analysis was busy: ${monitoring.getDroppedFrameCount()}, with issues: ${reporter.issueReports.length}\n\n` +
+            (reporter.messages.length > 0 ? `## Messages\n\n${reporter.messages.map(message => `- ${message}`).join('\n')}\n\n` : '') +
+            `## Analyses\n\n${body}`,
+        language: 'markdown'
+    });
+    await vscode.window.showTextDocument(doc);
+}
+
+/**
+ * Offers the most recent history entries, newest first.
+ */
+async function pickHistoryEntry(history: HistoryStore, placeHolder: string): Promise<HistoryEntry | undefined> {
+    const entries = await history.list({ limit: 100 });
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('The snapshot history is empty');
+        return undefined;
+    }
+    
+    const picked = await vscode.window.showQuickPick(entries.map(entry => ({
+        label: `${entry.pinned ? '$(pinned) ' : ''}${entry.deviceName}`,
+        description: entry.capturedAt.toLocaleString(),
+        detail: entry.analysis.description,
+        entry
+    })), { placeHolder, matchOnDetail: true });
+    return picked?.entry;
+}
+
+/**
+ * History is kept in the workspace next to baselines and recordings; without a
+ * workspace it goes to the extension's global storage.
+ */
+function getHistoryDirectory(context: vscode.ExtensionContext): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        return vscode.Uri.joinPath(context.globalStorageUri, 'history').fsPath;
+    }
+    const folder = vscode.workspace.getConfiguration('doubleVision').get('history.folder', '.double-vision/history');
+    return vscode.Uri.joinPath(workspaceFolder.uri, folder).fsPath;
+}
+
+/**
+ * Calibrations live in the workspace so they can be committed; without a workspace
+ * they are kept in the extension's global storage.
+ */
+function getCalibrationPath(context: vscode.ExtensionContext): string {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const base = workspaceFolder
+        ? vscode.Uri.joinPath(workspaceFolder.uri, '.double-vision')
+        : context.globalStorageUri;
+    return vscode.Uri.joinPath(base, 'calibration.json').fsPath;
+}
+
+function getDiffOptions(): ImageDiffOptions {
+    const config = vscode.workspace.getConfiguration('doubleVision');
+    return {
+        pixelThreshold: config.get('baseline.pixelThreshold', 0.1),
+        maxChangedPercent: config.get('baseline.maxChangedPercent', 1),
+        minSimilarity: config.get('baseline.minSimilarity', 0.9)
+    };
 }
 
 export function deactivate() {
@@ -0,0 +1,420 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AIAnalysisResult, AIIssue, formatAnalysisMarkdown } from './analysisResult';
+import { AIProvider } from './aiProvider';
+import { CameraSnapshot } from './cameraManager';
+import { LVGLCodeResult } from './codeGeneration';
+import { DeviceRegistry } from './deviceRegistry';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { readSources } from './issueDiagnostics';
+import { locateIssue } from './issueLocator';
+
+export const FIX_SCHEME = 'double-vision-fix';
+
+// Whole files are sent to the AI and returned in full, which is only practical for sketch-sized files
+const MAX_EDIT_FILE_SIZE = 24 * 1024;
+// Word overlap above which two issue descriptions are taken to be the same issue
+const SAME_ISSUE_SIMILARITY = 0.5;
+
+export interface FixProposalOptions {
+    uri: vscode.Uri;
+    /** File content the proposal was made against */
+    original: string;
+    proposed: string;
+    rationale: string;
+    /** Device to re-capture when verifying the fix */
+    deviceId?: string;
+    /** Issues the fix is meant to resolve */
+    issues?: AIIssue[];
+}
+
+interface FixProposal extends FixProposalOptions {
+    id: number;
+    issues: AIIssue[];
+}
+
+type ImageInput = Pick<CameraSnapshot, 'imageData' | 'mimeType'>;
+
+/**
+ * AI edits to workspace files go through review: the proposal is shown in the
+ * diff editor and only applied, as a WorkspaceEdit, once approved. The last
+ * applied fix can be undone, or verified by re-capturing the display after the
+ * firmware has been flashed.
+ */
+export class FixWorkflow implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private pending?: FixProposal;
+    private applied?: FixProposal;
+    private nextId = 1;
+
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    constructor(
+        private readonly aiProvider: AIProvider,
+        private readonly registry: DeviceRegistry,
+        private readonly history: HistoryStore
+    ) {}
+
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.pending && uri.query === String(this.pending.id) ? this.pending.proposed : '';
+    }
+
+    /**
+     * Asks the AI to fix the issues of a history entry in the source file that
+     * most likely produces them, and opens the result for review.
+     */
+    public async fixEntry(entry: HistoryEntry): Promise<void> {
+        if (entry.analysis.issues.length === 0) {
+            vscode.window.showInformationMessage('This analysis reported no issues to fix');
+            return;
+        }
+
+        const uri = await this.pickTargetFile(entry.analysis.issues);
+        if (!uri) {
+            return;
+        }
+
+        const issues = entry.analysis.issues
+            .map(issue => `- [${issue.severity}] ${issue.element ? issue.element + ': ' : ''}${issue.description}`)
+            .join('\n');
+        await this.editFile(
+            uri,
+            `Fix these issues seen on the display:\n${issues}\n\nThe display was described as: ${entry.analysis.description}`,
+            await this.readEntryImage(entry),
+            { deviceId: entry.deviceId, issues: entry.analysis.issues }
+        );
+    }
+
+    /**
+     * Asks the AI to change a file as instructed and opens the result for review.
+     */
+    public async editFile(
+        uri: vscode.Uri,
+        instruction: string,
+        image?: ImageInput,
+        context: { deviceId?: string; issues?: AIIssue[] } = {}
+    ): Promise<void> {
+        const document = await vscode.workspace.openTextDocument(uri);
+        const original = document.getText();
+        if (Buffer.byteLength(original) > MAX_EDIT_FILE_SIZE) {
+            throw new Error(`${path.basename(uri.fsPath)} is too large to edit as a whole; ` +
+                'use the quick fix on a display issue diagnostic instead');
+        }
+
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Asking AI to edit ${path.basename(uri.fsPath)}...`
+        }, () => this.aiProvider.generateFileEdit({
+            instruction,
+            fileName: path.basename(uri.fsPath),
+            content: original
+        }, image));
+
+        await this.review({
+            uri,
+            original,
+            proposed: checkedCode(result, original),
+            rationale: result.rationale,
+            ...context
+        });
+    }
+
+    /**
+     * Shows a proposed edit in the diff editor and waits for it to be applied or
+     * discarded. A new proposal replaces one still under review.
+     */
+    public async review(options: FixProposalOptions): Promise<void> {
+        if (options.proposed === options.original) {
+            vscode.window.showInformationMessage('The AI proposed no changes');
+            return;
+        }
+
+        const proposal: FixProposal = { ...options, issues: options.issues ?? [], id: this.nextId++ };
+        this.pending = proposal;
+        this.updateContext();
+
+        const proposedUri = vscode.Uri.from({ scheme: FIX_SCHEME, path: options.uri.path, query: String(proposal.id) });
+        this._onDidChange.fire(proposedUri);
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            options.uri,
+            proposedUri,
+            `${path.basename(options.uri.fsPath)} ↔ AI Fix`
+        );
+
+        const action = await vscode.window.showInformationMessage(
+            `Review the AI fix for ${path.basename(options.uri.fsPath)}${options.rationale ? `: ${options.rationale}` : ''}`,
+            'Apply',
+            'Discard'
+        );
+        // Ignore the answer if the proposal was already handled from the editor title
+        if (this.pending !== proposal) {
+            return;
+        }
+        if (action === 'Apply') {
+            await this.apply();
+        } else if (action === 'Discard') {
+            this.discard();
+        }
+    }
+
+    public async apply(): Promise<void> {
+        const proposal = this.pending;
+        if (!proposal) {
+            vscode.window.showWarningMessage('No AI fix is waiting for review');
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(proposal.uri);
+        if (document.getText() !== proposal.original) {
+            throw new Error(`${path.basename(proposal.uri.fsPath)} changed after the fix was proposed; request a new fix`);
+        }
+
+        await replaceText(document, proposal.original, proposal.proposed);
+        this.pending = undefined;
+        this.applied = proposal;
+        this.updateContext();
+        await closeDiffEditors(proposal.id);
+        await vscode.window.showTextDocument(document);
+
+        const action = await vscode.window.showInformationMessage(
+            `Applied the AI fix to ${path.basename(proposal.uri.fsPath)}. Flash the firmware, then re-capture to verify it.`,
+            'Re-capture and Verify',
+            'Undo'
+        );
+        if (action === 'Re-capture and Verify') {
+            await vscode.commands.executeCommand('double-vision.verifyFix');
+        } else if (action === 'Undo') {
+            await vscode.commands.executeCommand('double-vision.undoFix');
+        }
+    }
+
+    public discard(): void {
+        if (!this.pending) {
+            return;
+        }
+        const id = this.pending.id;
+        this.pending = undefined;
+        this.updateContext();
+        closeDiffEditors(id).catch(error => console.error('Failed to close the fix preview:', error));
+    }
+
+    /**
+     * Reverts the last applied fix, provided the file has not been edited since.
+     */
+    public async undo(): Promise<void> {
+        const fix = this.applied;
+        if (!fix) {
+            vscode.window.showWarningMessage('No applied AI fix to undo');
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(fix.uri);
+        if (document.getText() !== fix.proposed) {
+            throw new Error(`${path.basename(fix.uri.fsPath)} was edited after the fix was applied; use Undo in the editor instead`);
+        }
+
+        await replaceText(document, fix.proposed, fix.original);
+        this.applied = undefined;
+        this.updateContext();
+        vscode.window.showInformationMessage(`Reverted the AI fix to ${path.basename(fix.uri.fsPath)}`);
+    }
+
+    /**
+     * Re-captures the display of the device the last fix was made for and
+     * reports which of its issues are gone, which remain and which are new.
+     */
+    public async verify(): Promise<void> {
+        const fix = this.applied;
+        const device = (fix?.deviceId ? this.registry.get(fix.deviceId) : undefined) ?? this.registry.getSelected();
+        if (!device || !device.camera.isConnected()) {
+            vscode.window.showWarningMessage(`Connect to ${device?.config.name ?? 'a device'} to verify the fix`);
+            return;
+        }
+
+        const { snapshot, analysis } = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Re-capturing ${device.config.name}...`
+        }, async () => {
+            const snapshot = await device.camera.takeSnapshot();
+            const analysis = await device.monitoring.enqueue(async () =>
+                this.aiProvider.analyzeImage(snapshot, await device.monitoring.getWidgetTree()));
+            return { snapshot, analysis };
+        });
+
+        try {
+            await this.history.add(snapshot, analysis, { id: device.config.id, name: device.config.name });
+        } catch (error) {
+            console.error('Failed to save verification to history:', error);
+        }
+
+        const expected = fix?.issues ?? [];
+        const comparison = compareIssues(expected, analysis.issues);
+        const summary = expected.length > 0
+            ? `${comparison.resolved.length} of ${expected.length} issue${expected.length === 1 ? '' : 's'} resolved, ` +
+              `${comparison.introduced.length} new`
+            : `${analysis.issues.length} issue${analysis.issues.length === 1 ? '' : 's'} on the display`;
+        const show = comparison.remaining.length > 0 || comparison.introduced.length > 0
+            ? vscode.window.showWarningMessage
+            : vscode.window.showInformationMessage;
+
+        const action = await show(`Fix verification on ${device.config.name}: ${summary}`, 'Show Report');
+        if (action === 'Show Report') {
+            const doc = await vscode.workspace.openTextDocument({
+                content: formatVerificationReport(fix, comparison, analysis),
+                language: 'markdown'
+            });
+            await vscode.window.showTextDocument(doc);
+        }
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+    }
+
+    private async pickTargetFile(issues: AIIssue[]): Promise<vscode.Uri | undefined> {
+        const include = vscode.workspace.getConfiguration('doubleVision').get('diagnostics.include', '**/*.{ino,c,cpp,h}');
+        const files = await readSources(include);
+
+        // The file most of the issues point at
+        const votes = new Map<string, number>();
+        for (const issue of issues) {
+            const location = locateIssue(issue, files);
+            if (location) {
+                votes.set(location.path, (votes.get(location.path) ?? 0) + 1);
+            }
+        }
+        const best = [...votes].sort((a, b) => b[1] - a[1])[0];
+        if (best) {
+            return vscode.Uri.file(best[0]);
+        }
+
+        if (files.length === 0) {
+            vscode.window.showWarningMessage('No UI source files found in the workspace');
+            return undefined;
+        }
+        const picked = await vscode.window.showQuickPick(
+            files.map(file => ({ label: vscode.workspace.asRelativePath(file.path), path: file.path })),
+            { placeHolder: 'The issues could not be located; select the file to fix' }
+        );
+        return picked ? vscode.Uri.file(picked.path) : undefined;
+    }
+
+    private async readEntryImage(entry: HistoryEntry): Promise<ImageInput | undefined> {
+        try {
+            return await this.history.readImage(entry);
+        } catch {
+            // The snapshot was pruned; the issue text alone still makes a usable request
+            return undefined;
+        }
+    }
+
+    private updateContext(): void {
+        vscode.commands.executeCommand('setContext', 'double-vision.fixPending', this.pending !== undefined);
+        vscode.commands.executeCommand('setContext', 'double-vision.fixApplied', this.applied !== undefined);
+    }
+}
+
+/**
+ * Rejects replies that were cut off or are obviously not the whole file.
+ */
+function checkedCode(result: LVGLCodeResult, original: string): string {
+    if (result.code.startsWith('```')) {
+        throw new Error('The AI reply was cut off before the end of the file');
+    }
+    if (!result.code.trim()) {
+        throw new Error('The AI provider returned no code');
+    }
+    // Keep the file's trailing newline convention
+    return original.endsWith('\n') && !result.code.endsWith('\n') ? `${result.code}\n` : result.code;
+}
+
+/**
+ * Replaces only the span that differs, so the edit keeps the cursor and
+ * markers elsewhere in the file and undoes as one step.
+ */
+async function replaceText(document: vscode.TextDocument, from: string, to: string): Promise<void> {
+    let prefix = 0;
+    while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < from.length - prefix && suffix < to.length - prefix &&
+        from[from.length - 1 - suffix] === to[to.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+        document.uri,
+        new vscode.Range(document.positionAt(prefix), document.positionAt(from.length - suffix)),
+        to.slice(prefix, to.length - suffix)
+    );
+    if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error('The edit could not be applied');
+    }
+}
+
+async function closeDiffEditors(proposalId: number): Promise<void> {
+    const tabs = vscode.window.tabGroups.all
+        .flatMap(group => group.tabs)
+        .filter(tab => tab.input instanceof vscode.TabInputTextDiff &&
+            tab.input.modified.scheme === FIX_SCHEME &&
+            tab.input.modified.query === String(proposalId));
+    if (tabs.length > 0) {
+        await vscode.window.tabGroups.close(tabs);
+    }
+}
+
+interface IssueComparison {
+    resolved: AIIssue[];
+    remaining: AIIssue[];
+    introduced: AIIssue[];
+}
+
+function compareIssues(before: AIIssue[], after: AIIssue[]): IssueComparison {
+    const unmatched = [...after];
+    const resolved: AIIssue[] = [];
+    const remaining: AIIssue[] = [];
+
+    for (const issue of before) {
+        const index = unmatched.findIndex(candidate => similarity(issue, candidate) >= SAME_ISSUE_SIMILARITY);
+        if (index >= 0) {
+            remaining.push(unmatched[index]);
+            unmatched.splice(index, 1);
+        } else {
+            resolved.push(issue);
+        }
+    }
+    return { resolved, remaining, introduced: unmatched };
+}
+
+/**
+ * Word overlap (Jaccard index) of two issues' element and description. Analyses
+ * word the same issue differently each time, so exact matching would not work.
+ */
+function similarity(a: AIIssue, b: AIIssue): number {
+    const words = (issue: AIIssue) => new Set(
+        `${issue.element ?? ''} ${issue.description}`.toLowerCase().match(/[a-z0-9]{3,}/g) ?? []
+    );
+    const wordsA = words(a);
+    const wordsB = words(b);
+    const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+    const total = new Set([...wordsA, ...wordsB]).size;
+    return total > 0 ? shared / total : 0;
+}
+
+function formatVerificationReport(fix: FixProposal | undefined, comparison: IssueComparison, analysis: AIAnalysisResult): string {
+    const list = (issues: AIIssue[]) => issues.length > 0
+        ? issues.map(issue => `- **${issue.severity.toUpperCase()}**${issue.element ? ` (${issue.element})` : ''}: ${issue.description}`).join('\n')
+        : 'None.';
+
+    const lines = [`# Fix Verification${fix ? ` - ${path.basename(fix.uri.fsPath)}` : ''}`, ''];
+    if (fix && fix.issues.length > 0) {
+        lines.push('## Resolved', '', list(comparison.resolved), '');
+        lines.push('## Still Present', '', list(comparison.remaining), '');
+        lines.push('## New', '', list(comparison.introduced), '');
+    }
+    lines.push('## Analysis After the Fix', '', formatAnalysisMarkdown(analysis));
+    return lines.join('\n');
+}
@@ -0,0 +1,133 @@
+import { CameraSnapshot } from './cameraManager';
+import { Disposable } from './events';
+import { logger } from './logger';
+
+/**
+ * What happens to frames that arrive while a subscriber is still busy with an earlier one:
+ * - `latest`: keep only the newest frame and deliver it once the subscriber is free
+ * - `drop`: discard them
+ * - `queue`: buffer them in order, discarding the oldest beyond `maxQueue`
+ */
+export type FramePolicy = 'latest' | 'drop' | 'queue';
+
+export interface FrameSubscriptionOptions {
+    policy?: FramePolicy;
+    /** Buffer size for the `queue` policy */
+    maxQueue?: number;
+}
+
+/**
+ * A listener is busy until the promise it returns settles; synchronous listeners
+ * are never busy.
+ */
+export type FrameListener = (snapshot: CameraSnapshot) => void | Promise<void>;
+
+export interface FrameSubscription extends Disposable {
+    /** Frames this subscriber did not receive because of its policy */
+    readonly droppedFrames: number;
+}
+
+const DEFAULT_MAX_QUEUE = 8;
+
+class Subscriber implements FrameSubscription {
+    public droppedFrames = 0;
+    private pending: CameraSnapshot[] = [];
+    private busy = false;
+    private disposed = false;
+
+    constructor(
+        private readonly listener: FrameListener,
+        private readonly policy: FramePolicy,
+        private readonly maxQueue: number,
+        private readonly onDispose: (subscriber: Subscriber) => void
+    ) {}
+
+    public push(snapshot: CameraSnapshot): void {
+        if (!this.busy) {
+            this.deliver(snapshot);
+            return;
+        }
+
+        switch (this.policy) {
+            case 'drop':
+                this.droppedFrames++;
+                break;
+            case 'latest':
+                this.droppedFrames += this.pending.length;
+                this.pending = [snapshot];
+                break;
+            case 'queue':
+                this.pending.push(snapshot);
+                if (this.pending.length > this.maxQueue) {
+                    this.pending.shift();
+                    this.droppedFrames++;
+                }
+                break;
+        }
+    }
+
+    public dispose(): void {
+        this.disposed = true;
+        this.pending = [];
+        this.onDispose(this);
+    }
+
+    private deliver(snapshot: CameraSnapshot): void {
+        let result: void | Promise<void>;
+        try {
+            result = this.listener(snapshot);
+        } catch (error) {
+            logger.error('Frame listener failed:', error);
+            return;
+        }
+
+        if (result instanceof Promise) {
+            this.busy = true;
+            result
+                .catch(error => logger.error('Frame listener failed:', error))
+                .finally(() => {
+                    this.busy = false;
+                    const next = this.pending.shift();
+                    if (next && !this.disposed) {
+                        this.deliver(next);
+                    }
+                });
+        }
+    }
+}
+
+/**
+ * Fans camera frames out to any number of subscribers. Each subscriber is paced
+ * independently, so a slow consumer such as AI analysis never holds back a fast
+ * one such as the live preview.
+ */
+export class FrameBus implements Disposable {
+    private subscribers = new Set<Subscriber>();
+
+    public subscribe(listener: FrameListener, options: FrameSubscriptionOptions = {}): FrameSubscription {
+        const subscriber = new Subscriber(
+            listener,
+            options.policy ?? 'latest',
+            Math.max(1, options.maxQueue ?? DEFAULT_MAX_QUEUE),
+            s => this.subscribers.delete(s)
+        );
+        this.subscribers.add(subscriber);
+        return subscriber;
+    }
+
+    public publish(snapshot: CameraSnapshot): void {
+        for (const subscriber of [...this.subscribers]) {
+            subscriber.push(snapshot);
+        }
+    }
+
+    public get subscriberCount(): number {
+        return this.subscribers.size;
+    }
+
+    public dispose(): void {
+        for (const subscriber of [...this.subscribers]) {
+            subscriber.dispose();
+        }
+    }
+}
@@ -0,0 +1,11 @@
+import { CameraSnapshot } from './cameraManager';
+import { FrameListener, FrameSubscription, FrameSubscriptionOptions } from './frameBus';
+
+/**
+ * Anything that produces camera frames: a live camera or a recorded session.
+ */
+export interface FrameSource {
+    isConnected(): boolean;
+    takeSnapshot(options?: { raw?: boolean }): Promise<CameraSnapshot>;
+    onFrame(listener: FrameListener, options?: FrameSubscriptionOptions): FrameSubscription;
+}
@@ -0,0 +1,276 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIAnalysisResult, getHighestSeverity, IssueSeverity, normalizeAnalysisResult, SEVERITIES } from './analysisResult';
+import { CameraSnapshot } from './cameraManager';
+import { Disposable, EventEmitter } from './events';
+import { logger } from './logger';
+
+export interface HistoryEntry {
+    id: string;
+    deviceId: string;
+    deviceName: string;
+    capturedAt: Date;
+    /** Image file name inside the store's images folder */
+    imageFile: string;
+    width: number;
+    height: number;
+    pinned: boolean;
+    analysis: AIAnalysisResult;
+}
+
+export interface HistoryFilter {
+    deviceId?: string;
+    from?: Date;
+    to?: Date;
+    /** Only entries with an issue of at least this severity */
+    minSeverity?: IssueSeverity;
+    /** Case-insensitive search over the analysis text and device name */
+    text?: string;
+    pinnedOnly?: boolean;
+    limit?: number;
+}
+
+const INDEX_FILE = 'index.json';
+const IMAGES_FOLDER = 'images';
+const INDEX_VERSION = 1;
+// Ids are generated by add(); an index from elsewhere is checked against this before
+// its file names are used, since the index lives in the workspace and may be committed
+const ENTRY_ID_PATTERN = /^[a-z0-9]+-[0-9a-f]+$/;
+
+/**
+ * Snapshots and their analyses, persisted under a workspace folder as
+ * `index.json` plus one image per entry in `images/`. When the store grows past
+ * `maxEntries`, the oldest unpinned entries are removed.
+ */
+export class HistoryStore implements Disposable {
+    // Shared by every caller, so concurrent first reads cannot each load their own copy
+    private loading?: Promise<HistoryEntry[]>;
+    // Serializes index updates so concurrent analyses cannot overwrite each other
+    private queue: Promise<unknown> = Promise.resolve();
+
+    private readonly _onDidChange = new EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private readonly _onDidAdd = new EventEmitter<HistoryEntry>();
+    /** Fires for each new analysis once it is saved */
+    public readonly onDidAdd = this._onDidAdd.event;
+
+    constructor(public readonly directory: string, private readonly maxEntries: number) {}
+
+    public async add(
+        snapshot: CameraSnapshot,
+        analysis: AIAnalysisResult,
+        device: { id: string; name: string }
+    ): Promise<HistoryEntry> {
+        const id = `${snapshot.timestamp.getTime().toString(36)}-${crypto.randomBytes(3).toString('hex')}`;
+        const entry: HistoryEntry = {
+            id,
+            deviceId: device.id,
+            deviceName: device.name,
+            capturedAt: snapshot.timestamp,
+            imageFile: `${id}.${snapshot.format === 'png' ? 'png' : 'jpg'}`,
+            width: snapshot.width,
+            height: snapshot.height,
+            pinned: false,
+            analysis
+        };
+
+        await this.update(async entries => {
+            await fs.promises.mkdir(path.join(this.directory, IMAGES_FOLDER), { recursive: true });
+            await fs.promises.writeFile(this.imagePath(entry), snapshot.imageData);
+            entries.push(entry);
+            await this.prune(entries);
+        });
+        this._onDidAdd.fire(entry);
+        return entry;
+    }
+
+    /**
+     * Returns matching entries, newest first.
+     */
+    public async list(filter: HistoryFilter = {}): Promise<HistoryEntry[]> {
+        const text = filter.text?.trim().toLowerCase();
+        const minRank = filter.minSeverity ? SEVERITIES.indexOf(filter.minSeverity) : -1;
+
+        const matches = (await this.load()).filter(entry => {
+            if (filter.deviceId && entry.deviceId !== filter.deviceId) {
+                return false;
+            }
+            if (filter.pinnedOnly && !entry.pinned) {
+                return false;
+            }
+            if (filter.from && entry.capturedAt < filter.from) {
+                return false;
+            }
+            if (filter.to && entry.capturedAt > filter.to) {
+                return false;
+            }
+            if (minRank >= 0) {
+                const highest = getHighestSeverity(entry.analysis);
+                if (!highest || SEVERITIES.indexOf(highest) < minRank) {
+                    return false;
+                }
+            }
+            return !text || searchableText(entry).includes(text);
+        });
+
+        matches.sort((a, b) => b.capturedAt.getTime() - a.capturedAt.getTime());
+        return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+    }
+
+    public async get(id: string): Promise<HistoryEntry | undefined> {
+        return (await this.load()).find(entry => entry.id === id);
+    }
+
+    public async setPinned(id: string, pinned: boolean): Promise<void> {
+        await this.update(async entries => {
+            const entry = entries.find(e => e.id === id);
+            if (!entry) {
+                throw new Error(`History entry ${id} not found`);
+            }
+            entry.pinned = pinned;
+        });
+    }
+
+    public async delete(id: string): Promise<void> {
+        await this.update(async entries => {
+            const index = entries.findIndex(e => e.id === id);
+            if (index >= 0) {
+                await this.removeImage(entries[index]);
+                entries.splice(index, 1);
+            }
+        });
+    }
+
+    /**
+     * Deletes the unpinned entries matching the filter and returns how many were removed.
+     */
+    public async deleteUnpinned(filter: HistoryFilter = {}): Promise<number> {
+        const ids = new Set((await this.list(filter)).filter(entry => !entry.pinned).map(entry => entry.id));
+        await this.update(async entries => {
+            for (let i = entries.length - 1; i >= 0; i--) {
+                if (ids.has(entries[i].id)) {
+                    await this.removeImage(entries[i]);
+                    entries.splice(i, 1);
+                }
+            }
+        });
+        return ids.size;
+    }
+
+    public imagePath(entry: HistoryEntry): string {
+        const images = path.resolve(this.directory, IMAGES_FOLDER);
+        const file = path.resolve(images, entry.imageFile);
+        if (path.dirname(file) !== images) {
+            throw new Error(`History entry ${entry.id} has an invalid image file name`);
+        }
+        return file;
+    }
+
+    public async readImage(entry: HistoryEntry): Promise<Pick<CameraSnapshot, 'imageData' | 'mimeType'>> {
+        return {
+            imageData: await fs.promises.readFile(this.imagePath(entry)),
+            mimeType: entry.imageFile.endsWith('.png') ? 'image/png' : 'image/jpeg'
+        };
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+        this._onDidAdd.dispose();
+    }
+
+    private load(): Promise<HistoryEntry[]> {
+        return this.loading ??= this.readIndex();
+    }
+
+    private async readIndex(): Promise<HistoryEntry[]> {
+        let entries: HistoryEntry[] = [];
+        try {
+            const index = JSON.parse(await fs.promises.readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+            entries = Array.isArray(index.entries) ? index.entries.flatMap(deserializeEntry) : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                logger.error('Ignoring unreadable history index:', error);
+            }
+        }
+        return entries;
+    }
+
+    private update(change: (entries: HistoryEntry[]) => Promise<void>): Promise<void> {
+        const run = this.queue.then(async () => {
+            const entries = await this.load();
+            await change(entries);
+            await this.writeIndex(entries);
+            this._onDidChange.fire();
+        });
+        // Keep the queue going after a failed update; the caller still sees the error
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async writeIndex(entries: HistoryEntry[]): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        const file = path.join(this.directory, INDEX_FILE);
+        // Write then rename so a crash never leaves a half-written index
+        await fs.promises.writeFile(`${file}.tmp`, JSON.stringify({ version: INDEX_VERSION, entries }, null, 2));
+        await fs.promises.rename(`${file}.tmp`, file);
+    }
+
+    private async prune(entries: HistoryEntry[]): Promise<void> {
+        const excess = entries.length - this.maxEntries;
+        if (excess <= 0) {
+            return;
+        }
+
+        const oldest = entries
+            .filter(entry => !entry.pinned)
+            .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime())
+            .slice(0, excess);
+        for (const entry of oldest) {
+            await this.removeImage(entry);
+            entries.splice(entries.indexOf(entry), 1);
+        }
+    }
+
+    private async removeImage(entry: HistoryEntry): Promise<void> {
+        await fs.promises.rm(this.imagePath(entry), { force: true });
+    }
+}
+
+/**
+ * An index entry, or none when its id or image file name is not one add() would
+ * have written: the file name is used to read and delete files.
+ */
+function deserializeEntry(raw: any): HistoryEntry[] {
+    const id = String(raw?.id);
+    const imageFile = String(raw?.imageFile);
+    if (!ENTRY_ID_PATTERN.test(id) || (imageFile !== `${id}.jpg` && imageFile !== `${id}.png`)) {
+        logger.warn(`Ignoring history entry with an invalid id or image file: ${id}, ${imageFile}`);
+        return [];
+    }
+    return [{
+        id,
+        deviceId: String(raw.deviceId),
+        deviceName: String(raw.deviceName),
+        capturedAt: new Date(raw.capturedAt),
+        imageFile,
+        width: Number(raw.width),
+        height: Number(raw.height),
+        pinned: raw.pinned === true,
+        analysis: {
+            ...normalizeAnalysisResult(raw.analysis),
+            timestamp: new Date(raw.analysis?.timestamp ?? raw.capturedAt)
+        }
+    }];
+}
+
+function searchableText(entry: HistoryEntry): string {
+    const { analysis } = entry;
+    return [
+        entry.deviceName,
+        analysis.description,
+        ...analysis.issues.map(issue => `${issue.element ?? ''} ${issue.description}`),
+        ...analysis.suggestions
+    ].join('\n').toLowerCase();
+}
@@ -0,0 +1,198 @@
+import sharp from 'sharp';
+
+export interface ImageDiffOptions {
+    /** Per-pixel colour distance (0-1) below which a pixel counts as unchanged */
+    pixelThreshold: number;
+    /** Largest share of changed pixels, in percent, that still passes */
+    maxChangedPercent: number;
+    /** Lowest structural similarity (SSIM, 0-1) that still passes */
+    minSimilarity: number;
+}
+
+export interface ImageDiffResult {
+    passed: boolean;
+    changedPercent: number;
+    changedPixels: number;
+    similarity: number;
+    width: number;
+    height: number;
+    /** PNG heatmap of the changed pixels drawn over a faded copy of the baseline */
+    heatmap: Buffer;
+}
+
+export const DEFAULT_DIFF_OPTIONS: ImageDiffOptions = {
+    pixelThreshold: 0.1,
+    maxChangedPercent: 1,
+    minSimilarity: 0.9
+};
+
+// Largest possible YIQ delta between two RGB colours
+const MAX_YIQ_DELTA = 35215;
+// Light blur applied to both images so sensor noise and JPEG artefacts are not reported as changes
+const NOISE_BLUR_SIGMA = 0.8;
+const SSIM_WINDOW = 8;
+
+/**
+ * Compares a capture against a baseline image. The capture is scaled to the
+ * baseline's resolution, both are lightly blurred, and pixels are compared in YIQ
+ * space; isolated changed pixels are ignored. Structural similarity is computed on
+ * luminance in fixed windows and must also stay above the configured minimum.
+ */
+export async function compareImages(
+    actual: Buffer,
+    baseline: Buffer,
+    options: ImageDiffOptions = DEFAULT_DIFF_OPTIONS
+): Promise<ImageDiffResult> {
+    // Grayscale and grayscale-alpha images are expanded to RGB, as the comparison expects 3 channels
+    const base = await sharp(baseline)
+        .removeAlpha()
+        .toColourspace('srgb')
+        .blur(NOISE_BLUR_SIGMA)
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    const { width, height } = base.info;
+    const { data: current, info: currentInfo } = await sharp(actual)
+        .resize(width, height, { fit: 'fill' })
+        .removeAlpha()
+        .toColourspace('srgb')
+        .blur(NOISE_BLUR_SIGMA)
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    if (base.info.channels !== 3 || currentInfo.channels !== 3) {
+        throw new Error(`Expected RGB images to compare, got ${base.info.channels} and ${currentInfo.channels} channels`);
+    }
+
+    const pixelCount = width * height;
+    const deltas = new Float32Array(pixelCount);
+    const rawMask = new Uint8Array(pixelCount);
+    const limit = MAX_YIQ_DELTA * options.pixelThreshold * options.pixelThreshold;
+
+    for (let i = 0; i < pixelCount; i++) {
+        const delta = colorDelta(base.data, current, i * 3);
+        deltas[i] = delta;
+        rawMask[i] = delta > limit ? 1 : 0;
+    }
+
+    // Keep only changed pixels with at least two changed neighbours
+    const mask = new Uint8Array(pixelCount);
+    let changedPixels = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            if (rawMask[index] && countChangedNeighbours(rawMask, x, y, width, height) >= 2) {
+                mask[index] = 1;
+                changedPixels++;
+            }
+        }
+    }
+
+    const changedPercent = pixelCount > 0 ? (changedPixels / pixelCount) * 100 : 0;
+    const similarity = structuralSimilarity(base.data, current, width, height);
+    const heatmap = await renderHeatmap(base.data, deltas, mask, width, height);
+
+    return {
+        passed: changedPercent <= options.maxChangedPercent && similarity >= options.minSimilarity,
+        changedPercent,
+        changedPixels,
+        similarity,
+        width,
+        height,
+        heatmap
+    };
+}
+
+function luminance(data: Buffer, offset: number): number {
+    return data[offset] * 0.29889531 + data[offset + 1] * 0.58662247 + data[offset + 2] * 0.11448223;
+}
+
+function colorDelta(a: Buffer, b: Buffer, offset: number): number {
+    const r1 = a[offset], g1 = a[offset + 1], b1 = a[offset + 2];
+    const r2 = b[offset], g2 = b[offset + 1], b2 = b[offset + 2];
+
+    const dy = (r1 - r2) * 0.29889531 + (g1 - g2) * 0.58662247 + (b1 - b2) * 0.11448223;
+    const di = (r1 - r2) * 0.59597799 - (g1 - g2) * 0.27417610 - (b1 - b2) * 0.32180189;
+    const dq = (r1 - r2) * 0.21147017 - (g1 - g2) * 0.52261711 + (b1 - b2) * 0.31114694;
+
+    return 0.5053 * dy * dy + 0.299 * di * di + 0.1957 * dq * dq;
+}
+
+function countChangedNeighbours(mask: Uint8Array, x: number, y: number, width: number, height: number): number {
+    let count = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if ((dx !== 0 || dy !== 0) && nx >= 0 && ny >= 0 && nx < width && ny < height) {
+                count += mask[ny * width + nx];
+            }
+        }
+    }
+    return count;
+}
+
+function structuralSimilarity(a: Buffer, b: Buffer, width: number, height: number): number {
+    const c1 = (0.01 * 255) ** 2;
+    const c2 = (0.03 * 255) ** 2;
+    let total = 0;
+    let windows = 0;
+
+    for (let wy = 0; wy + SSIM_WINDOW <= height; wy += SSIM_WINDOW) {
+        for (let wx = 0; wx + SSIM_WINDOW <= width; wx += SSIM_WINDOW) {
+            let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let y = wy; y < wy + SSIM_WINDOW; y++) {
+                for (let x = wx; x < wx + SSIM_WINDOW; x++) {
+                    const offset = (y * width + x) * 3;
+                    const la = luminance(a, offset);
+                    const lb = luminance(b, offset);
+                    sumA += la;
+                    sumB += lb;
+                    sumAA += la * la;
+                    sumBB += lb * lb;
+                    sumAB += la * lb;
+                }
+            }
+
+            const n = SSIM_WINDOW * SSIM_WINDOW;
+            const meanA = sumA / n;
+            const meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA;
+            const varB = sumBB / n - meanB * meanB;
+            const covariance = sumAB / n - meanA * meanB;
+
+            total += ((2 * meanA * meanB + c1) * (2 * covariance + c2)) /
+                ((meanA * meanA + meanB * meanB + c1) * (varA + varB + c2));
+            windows++;
+        }
+    }
+
+    // Images smaller than one window are compared as identical structure
+    return windows > 0 ? total / windows : 1;
+}
+
+async function renderHeatmap(
+    baseline: Buffer,
+    deltas: Float32Array,
+    mask: Uint8Array,
+    width: number,
+    height: number
+): Promise<Buffer> {
+    const output = Buffer.alloc(width * height * 3);
+
+    for (let i = 0; i < width * height; i++) {
+        const offset = i * 3;
+        if (mask[i]) {
+            // Yellow for small differences, red for large ones
+            const intensity = Math.min(1, Math.sqrt(deltas[i] / MAX_YIQ_DELTA) * 2);
+            output[offset] = 255;
+            output[offset + 1] = Math.round(220 * (1 - intensity));
+            output[offset + 2] = 0;
+        } else {
+            const faded = Math.round(255 - (255 - luminance(baseline, offset)) * 0.25);
+            output[offset] = faded;
+            output[offset + 1] = faded;
+            output[offset + 2] = faded;
+        }
+    }
+
+    return sharp(output, { raw: { width, height, channels: 3 } }).png().toBuffer();
+}
@@ -0,0 +1,104 @@
+export type ImageFormat = 'jpeg' | 'png';
+
+export interface ImageInfo {
+    format: ImageFormat;
+    mimeType: string;
+    width: number;
+    height: number;
+    byteLength: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+
+/**
+ * Reads format and dimensions from the headers of a JPEG or PNG payload without
+ * decoding it. Throws for unsupported formats and for truncated or corrupt images,
+ * which are common when a Wi-Fi transfer is cut short.
+ */
+export function readImageInfo(data: Buffer): ImageInfo {
+    if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+        return readJpegInfo(data);
+    }
+    if (data.length >= PNG_SIGNATURE.length && data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+        return readPngInfo(data);
+    }
+    throw new Error(`Unsupported image format (${data.length} bytes)`);
+}
+
+function readJpegInfo(data: Buffer): ImageInfo {
+    let offset = 2;
+
+    while (offset + 4 <= data.length) {
+        if (data[offset] !== 0xff) {
+            throw new Error(`Corrupt JPEG: expected a marker at byte ${offset}`);
+        }
+        const marker = data[offset + 1];
+
+        // Fill bytes and standalone markers carry no length
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+            offset += 2;
+            continue;
+        }
+        if (marker === 0xd9 || marker === 0xda) {
+            // End of image or start of scan before any frame header
+            break;
+        }
+
+        const length = data.readUInt16BE(offset + 2);
+        if (length < 2 || offset + 2 + length > data.length) {
+            throw new Error('Corrupt JPEG: segment runs past the end of the data');
+        }
+
+        if (isStartOfFrame(marker)) {
+            if (length < 7) {
+                throw new Error('Corrupt JPEG: frame header too short');
+            }
+            const height = data.readUInt16BE(offset + 5);
+            const width = data.readUInt16BE(offset + 7);
+            // The end-of-image marker must follow the frame header, or the frame was truncated
+            if (data.lastIndexOf(JPEG_EOI) < offset + 2 + length) {
+                throw new Error('Corrupt JPEG: missing end-of-image marker');
+            }
+            return checkDimensions({ format: 'jpeg', mimeType: 'image/jpeg', width, height, byteLength: data.length });
+        }
+
+        offset += 2 + length;
+    }
+
+    throw new Error('Corrupt JPEG: no frame header found');
+}
+
+function isStartOfFrame(marker: number): boolean {
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+function readPngInfo(data: Buffer): ImageInfo {
+    // The IHDR chunk must come first: length (4), type (4), width (4), height (4)
+    if (data.length < 24 || data.toString('ascii', 12, 16) !== 'IHDR') {
+        throw new Error('Corrupt PNG: missing IHDR chunk');
+    }
+    if (data.length < 45 || data.toString('ascii', data.length - 8, data.length - 4) !== 'IEND') {
+        throw new Error('Corrupt PNG: missing IEND chunk');
+    }
+
+    return checkDimensions({
+        format: 'png',
+        mimeType: 'image/png',
+        width: data.readUInt32BE(16),
+        height: data.readUInt32BE(20),
+        byteLength: data.length
+    });
+}
+
+function checkDimensions(info: ImageInfo): ImageInfo {
+    if (info.width === 0 || info.height === 0) {
+        throw new Error(`Corrupt ${info.format.toUpperCase()}: zero image dimensions`);
+    }
+    return info;
+}
@@ -0,0 +1,80 @@
+import { cameraToDisplay, DisplayCalibration, Point } from './calibration';
+
+/** Keys the firmware maps to LVGL's `LV_KEY_*` codes */
+export const INPUT_KEYS = ['enter', 'esc', 'left', 'right', 'up', 'down', 'next', 'prev', 'home', 'end', 'backspace', 'del'] as const;
+export type InputKey = typeof INPUT_KEYS[number];
+
+/**
+ * Input injected into the UI, in display pixels.
+ */
+export type InputCommand =
+    | { type: 'touch'; x: number; y: number }
+    | { type: 'swipe'; x1: number; y1: number; x2: number; y2: number; durationMs: number }
+    | { type: 'key'; key: InputKey };
+
+/*
+ * Protocol: POST /command with form fields
+ *   command=touch&x=120&y=80
+ *   command=swipe&x1=40&y1=120&x2=280&y2=120&duration=300
+ *   command=key&key=enter
+ * The firmware feeds them to LVGL through a virtual pointer and keypad input device.
+ */
+const MIN_SWIPE_DURATION = 50;
+const MAX_SWIPE_DURATION = 3000;
+
+export function toCommandParams(input: InputCommand): { command: string; params: Record<string, string | number> } {
+    switch (input.type) {
+        case 'touch':
+            return { command: 'touch', params: { x: input.x, y: input.y } };
+        case 'swipe':
+            return {
+                command: 'swipe',
+                params: {
+                    x1: input.x1,
+                    y1: input.y1,
+                    x2: input.x2,
+                    y2: input.y2,
+                    duration: Math.round(Math.min(MAX_SWIPE_DURATION, Math.max(MIN_SWIPE_DURATION, input.durationMs)))
+                }
+            };
+        case 'key':
+            return { command: 'key', params: { key: input.key } };
+    }
+}
+
+/**
+ * Maps a point on a camera frame, as a fraction of the frame's width and height, to
+ * panel pixels. Corrected frames cover exactly the upright display; raw frames are
+ * mapped through the calibration's homography. Returns undefined for points off the panel.
+ */
+export function frameToPanel(
+    calibration: DisplayCalibration,
+    point: Point,
+    corrected: boolean
+): Point | undefined {
+    const panel = corrected
+        ? { x: point.x * calibration.width, y: point.y * calibration.height }
+        : cameraToDisplay(calibration, {
+            x: point.x * calibration.sourceWidth,
+            y: point.y * calibration.sourceHeight
+        });
+
+    if (panel.x < 0 || panel.y < 0 || panel.x > calibration.width || panel.y > calibration.height) {
+        return undefined;
+    }
+    return {
+        x: Math.min(calibration.width - 1, Math.floor(panel.x)),
+        y: Math.min(calibration.height - 1, Math.floor(panel.y))
+    };
+}
+
+export function describeInput(input: InputCommand): string {
+    switch (input.type) {
+        case 'touch':
+            return `touch at ${input.x},${input.y}`;
+        case 'swipe':
+            return `swipe ${input.x1},${input.y1} → ${input.x2},${input.y2}`;
+        case 'key':
+            return `key ${input.key}`;
+    }
+}
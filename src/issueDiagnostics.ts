@@ -0,0 +1,249 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AIIssue, IssueSeverity } from './analysisResult';
+import { AIProvider } from './aiProvider';
+import { CameraSnapshot } from './cameraManager';
+import { FixWorkflow } from './fixWorkflow';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { IssueLocation, locateIssue, SourceFile } from './issueLocator';
+
+const DIAGNOSTIC_SOURCE = 'Double Vision';
+const SOURCE_EXCLUDE = '**/{node_modules,.git,.pio,build}/**';
+const MAX_SOURCE_FILES = 200;
+const MAX_SOURCE_SIZE = 512 * 1024;
+// Lines of context around the located line that the AI may rewrite
+const FIX_CONTEXT_LINES = 15;
+
+interface LocatedIssue {
+    entry: HistoryEntry;
+    issue: AIIssue;
+    uri: vscode.Uri;
+    diagnostic: vscode.Diagnostic;
+}
+
+/**
+ * Publishes the issues of each device's latest analysis as diagnostics on the
+ * sketch lines that most likely produce them, and offers quick fixes that ask
+ * the AI provider for a patch to those lines, reviewed through the FixWorkflow.
+ */
+export class IssueDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('double-vision');
+    // Located issues of the latest analysis, per device
+    private readonly located = new Map<string, LocatedIssue[]>();
+    private readonly historyListener: vscode.Disposable;
+
+    constructor(
+        private readonly aiProvider: AIProvider,
+        private readonly history: HistoryStore,
+        private readonly workflow: FixWorkflow
+    ) {
+        this.historyListener = history.onDidAdd(entry => {
+            this.update(entry).catch(error => console.error('Failed to map issues to sources:', error));
+        });
+    }
+
+    /**
+     * Replaces the device's diagnostics with the issues of a new analysis.
+     */
+    public async update(entry: HistoryEntry): Promise<void> {
+        const config = vscode.workspace.getConfiguration('doubleVision');
+        if (!config.get('diagnostics.enabled', true)) {
+            return;
+        }
+
+        const files = entry.analysis.issues.length > 0
+            ? await readSources(config.get('diagnostics.include', '**/*.{ino,c,cpp,h}'))
+            : [];
+        const located: LocatedIssue[] = [];
+        for (const issue of entry.analysis.issues) {
+            const location = locateIssue(issue, files);
+            if (location) {
+                located.push({ entry, issue, uri: vscode.Uri.file(location.path), diagnostic: createDiagnostic(entry, issue, location) });
+            }
+        }
+
+        this.located.set(entry.deviceId, located);
+        this.publish();
+    }
+
+    public clear(): void {
+        this.located.clear();
+        this.collection.clear();
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            const located = this.find(document.uri, diagnostic);
+            if (!located) {
+                continue;
+            }
+
+            const fix = new vscode.CodeAction(`Ask AI to fix: ${located.issue.description}`, vscode.CodeActionKind.QuickFix);
+            fix.diagnostics = [diagnostic];
+            fix.isPreferred = true;
+            fix.command = {
+                command: 'double-vision.fixDisplayIssue',
+                title: 'Ask AI to fix',
+                arguments: [document.uri, diagnostic]
+            };
+
+            const show = new vscode.CodeAction('Show the snapshot of this issue', vscode.CodeActionKind.QuickFix);
+            show.diagnostics = [diagnostic];
+            show.command = {
+                command: 'double-vision.openHistoryEntry',
+                title: 'Show snapshot',
+                arguments: [located.entry.id]
+            };
+
+            actions.push(fix, show);
+        }
+        return actions;
+    }
+
+    /**
+     * Sends the lines around a diagnostic to the AI provider, together with the
+     * issue and the frame it was seen on, and proposes the corrected code for review.
+     */
+    public async fix(uri: vscode.Uri, diagnostic: vscode.Diagnostic): Promise<void> {
+        const located = this.find(uri, diagnostic);
+        if (!located) {
+            vscode.window.showWarningMessage('This issue is no longer reported by the latest analysis');
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const line = Math.min(diagnostic.range.start.line, document.lineCount - 1);
+        const startLine = Math.max(0, line - FIX_CONTEXT_LINES);
+        const endLine = Math.min(document.lineCount - 1, line + FIX_CONTEXT_LINES);
+        const range = new vscode.Range(startLine, 0, endLine, document.lineAt(endLine).text.length);
+        const excerpt = document.getText(range);
+
+        let image: Pick<CameraSnapshot, 'imageData' | 'mimeType'> | undefined;
+        try {
+            image = await this.history.readImage(located.entry);
+        } catch {
+            // The snapshot was pruned; the issue text alone still makes a usable request
+        }
+
+        const { issue, entry } = located;
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Asking AI to fix "${issue.description}"...`
+        }, () => this.aiProvider.generateFix({
+            issue: `${issue.element ? issue.element + ': ' : ''}${issue.description} (${issue.severity})`,
+            screen: entry.analysis.description,
+            fileName: path.basename(uri.fsPath),
+            startLine: startLine + 1,
+            endLine: endLine + 1,
+            excerpt
+        }, image));
+
+        if (!result.code.trim()) {
+            throw new Error('The AI provider returned no code');
+        }
+        if (document.getText(range) !== excerpt) {
+            throw new Error(`${path.basename(uri.fsPath)} changed while the fix was generated; try again`);
+        }
+
+        const original = document.getText();
+        const start = document.offsetAt(range.start);
+        await this.workflow.review({
+            uri,
+            original,
+            proposed: original.slice(0, start) + result.code + original.slice(document.offsetAt(range.end)),
+            rationale: result.rationale,
+            deviceId: entry.deviceId,
+            issues: [issue]
+        });
+    }
+
+    public dispose(): void {
+        this.historyListener.dispose();
+        this.collection.dispose();
+    }
+
+    private find(uri: vscode.Uri, diagnostic: vscode.Diagnostic): LocatedIssue | undefined {
+        for (const located of this.located.values()) {
+            const match = located.find(l =>
+                l.uri.toString() === uri.toString() && l.diagnostic.message === diagnostic.message);
+            if (match) {
+                return match;
+            }
+        }
+        return undefined;
+    }
+
+    private publish(): void {
+        const byFile = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        for (const located of this.located.values()) {
+            for (const { uri, diagnostic } of located) {
+                const file = byFile.get(uri.toString()) ?? { uri, diagnostics: [] };
+                file.diagnostics.push(diagnostic);
+                byFile.set(uri.toString(), file);
+            }
+        }
+
+        this.collection.clear();
+        for (const { uri, diagnostics } of byFile.values()) {
+            this.collection.set(uri, diagnostics);
+        }
+    }
+}
+
+function createDiagnostic(entry: HistoryEntry, issue: AIIssue, location: IssueLocation): vscode.Diagnostic {
+    const range = new vscode.Range(location.line, location.character, location.line, location.character + location.length);
+    const element = issue.element ? `${issue.element}: ` : '';
+    const diagnostic = new vscode.Diagnostic(
+        range,
+        `${element}${issue.description} (seen on ${entry.deviceName}, matched by ${location.reason})`,
+        toDiagnosticSeverity(issue.severity)
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    return diagnostic;
+}
+
+function toDiagnosticSeverity(severity: IssueSeverity): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case 'error':
+            return vscode.DiagnosticSeverity.Error;
+        case 'warning':
+            return vscode.DiagnosticSeverity.Warning;
+        default:
+            return vscode.DiagnosticSeverity.Information;
+    }
+}
+
+/**
+ * Reads the workspace's UI sources, preferring the editor's unsaved text and
+ * listing open files first so they win ties.
+ */
+export async function readSources(include: string): Promise<SourceFile[]> {
+    const uris = await vscode.workspace.findFiles(include, SOURCE_EXCLUDE, MAX_SOURCE_FILES);
+    const open = new Map(vscode.workspace.textDocuments.map(doc => [doc.uri.toString(), doc]));
+    const files: SourceFile[] = [];
+
+    for (const uri of uris) {
+        const document = open.get(uri.toString());
+        if (document) {
+            files.unshift({ path: uri.fsPath, text: document.getText() });
+            continue;
+        }
+        try {
+            const { size } = await fs.promises.stat(uri.fsPath);
+            if (size <= MAX_SOURCE_SIZE) {
+                files.push({ path: uri.fsPath, text: await fs.promises.readFile(uri.fsPath, 'utf8') });
+            }
+        } catch (error) {
+            console.error(`Skipping unreadable source ${uri.fsPath}:`, error);
+        }
+    }
+    return files;
+}
@@ -0,0 +1,168 @@
+import { AIIssue } from './analysisResult';
+
+export interface SourceFile {
+    path: string;
+    text: string;
+}
+
+export interface IssueLocation {
+    path: string;
+    /** Zero-based line of the match */
+    line: number;
+    character: number;
+    length: number;
+    /** What matched, for the diagnostic's hover text */
+    reason: string;
+}
+
+/** LVGL widget names, keyed by the words an analysis uses for them */
+const WIDGET_TYPES: Record<string, string[]> = {
+    button: ['btn', 'button'],
+    btn: ['btn', 'button'],
+    label: ['label'],
+    text: ['label'],
+    title: ['label'],
+    slider: ['slider'],
+    switch: ['switch'],
+    toggle: ['switch'],
+    checkbox: ['checkbox'],
+    bar: ['bar'],
+    progress: ['bar'],
+    arc: ['arc'],
+    gauge: ['meter', 'arc'],
+    meter: ['meter'],
+    chart: ['chart'],
+    graph: ['chart'],
+    image: ['img', 'image'],
+    icon: ['img', 'image'],
+    dropdown: ['dropdown'],
+    roller: ['roller'],
+    textarea: ['textarea'],
+    input: ['textarea'],
+    table: ['table'],
+    keyboard: ['keyboard'],
+    list: ['list'],
+    spinner: ['spinner'],
+    led: ['led'],
+    tab: ['tabview'],
+    tabview: ['tabview'],
+    msgbox: ['msgbox'],
+    dialog: ['msgbox']
+};
+
+// Match scores; a quoted label text is the strongest hint, a widget type alone the weakest
+const SCORE_STRING = 3;
+const SCORE_IDENTIFIER = 2;
+const SCORE_ELEMENT_TEXT = 2;
+const SCORE_WIDGET = 1;
+
+interface SearchTerm {
+    kind: 'string' | 'identifier' | 'widget';
+    value: string;
+    score: number;
+}
+
+/**
+ * Guesses the source line that produces the UI element an issue refers to:
+ * a string literal quoted in the issue, an identifier named as its element, or
+ * failing those the `lv_<widget>_create` call for the widget type mentioned.
+ * Returns undefined when nothing in the sources matches.
+ */
+export function locateIssue(issue: AIIssue, files: SourceFile[]): IssueLocation | undefined {
+    // Terms come strongest first, so the first hit is the best one
+    for (const term of extractSearchTerms(issue)) {
+        for (const file of files) {
+            const location = findTerm(file, term);
+            if (location) {
+                return location;
+            }
+        }
+    }
+    return undefined;
+}
+
+function extractSearchTerms(issue: AIIssue): SearchTerm[] {
+    const terms: SearchTerm[] = [];
+    const text = `${issue.element ?? ''}\n${issue.description}`;
+
+    // Text in double quotes, curly quotes or backticks is usually the widget's label
+    for (const match of text.matchAll(/["“`]([^"”`\n]{2,80})["”`]/g)) {
+        terms.push({ kind: 'string', value: match[1].trim(), score: SCORE_STRING });
+    }
+
+    // snake_case, camelCase or numbered names look like variables rather than prose;
+    // all-caps words with digits (ESP32, RGB565) are usually hardware names
+    for (const match of text.matchAll(/\b[A-Za-z_][A-Za-z0-9_]*\b/g)) {
+        const word = match[0];
+        if (/_|[a-z][A-Z]|\d/.test(word) && word.length >= 3 && !/^[A-Z0-9]+$/.test(word)) {
+            terms.push({ kind: 'identifier', value: word, score: SCORE_IDENTIFIER });
+        }
+    }
+
+    // "OK button" names the button by its label once the widget word is removed
+    const words = (issue.element ?? '').split(/\s+/).filter(word => word.length > 0);
+    const labelWords = words.filter(word => !WIDGET_TYPES[word.toLowerCase()]);
+    if (labelWords.length > 0 && labelWords.length < words.length) {
+        terms.push({ kind: 'string', value: labelWords.join(' '), score: SCORE_ELEMENT_TEXT });
+    }
+
+    const widgets = new Set<string>();
+    for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+        WIDGET_TYPES[word]?.forEach(widget => widgets.add(widget));
+    }
+    for (const widget of widgets) {
+        terms.push({ kind: 'widget', value: widget, score: SCORE_WIDGET });
+    }
+
+    return terms.sort((a, b) => b.score - a.score);
+}
+
+function findTerm(file: SourceFile, term: SearchTerm): IssueLocation | undefined {
+    const lines = file.text.split(/\r?\n/);
+    const needle = term.value.toLowerCase();
+
+    for (let line = 0; line < lines.length; line++) {
+        const code = lines[line];
+        if (/^\s*(\/\/|\*|\/\*)/.test(code)) {
+            continue;
+        }
+
+        switch (term.kind) {
+            case 'string': {
+                for (const literal of code.matchAll(/"((?:[^"\\]|\\.)*)"/g)) {
+                    const offset = literal[1].toLowerCase().indexOf(needle);
+                    if (offset >= 0) {
+                        return {
+                            path: file.path,
+                            line,
+                            character: literal.index! + 1 + offset,
+                            length: term.value.length,
+                            reason: `text "${term.value}"`
+                        };
+                    }
+                }
+                break;
+            }
+            case 'identifier': {
+                const match = new RegExp(`\\b${escapeRegExp(term.value)}\\b`).exec(code);
+                if (match) {
+                    return { path: file.path, line, character: match.index, length: term.value.length, reason: `identifier ${term.value}` };
+                }
+                break;
+            }
+            case 'widget': {
+                const match = new RegExp(`\\blv_${term.value}_create\\s*\\(`).exec(code);
+                if (match) {
+                    const call = `lv_${term.value}_create`;
+                    return { path: file.path, line, character: match.index, length: call.length, reason: `${call}() call` };
+                }
+                break;
+            }
+        }
+    }
+    return undefined;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,28 @@
+/**
+ * Where the editor-independent modules write diagnostics. The extension leaves
+ * them on the console, which goes to the extension host log; the command-line
+ * runner sends them to stderr.
+ */
+export interface Logger {
+    info(...data: unknown[]): void;
+    warn(...data: unknown[]): void;
+    error(...data: unknown[]): void;
+}
+
+let sink: Logger = console;
+
+/**
+ * Sets where diagnostics go from now on.
+ */
+export function setLogger(target: Logger): void {
+    sink = target;
+}
+
+/**
+ * Writes to the current target, so modules can import it once.
+ */
+export const logger: Logger = {
+    info: (...data) => sink.info(...data),
+    warn: (...data) => sink.warn(...data),
+    error: (...data) => sink.error(...data)
+};
@@ -0,0 +1,202 @@
+import * as dgram from 'dgram';
+import { logger } from './logger';
+
+export interface MdnsService {
+    /** Service instance name, e.g. "esp32-cam._double-vision._tcp.local" */
+    name: string;
+    host?: string;
+    port?: number;
+    addresses: string[];
+    txt: Record<string, string>;
+}
+
+interface ResourceRecord {
+    name: string;
+    type: number;
+    data: Buffer;
+    /** Packet and data offset, needed to expand compressed names inside the data */
+    packet: Buffer;
+    dataOffset: number;
+}
+
+const MDNS_ADDRESS = '224.0.0.251';
+const MDNS_PORT = 5353;
+
+const TYPE_A = 1;
+const TYPE_PTR = 12;
+const TYPE_TXT = 16;
+const TYPE_SRV = 33;
+
+/**
+ * Sends a DNS-SD PTR query for the given service type (e.g. "_double-vision._tcp.local")
+ * and collects the instances announced within the timeout. The query is sent from an
+ * ephemeral port, so responders answer by unicast and port 5353 does not need to be free.
+ */
+export function browseMdns(serviceType: string, timeoutMs: number): Promise<MdnsService[]> {
+    return new Promise((resolve) => {
+        const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true });
+        const records: ResourceRecord[] = [];
+        let finished = false;
+
+        const finish = () => {
+            if (finished) {
+                return;
+            }
+            finished = true;
+            clearTimeout(timer);
+            socket.close();
+            resolve(collectServices(serviceType, records));
+        };
+        const timer = setTimeout(finish, timeoutMs);
+
+        socket.on('message', (packet: Buffer) => {
+            try {
+                records.push(...parseRecords(packet));
+            } catch (error) {
+                // Unrelated or malformed traffic; keep listening
+                logger.error('Ignoring malformed mDNS packet:', error);
+            }
+        });
+
+        socket.on('error', (error) => {
+            logger.error('mDNS discovery error:', error);
+            finish();
+        });
+
+        socket.bind(0, () => {
+            socket.send(encodeQuery(serviceType, TYPE_PTR), MDNS_PORT, MDNS_ADDRESS, (error) => {
+                if (error) {
+                    logger.error('Failed to send mDNS query:', error);
+                    finish();
+                }
+            });
+        });
+    });
+}
+
+function encodeQuery(name: string, type: number): Buffer {
+    const header = Buffer.alloc(12);
+    header.writeUInt16BE(1, 4); // one question
+
+    const question = Buffer.concat([encodeName(name), Buffer.alloc(4)]);
+    question.writeUInt16BE(type, question.length - 4);
+    question.writeUInt16BE(1, question.length - 2); // class IN
+
+    return Buffer.concat([header, question]);
+}
+
+function encodeName(name: string): Buffer {
+    const parts = name.split('.').filter(label => label.length > 0).map(label => {
+        const bytes = Buffer.from(label, 'utf8');
+        return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+    });
+    return Buffer.concat([...parts, Buffer.from([0])]);
+}
+
+function decodeName(packet: Buffer, offset: number): { name: string; next: number } {
+    const labels: string[] = [];
+    let next = -1;
+    let jumps = 0;
+
+    while (offset < packet.length) {
+        const length = packet[offset];
+        if (length === 0) {
+            offset++;
+            break;
+        }
+        if ((length & 0xc0) === 0xc0) {
+            // Compression pointer to an earlier name
+            if (next === -1) {
+                next = offset + 2;
+            }
+            if (++jumps > 16) {
+                throw new Error('mDNS name compression loop');
+            }
+            offset = packet.readUInt16BE(offset) & 0x3fff;
+            continue;
+        }
+        labels.push(packet.toString('utf8', offset + 1, offset + 1 + length));
+        offset += length + 1;
+    }
+
+    return { name: labels.join('.'), next: next === -1 ? offset : next };
+}
+
+function parseRecords(packet: Buffer): ResourceRecord[] {
+    const questions = packet.readUInt16BE(4);
+    const total = packet.readUInt16BE(6) + packet.readUInt16BE(8) + packet.readUInt16BE(10);
+    let offset = 12;
+
+    for (let i = 0; i < questions; i++) {
+        offset = decodeName(packet, offset).next + 4;
+    }
+
+    const records: ResourceRecord[] = [];
+    for (let i = 0; i < total && offset < packet.length; i++) {
+        const { name, next } = decodeName(packet, offset);
+        const type = packet.readUInt16BE(next);
+        const length = packet.readUInt16BE(next + 8);
+        const dataOffset = next + 10;
+
+        records.push({ name, type, data: packet.subarray(dataOffset, dataOffset + length), packet, dataOffset });
+        offset = dataOffset + length;
+    }
+    return records;
+}
+
+function collectServices(serviceType: string, records: ResourceRecord[]): MdnsService[] {
+    const services = new Map<string, MdnsService>();
+    const addresses = new Map<string, string[]>();
+    const lowerType = serviceType.toLowerCase();
+
+    for (const record of records) {
+        if (record.type === TYPE_PTR && record.name.toLowerCase() === lowerType) {
+            const instance = decodeName(record.packet, record.dataOffset).name;
+            if (!services.has(instance)) {
+                services.set(instance, { name: instance, addresses: [], txt: {} });
+            }
+        } else if (record.type === TYPE_A && record.data.length === 4) {
+            const list = addresses.get(record.name.toLowerCase()) || [];
+            list.push(Array.from(record.data).join('.'));
+            addresses.set(record.name.toLowerCase(), list);
+        }
+    }
+
+    for (const record of records) {
+        const service = services.get(record.name);
+        if (!service) {
+            continue;
+        }
+        if (record.type === TYPE_SRV && record.data.length >= 7) {
+            service.port = record.data.readUInt16BE(4);
+            service.host = decodeName(record.packet, record.dataOffset + 6).name;
+        } else if (record.type === TYPE_TXT) {
+            service.txt = { ...service.txt, ...parseTxt(record.data) };
+        }
+    }
+
+    for (const service of services.values()) {
+        if (service.host) {
+            service.addresses = [...new Set(addresses.get(service.host.toLowerCase()) || [])];
+        }
+    }
+    return [...services.values()];
+}
+
+function parseTxt(data: Buffer): Record<string, string> {
+    const entries: Record<string, string> = {};
+    let offset = 0;
+
+    while (offset < data.length) {
+        const length = data[offset];
+        const entry = data.toString('utf8', offset + 1, offset + 1 + length);
+        const separator = entry.indexOf('=');
+        if (separator > 0) {
+            entries[entry.slice(0, separator)] = entry.slice(separator + 1);
+        } else if (entry) {
+            entries[entry] = '';
+        }
+        offset += length + 1;
+    }
+    return entries;
+}
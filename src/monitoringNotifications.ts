@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { AIAnalysisResult, formatAnalysisMarkdown } from './analysisResult';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { MonitoringReporter } from './monitoringService';
+
+/**
+ * Reports monitoring results as editor notifications, with actions to open the
+ * analysis or have the AI propose a fix.
+ */
+export class NotificationReporter implements MonitoringReporter {
+    constructor(private readonly history: HistoryStore) {}
+
+    public info(message: string): void {
+        vscode.window.showInformationMessage(message);
+    }
+
+    public error(message: string): void {
+        vscode.window.showErrorMessage(message);
+    }
+
+    public async issuesFound(deviceName: string, analysis: AIAnalysisResult, entry: HistoryEntry | undefined): Promise<void> {
+        const significant = analysis.issues.filter(issue => issue.severity !== 'info');
+        const summary = significant.length === 1
+            ? significant[0].description
+            : `${significant.length} issues found`;
+        const show = significant.some(issue => issue.severity === 'error')
+            ? vscode.window.showErrorMessage
+            : vscode.window.showWarningMessage;
+        // Fixes are proposed against the saved entry, so they need the history
+        const actions = entry ? ['Show Analysis', 'Generate Fix', 'Dismiss'] : ['Show Analysis', 'Dismiss'];
+        const action = await show(`Display issue detected on ${deviceName}: ${summary}`, ...actions);
+
+        if (action === 'Show Analysis') {
+            await this.showAnalysisDocument(deviceName, analysis, entry?.deviceId);
+        } else if (action === 'Generate Fix' && entry) {
+            await vscode.commands.executeCommand('double-vision.proposeFix', entry.id);
+        }
+    }
+
+    private async showAnalysisDocument(deviceName: string, analysis: AIAnalysisResult, deviceId?: string): Promise<void> {
+        const recent = deviceId ? await this.history.list({ deviceId, limit: 5 }) : [];
+        const history = recent
+            .map(entry => formatAnalysisMarkdown(entry.analysis))
+            .join('\n\n---\n\n');
+        const doc = await vscode.workspace.openTextDocument({
+            content: `# Display Analysis - ${deviceName} - ${analysis.timestamp.toISOString()}\n\n${formatAnalysisMarkdown(analysis)}\n\n## Analysis History\n\n${history}`,
+            language: 'markdown'
+        });
+        await vscode.window.showTextDocument(doc);
+    }
+}
@@ -1,70 +1,160 @@
-import * as vscode from 'vscode';
-import { CameraManager, CameraSnapshot } from './cameraManager';
+import { CameraSnapshot } from './cameraManager';
+import { FrameSource } from './frameSource';
+import { FrameSubscription } from './frameBus';
 import { AIProvider } from './aiProvider';
+import { AIAnalysisResult } from './analysisResult';
+import { AnalysisQueue } from './analysisQueue';
+import { ChangeDetector, ChangeResult, FrameFingerprint } from './changeDetector';
+import { HistoryEntry, HistoryStore } from './historyStore';
+import { WidgetTree, WidgetTreeClient } from './widgetTree';
+import { getSettings } from './settings';
+import { EventEmitter } from './events';
+import { BudgetExceededError } from './usageTracker';
+import { logger } from './logger';
+
+// A widget tree this old still describes the frame being analyzed
+const WIDGET_TREE_MAX_AGE = 2000;
+
+/**
+ * How monitoring tells the user what it found: notifications in the editor,
+ * log lines in headless runs.
+ */
+export interface MonitoringReporter {
+    info(message: string): void;
+    error(message: string): void;
+    /**
+     * An analysis reported warnings or errors. `entry` is the saved history entry,
+     * or undefined if the analysis could not be saved. The analysis does not wait
+     * for the returned promise, so it may wait for the user; until it settles, the
+     * device's further reports are skipped.
+     */
+    issuesFound(deviceName: string, analysis: AIAnalysisResult, entry: HistoryEntry | undefined): Promise<void>;
+}
+
+/**
+ * Keeps what monitoring reports instead of showing it, for runs that are
+ * summarized once they end, such as replays.
+ */
+export class CollectingReporter implements MonitoringReporter {
+    public readonly messages: string[] = [];
+    /** Analyses that reported warnings or errors */
+    public readonly issueReports: AIAnalysisResult[] = [];
+
+    public info(message: string): void {
+        this.messages.push(message);
+    }
+
+    public error(message: string): void {
+        this.messages.push(message);
+    }
+
+    public async issuesFound(_deviceName: string, analysis: AIAnalysisResult): Promise<void> {
+        this.issueReports.push(analysis);
+    }
+}
 
 export class MonitoringService {
     private isMonitoring = false;
     private monitoringInterval?: NodeJS.Timeout;
+    private frameSubscription?: FrameSubscription;
     private lastSnapshot?: CameraSnapshot;
-    private analysisHistory: string[] = [];
+    private changeDetector = new ChangeDetector();
+    private skippedFrames = 0;
+    private droppedFrames = 0;
+    // One AI request at a time for this device
+    private readonly queue = new AnalysisQueue();
+    // An issues report is waiting for the user
+    private reportOpen = false;
+
+    private readonly _onDidChangeActive = new EventEmitter<boolean>();
+    public readonly onDidChangeActive = this._onDidChangeActive.event;
 
     constructor(
-        private cameraManager: CameraManager,
-        private aiProvider: AIProvider
-    ) {
-        // Set up camera callback for real-time monitoring
-        this.cameraManager.setImageCallback((snapshot) => {
-            this.handleNewSnapshot(snapshot);
-        });
-    }
+        private frameSource: FrameSource,
+        private aiProvider: AIProvider,
+        private readonly history: HistoryStore,
+        private readonly deviceId: string,
+        private readonly deviceName: string,
+        private readonly reporter: MonitoringReporter,
+        private readonly widgets?: WidgetTreeClient
+    ) {}
 
     public async start(): Promise<void> {
         if (this.isMonitoring) {
             return;
         }
 
-        if (!this.cameraManager.isConnected()) {
+        if (!this.frameSource.isConnected()) {
             throw new Error('Camera not connected');
         }
+        this.aiProvider.usage.assertWithinBudget();
 
         this.isMonitoring = true;
-        const interval = vscode.workspace.getConfiguration('doubleVision').get('monitoring.interval', 5000);
-
-        // Start periodic monitoring
-        this.monitoringInterval = setInterval(async () => {
-            try {
-                await this.performMonitoringCycle();
-            } catch (error) {
-                console.error('Monitoring cycle error:', error);
-                vscode.window.showErrorMessage(`Monitoring error: ${error}`);
-            }
-        }, interval);
+        this.changeDetector.reset();
+        this.skippedFrames = 0;
+        this.droppedFrames = 0;
+        const interval = getSettings().get('monitoring.interval', 5000);
+
+        // Analysis is slow; streamed frames and periodic captures are offered to the
+        // queue, which keeps only the newest while a request is in flight
+        this.frameSubscription = this.frameSource.onFrame(snapshot => this.handleNewSnapshot(snapshot));
+        this.monitoringInterval = setInterval(() => this.queue.offer(() => this.performMonitoringCycle()), interval);
 
-        vscode.window.showInformationMessage('AI visual monitoring started');
+        this._onDidChangeActive.fire(true);
+        this.reporter.info(`AI visual monitoring started for ${this.deviceName}`);
     }
 
     public stop(): void {
+        const wasMonitoring = this.isMonitoring;
         this.isMonitoring = false;
+        this.stopTakingFrames();
+        this.queue.clear();
+        if (wasMonitoring) {
+            this._onDidChangeActive.fire(false);
+        }
+    }
+
+    /**
+     * Stops taking new frames, lets the analyses already waiting or in flight
+     * complete, then stops monitoring.
+     */
+    public async finish(): Promise<void> {
+        this.stopTakingFrames();
+        await this.queue.whenIdle();
+        this.stop();
+    }
+
+    private stopTakingFrames(): void {
+        this.frameSubscription?.dispose();
+        this.frameSubscription = undefined;
         if (this.monitoringInterval) {
             clearInterval(this.monitoringInterval);
             this.monitoringInterval = undefined;
         }
     }
 
+    /**
+     * Runs an AI request for this device once the one in flight is done, so
+     * commands and monitoring never call the provider concurrently.
+     */
+    public enqueue<T>(job: () => Promise<T>): Promise<T> {
+        return this.queue.run(job);
+    }
+
     private async performMonitoringCycle(): Promise<void> {
-        if (!this.isMonitoring || !this.cameraManager.isConnected()) {
+        if (!this.isMonitoring || !this.frameSource.isConnected()) {
             return;
         }
 
         try {
-            const snapshot = await this.cameraManager.takeSnapshot();
+            const snapshot = await this.frameSource.takeSnapshot();
             await this.analyzeSnapshot(snapshot);
         } catch (error) {
-            console.error('Monitoring cycle failed:', error);
+            logger.error('Monitoring cycle failed:', error);
         }
     }
 
-    private async handleNewSnapshot(snapshot: CameraSnapshot): Promise<void> {
+    private handleNewSnapshot(snapshot: CameraSnapshot): void {
         if (!this.isMonitoring) {
             return;
         }
@@ -72,120 +162,175 @@ export class MonitoringService {
         // Only analyze if enough time has passed since last analysis
         if (this.lastSnapshot && 
             (snapshot.timestamp.getTime() - this.lastSnapshot.timestamp.getTime()) < 2000) {
+            this.droppedFrames++;
             return;
         }
 
-        await this.analyzeSnapshot(snapshot);
+        // Counted as dropped until it runs, since a newer offer may replace it
+        this.droppedFrames++;
+        this.queue.offer(() => {
+            this.droppedFrames--;
+            return this.analyzeSnapshot(snapshot);
+        });
+    }
+
+    /**
+     * Captures and analyzes a frame immediately, bypassing the unchanged-frame check.
+     * Works whether or not monitoring is running.
+     */
+    public async forceAnalyze(): Promise<AIAnalysisResult> {
+        if (!this.frameSource.isConnected()) {
+            throw new Error('Camera not connected');
+        }
+
+        return this.queue.run(async () => this.runAnalysis(await this.frameSource.takeSnapshot()));
     }
 
     private async analyzeSnapshot(snapshot: CameraSnapshot): Promise<void> {
+        // The offer may have waited for a request that stopped monitoring
+        if (!this.isMonitoring) {
+            return;
+        }
+
         try {
-            const analysis = await this.aiProvider.analyzeImage(snapshot);
-            this.lastSnapshot = snapshot;
-            this.analysisHistory.push(analysis);
+            const config = getSettings();
+            let fingerprint: FrameFingerprint | undefined;
 
-            // Keep only last 10 analyses
-            if (this.analysisHistory.length > 10) {
-                this.analysisHistory.shift();
+            if (config.get('monitoring.skipUnchanged', true)) {
+                const change = await this.detectChange(snapshot, config.get('monitoring.changeSensitivity', 0.5));
+                if (change && !change.changed) {
+                    this.skippedFrames++;
+                    return;
+                }
+                fingerprint = change?.fingerprint;
             }
 
-            // Check for potential issues and provide suggestions
-            await this.processAnalysis(analysis);
+            await this.runAnalysis(snapshot, fingerprint);
+        } catch (error) {
+            if (error instanceof BudgetExceededError) {
+                this.stop();
+                this.reporter.error(`AI monitoring paused for ${this.deviceName}: ${error.message}`);
+                return;
+            }
+            logger.error('Analysis failed:', error);
+        }
+    }
 
+    private async detectChange(snapshot: CameraSnapshot, sensitivity: number): Promise<ChangeResult | undefined> {
+        try {
+            return await this.changeDetector.check(snapshot.imageData, sensitivity);
         } catch (error) {
-            console.error('Analysis failed:', error);
+            // An undecodable frame should not block analysis; let the provider see it
+            logger.error('Change detection failed:', error);
+            return undefined;
         }
     }
 
-    private async processAnalysis(analysis: string): Promise<void> {
-        // Look for common issues and provide proactive suggestions
-        const lowerAnalysis = analysis.toLowerCase();
-        
-        if (lowerAnalysis.includes('error') || lowerAnalysis.includes('problem')) {
-            const action = await vscode.window.showWarningMessage(
-                'Display issue detected. Would you like to see the analysis?',
-                'Show Analysis',
-                'Generate Fix',
-                'Dismiss'
-            );
-
-            if (action === 'Show Analysis') {
-                await this.showAnalysisDocument(analysis);
-            } else if (action === 'Generate Fix') {
-                await this.generateFixSuggestions(analysis);
-            }
+    private async runAnalysis(snapshot: CameraSnapshot, fingerprint?: FrameFingerprint): Promise<AIAnalysisResult> {
+        const analysis = await this.aiProvider.analyzeImage(snapshot, await this.getWidgetTree());
+        this.lastSnapshot = snapshot;
+
+        let entry: HistoryEntry | undefined;
+        try {
+            entry = await this.history.add(snapshot, analysis, { id: this.deviceId, name: this.deviceName });
+        } catch (error) {
+            logger.error('Failed to save analysis to history:', error);
         }
 
-        // Check for LVGL-specific issues
-        if (lowerAnalysis.includes('lvgl') || lowerAnalysis.includes('widget')) {
-            await this.checkLVGLIssues(analysis);
+        // Later frames are compared against this one
+        try {
+            this.changeDetector.accept(fingerprint ?? await ChangeDetector.fingerprint(snapshot.imageData));
+        } catch (error) {
+            logger.error('Failed to fingerprint analyzed frame:', error);
         }
 
-        // Emit analysis update for webview
-        this.notifyAnalysisUpdate(analysis);
+        // Check for potential issues and provide suggestions
+        await this.processAnalysis(analysis, entry);
+        return analysis;
     }
 
-    private async showAnalysisDocument(analysis: string): Promise<void> {
-        const doc = await vscode.workspace.openTextDocument({
-            content: `# Display Analysis - ${new Date().toISOString()}\n\n${analysis}\n\n## Analysis History\n\n${this.analysisHistory.slice(-5).join('\n\n---\n\n')}`,
-            language: 'markdown'
-        });
-        await vscode.window.showTextDocument(doc);
-    }
+    private async processAnalysis(analysis: AIAnalysisResult, entry?: HistoryEntry): Promise<void> {
+        // Warnings and errors reported by the provider are worth interrupting the user for.
+        // Not awaited: this runs in the device's queue, which must not wait for the user to
+        // answer, least of all when the chosen action (a fix, then its verification) queues
+        // work of its own. While a report is open, later ones are skipped rather than
+        // stacked; they are still in the history and the Problems panel
+        if (analysis.issues.some(issue => issue.severity !== 'info') && !this.reportOpen) {
+            this.reportOpen = true;
+            this.reporter.issuesFound(this.deviceName, analysis, entry)
+                .catch(error => logger.error('Failed to report display issues:', error))
+                .then(() => {
+                    this.reportOpen = false;
+                });
+        }
 
-    private async generateFixSuggestions(analysis: string): Promise<void> {
-        try {
-            const code = await this.aiProvider.generateLVGLCode(
-                `Fix the issues mentioned in this analysis: ${analysis}`
-            );
-
-            const doc = await vscode.workspace.openTextDocument({
-                content: code,
-                language: 'c'
-            });
-            await vscode.window.showTextDocument(doc);
-        } catch (error) {
-            vscode.window.showErrorMessage(`Failed to generate fix: ${error}`);
+        // Check for LVGL-specific issues
+        if (getSettings().get('lvgl.enabled', true)) {
+            await this.checkLVGLIssues(analysis);
         }
     }
 
-    private async checkLVGLIssues(analysis: string): Promise<void> {
+    private async checkLVGLIssues(analysis: AIAnalysisResult): Promise<void> {
         // Check for common LVGL issues and suggest fixes
         const issues = [];
+        const text = [
+            ...analysis.issues.map(issue => issue.description),
+            ...analysis.suggestions
+        ].join('\n').toLowerCase();
         
-        if (analysis.includes('memory')) {
+        if (text.includes('memory')) {
             issues.push('Consider optimizing memory usage with lv_mem_monitor()');
         }
         
-        if (analysis.includes('performance')) {
+        if (text.includes('performance')) {
             issues.push('Consider using lv_task instead of delays for better performance');
         }
         
-        if (analysis.includes('style')) {
+        if (text.includes('style')) {
             issues.push('Use lv_style_t objects for consistent styling');
         }
 
         if (issues.length > 0) {
-            const message = `LVGL optimization suggestions: ${issues.join(', ')}`;
-            vscode.window.showInformationMessage(message);
+            this.reporter.info(`LVGL optimization suggestions: ${issues.join(', ')}`);
         }
     }
 
-    private notifyAnalysisUpdate(analysis: string): void {
-        // This would notify the webview panels about new analysis
-        // Implementation depends on webview setup
-        vscode.commands.executeCommand('double-vision.updateAnalysis', analysis);
-    }
-
-    public getAnalysisHistory(): string[] {
-        return [...this.analysisHistory];
+    /**
+     * The device's current widget tree for analysis prompts, if enabled and the
+     * firmware provides one.
+     */
+    public async getWidgetTree(): Promise<WidgetTree | undefined> {
+        if (!this.widgets || !getSettings().get('widgetTree.enabled', true)) {
+            return undefined;
+        }
+        return this.widgets.getRecent(WIDGET_TREE_MAX_AGE);
     }
 
     public getLastSnapshot(): CameraSnapshot | undefined {
         return this.lastSnapshot;
     }
 
+    /**
+     * Number of frames skipped as unchanged since monitoring started.
+     */
+    public getSkippedFrameCount(): number {
+        return this.skippedFrames;
+    }
+
+    /**
+     * Number of frames not analyzed since monitoring started because they came too
+     * soon after the last analysis or while analysis was still busy.
+     */
+    public getDroppedFrameCount(): number {
+        return this.droppedFrames;
+    }
+
     public isActive(): boolean {
         return this.isMonitoring;
     }
+
+    public dispose(): void {
+        this.stop();
+        this._onDidChangeActive.dispose();
+    }
 }
\ No newline at end of file
@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { getSettings } from './settings';
+import { logger } from './logger';
+
+/**
+ * - `analysis`: what the model looks for in a display frame
+ * - `codeGeneration`: the requirements LVGL code is generated to
+ */
+export type PromptKind = 'analysis' | 'codeGeneration';
+
+export const PROMPT_KINDS: PromptKind[] = ['analysis', 'codeGeneration'];
+
+export const DEFAULT_PROMPTS_FOLDER = '.double-vision/prompts';
+
+export const DEFAULT_BOARD = 'ESP32';
+export const DEFAULT_LVGL_VERSION = '8.x';
+
+/**
+ * Built-in templates, used while `doubleVision.prompts.<kind>` is empty. The
+ * response format is not part of a template: the dispatcher adds it, since
+ * results can only be parsed in the format it asks for.
+ */
+export const BUILT_IN_TEMPLATES: Record<PromptKind, string> = {
+    analysis: 'Analyze this {{board}} display output. Describe what you see, list any visual issues ' +
+        '(clipped or overlapping widgets, misalignment, unreadable text, rendering artifacts) with a severity of ' +
+        '"info", "warning" or "error", and provide suggestions for improving the graphical interface, especially for ' +
+        'LVGL {{lvglVersion}} development.',
+    codeGeneration: 'The code should be compatible with {{board}} and use LVGL version {{lvglVersion}}. ' +
+        'Include proper initialization and styling.'
+};
+
+/**
+ * Values templates refer to as `{{name}}`. A missing value renders as the fallback
+ * given in `{{name|fallback}}`, or as "unknown".
+ */
+export interface PromptVariables {
+    displayWidth?: number;
+    displayHeight?: number;
+    board?: string;
+    lvglVersion?: string;
+    /** Workspace-relative path of the file open in the editor */
+    activeFile?: string;
+    /** Name of the active screen, as reported by the firmware's widget tree */
+    screenName?: string;
+}
+
+/** Every variable with what it holds, for documentation and new templates */
+export const PROMPT_VARIABLE_DESCRIPTIONS: Record<string, string> = {
+    displayWidth: 'display width in pixels',
+    displayHeight: 'display height in pixels',
+    resolution: 'display resolution, e.g. 320x240',
+    board: '`doubleVision.project.board`',
+    lvglVersion: '`doubleVision.lvgl.version`',
+    activeFile: 'workspace-relative path of the file open in the editor',
+    screenName: 'active screen name reported by the firmware'
+};
+
+export interface PromptTemplate {
+    /** File name without the `.md` extension, as set in `doubleVision.prompts.<kind>` */
+    name: string;
+    kind: PromptKind;
+    description: string;
+    body: string;
+    filePath: string;
+}
+
+/*
+ * A template is a markdown file in the prompts folder, with optional front matter:
+ *
+ *   ---
+ *   kind: analysis
+ *   description: Brand colours and minimum font sizes
+ *   ---
+ *   Check this {{resolution}} {{board}} display showing the {{screenName|current}} screen ...
+ *
+ * `kind` defaults to `analysis`.
+ */
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g;
+
+export function parsePromptTemplate(filePath: string, text: string): PromptTemplate {
+    const match = FRONT_MATTER_PATTERN.exec(text);
+    const meta = match ? yaml.load(match[1]) ?? {} : {};
+    if (typeof meta !== 'object' || Array.isArray(meta)) {
+        throw new Error(`${path.basename(filePath)}: front matter must be a mapping`);
+    }
+
+    const { kind = 'analysis', description = '' } = meta as Record<string, unknown>;
+    if (!PROMPT_KINDS.includes(kind as PromptKind)) {
+        throw new Error(`${path.basename(filePath)}: kind must be one of ${PROMPT_KINDS.join(', ')}`);
+    }
+    const body = text.slice(match ? match[0].length : 0).trim();
+    if (!body) {
+        throw new Error(`${path.basename(filePath)}: the template is empty`);
+    }
+
+    return {
+        name: path.basename(filePath, '.md'),
+        kind: kind as PromptKind,
+        description: String(description),
+        body,
+        filePath
+    };
+}
+
+/**
+ * Content for a new template: the built-in one of its kind, with the variables
+ * listed in comments in the front matter, which are not sent to the model.
+ */
+export function newTemplateContent(kind: PromptKind, description: string): string {
+    const variables = Object.entries(PROMPT_VARIABLE_DESCRIPTIONS)
+        .map(([name, meaning]) => `#   {{${name}}}: ${meaning}`);
+    return [
+        '---',
+        `kind: ${kind}`,
+        `description: ${JSON.stringify(description)}`,
+        '# Variables, also as {{name|fallback}} for when a value is unknown:',
+        ...variables,
+        '---',
+        BUILT_IN_TEMPLATES[kind],
+        ''
+    ].join('\n');
+}
+
+/**
+ * Replaces `{{name}}` and `{{name|fallback}}` with the variables' values. Names
+ * that are not variables are left as they are, so a typo shows up in the prompt.
+ */
+export function renderTemplate(body: string, variables: PromptVariables): string {
+    const values: Record<string, string | number | undefined> = {
+        ...variables,
+        resolution: variables.displayWidth && variables.displayHeight
+            ? `${variables.displayWidth}x${variables.displayHeight}`
+            : undefined
+    };
+    return body.replace(VARIABLE_PATTERN, (placeholder, name: string, fallback?: string) => {
+        if (!(name in PROMPT_VARIABLE_DESCRIPTIONS)) {
+            return placeholder;
+        }
+        const value = values[name];
+        return value !== undefined && value !== '' ? String(value) : (fallback?.trim() || 'unknown');
+    });
+}
+
+/**
+ * The workspace's prompt templates and the one selected for each kind. Files are
+ * read on every request, so edits apply to the next analysis.
+ */
+export class PromptTemplates {
+    constructor(
+        private readonly getDirectory: () => string | undefined = () => undefined,
+        /** Variables only the editor knows, such as the active file */
+        private readonly getContext: () => PromptVariables = () => ({})
+    ) {}
+
+    public get directory(): string | undefined {
+        return this.getDirectory();
+    }
+
+    /**
+     * Templates in the prompts folder by name; files that do not parse are skipped.
+     */
+    public async list(): Promise<PromptTemplate[]> {
+        const directory = this.getDirectory();
+        if (!directory) {
+            return [];
+        }
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(directory);
+        } catch {
+            return [];
+        }
+
+        const templates: PromptTemplate[] = [];
+        for (const file of files.filter(f => f.endsWith('.md')).sort()) {
+            try {
+                templates.push(await this.read(path.join(directory, file)));
+            } catch (error) {
+                logger.error(`Skipping prompt template ${file}:`, error);
+            }
+        }
+        return templates;
+    }
+
+    /**
+     * The template selected in `doubleVision.prompts.<kind>`, or undefined for the
+     * built-in one.
+     */
+    public async getActive(kind: PromptKind): Promise<PromptTemplate | undefined> {
+        const name = getSettings().get(`prompts.${kind}`, '');
+        if (!name) {
+            return undefined;
+        }
+
+        const directory = this.getDirectory();
+        if (!directory) {
+            throw new Error(`Prompt template "${name}" is selected but there is no prompts folder`);
+        }
+        let template: PromptTemplate;
+        try {
+            template = await this.read(path.join(directory, `${name}.md`));
+        } catch (error) {
+            throw new Error(`Cannot read prompt template "${name}": ${error instanceof Error ? error.message : error}`);
+        }
+        if (template.kind !== kind) {
+            throw new Error(`Prompt template "${name}" has kind ${template.kind}, not ${kind}`);
+        }
+        return template;
+    }
+
+    /**
+     * Fills in the project settings and editor context behind the given variables.
+     */
+    public resolveVariables(variables: PromptVariables = {}): PromptVariables & { board: string; lvglVersion: string } {
+        const config = getSettings();
+        return {
+            ...this.getContext(),
+            ...variables,
+            board: variables.board || config.get('project.board', DEFAULT_BOARD) || DEFAULT_BOARD,
+            lvglVersion: variables.lvglVersion || config.get('lvgl.version', DEFAULT_LVGL_VERSION) || DEFAULT_LVGL_VERSION
+        };
+    }
+
+    /**
+     * The active template of a kind, rendered with the resolved variables.
+     */
+    public async render(kind: PromptKind, variables: PromptVariables = {}): Promise<string> {
+        const template = await this.getActive(kind);
+        return renderTemplate(template?.body ?? BUILT_IN_TEMPLATES[kind], this.resolveVariables(variables));
+    }
+
+    private async read(filePath: string): Promise<PromptTemplate> {
+        return parsePromptTemplate(filePath, await fs.promises.readFile(filePath, 'utf8'));
+    }
+}
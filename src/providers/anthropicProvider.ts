@@ -0,0 +1,168 @@
+import axios from 'axios';
+import { AIAnalysisResult, ANALYSIS_JSON_SCHEMA, normalizeAnalysisResult, parseAnalysisResult } from '../analysisResult';
+import { LVGLCodeResult, parseCodeResponse } from '../codeGeneration';
+import { postEventStream } from './eventStream';
+import { emptyResponseError, ProviderError, toProviderError } from './providerError';
+import { ChatMessage, DEFAULT_MAX_TOKENS, ProviderImage, ProviderOptions, VisionProvider } from './visionProvider';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-5';
+
+export class AnthropicProvider implements VisionProvider {
+    public readonly id = 'anthropic';
+    public readonly displayName = 'Anthropic';
+    public readonly requiresApiKey = true;
+
+    public async analyzeImage(image: ProviderImage, prompt: string, options: ProviderOptions): Promise<AIAnalysisResult> {
+        // Anthropic has no response schema option, so a forced tool call carries the structured result
+        const content = await this.createMessage(options, [
+            {
+                type: 'text',
+                text: prompt
+            },
+            this.toImagePart(image)
+        ], {
+            tools: [
+                {
+                    name: 'report_display_analysis',
+                    description: 'Report the structured analysis of the display image',
+                    input_schema: ANALYSIS_JSON_SCHEMA
+                }
+            ],
+            tool_choice: { type: 'tool', name: 'report_display_analysis' }
+        });
+
+        const toolUse = content.find(block => block.type === 'tool_use');
+        if (toolUse) {
+            return normalizeAnalysisResult(toolUse.input);
+        }
+        return parseAnalysisResult(this.joinText(content));
+    }
+
+    public async generateCode(prompt: string, image: ProviderImage | undefined, options: ProviderOptions): Promise<LVGLCodeResult> {
+        const parts: any[] = [];
+        if (image) {
+            parts.push(this.toImagePart(image));
+        }
+        parts.push({ type: 'text', text: prompt });
+
+        const content = await this.createMessage(options, parts, {});
+        return parseCodeResponse(this.joinText(content));
+    }
+
+    public async chat(system: string, messages: ChatMessage[], options: ProviderOptions, onText: (delta: string) => void): Promise<string> {
+        const headers = this.createHeaders(options);
+        let text = '';
+        let model = options.model || DEFAULT_MODEL;
+        let inputTokens = 0;
+        let stopReason: string | undefined;
+
+        try {
+            await postEventStream(`${this.getBaseUrl(options)}/messages`, {
+                model,
+                max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+                system,
+                messages: messages.map(message => ({
+                    role: message.role,
+                    content: message.image
+                        ? [this.toImagePart(message.image), { type: 'text', text: message.text }]
+                        : message.text
+                })),
+                stream: true
+            }, headers, (data, event) => {
+                const payload = JSON.parse(data);
+                if (event === 'message_start') {
+                    model = payload.message?.model ?? model;
+                    inputTokens = payload.message?.usage?.input_tokens ?? 0;
+                } else if (event === 'content_block_delta' && payload.delta?.type === 'text_delta') {
+                    text += payload.delta.text;
+                    onText(payload.delta.text);
+                } else if (event === 'message_delta') {
+                    stopReason = payload.delta?.stop_reason ?? stopReason;
+                    if (payload.usage) {
+                        options.onUsage?.({ model, inputTokens, outputTokens: payload.usage.output_tokens ?? 0 });
+                    }
+                } else if (event === 'error') {
+                    // Errors after the response has started, such as overloaded_error, arrive in the stream
+                    const kind = payload.error?.type === 'rate_limit_error' ? 'rateLimit' : 'transient';
+                    throw new ProviderError(kind, this.id, `Anthropic API error: ${payload.error?.message ?? data}`);
+                }
+            });
+        } catch (error) {
+            throw toProviderError(this.id, this.displayName, error);
+        }
+        if (!text.trim()) {
+            throw emptyResponseError(this.id, this.displayName, stopReason && `stop reason ${stopReason}`);
+        }
+        return text;
+    }
+
+    private async createMessage(options: ProviderOptions, content: any[], extra: object): Promise<any[]> {
+        const headers = this.createHeaders(options);
+
+        try {
+            const response = await axios.post(`${this.getBaseUrl(options)}/messages`, {
+                model: options.model || DEFAULT_MODEL,
+                max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+                messages: [
+                    {
+                        role: 'user',
+                        content
+                    }
+                ],
+                ...extra
+            }, {
+                headers
+            });
+
+            if (response.data.usage) {
+                options.onUsage?.({
+                    model: response.data.model ?? options.model ?? DEFAULT_MODEL,
+                    inputTokens: response.data.usage.input_tokens ?? 0,
+                    outputTokens: response.data.usage.output_tokens ?? 0
+                });
+            }
+            // A refusal ends the message before any content
+            const blocks = response.data?.content;
+            if (!Array.isArray(blocks) || blocks.length === 0) {
+                const stopReason = response.data?.stop_reason;
+                throw emptyResponseError(this.id, this.displayName, stopReason && `stop reason ${stopReason}`);
+            }
+            return blocks;
+        } catch (error) {
+            throw toProviderError(this.id, this.displayName, error);
+        }
+    }
+
+    private createHeaders(options: ProviderOptions): Record<string, string> {
+        if (!options.apiKey) {
+            throw new ProviderError('auth', this.id, 'Anthropic API key not configured');
+        }
+        return {
+            'x-api-key': options.apiKey,
+            'anthropic-version': '2023-06-01',
+            'Content-Type': 'application/json'
+        };
+    }
+
+    private getBaseUrl(options: ProviderOptions): string {
+        return (options.baseUrl || 'https://api.anthropic.com/v1').replace(/\/+$/, '');
+    }
+
+    private toImagePart(image: ProviderImage): object {
+        return {
+            type: 'image',
+            source: {
+                type: 'base64',
+                media_type: image.mimeType,
+                data: image.base64
+            }
+        };
+    }
+
+    private joinText(content: any[]): string {
+        return content
+            .filter(block => block.type === 'text')
+            .map(block => block.text)
+            .join('\n');
+    }
+}
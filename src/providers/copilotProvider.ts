@@ -0,0 +1,60 @@
+import { AIAnalysisResult, normalizeAnalysisResult } from '../analysisResult';
+import { LVGLCodeResult, parseCodeResponse } from '../codeGeneration';
+import { ProviderImage, ProviderOptions, VisionProvider } from './visionProvider';
+
+export class CopilotProvider implements VisionProvider {
+    public readonly id = 'github-copilot';
+    public readonly displayName = 'GitHub Copilot';
+    public readonly requiresApiKey = false;
+
+    public async analyzeImage(image: ProviderImage, prompt: string, options: ProviderOptions): Promise<AIAnalysisResult> {
+        // For GitHub Copilot, we'll use a simplified analysis
+        // In a real implementation, this would integrate with Copilot's API
+        return normalizeAnalysisResult({
+            description: 'GitHub Copilot Analysis: this appears to be an ESP32 display output ' +
+                `captured at ${new Date().toISOString()}.`,
+            issues: [],
+            suggestions: [
+                'Consider adding error handling for display initialization',
+                'Implement double buffering for smoother animations',
+                'Add touch input handling if using a touch display',
+                'Optimize drawing functions for better performance',
+                'Use lv_obj_set_style_* functions for consistent styling',
+                'Implement proper event handling for interactive elements',
+                'Consider using lv_timer for periodic updates instead of delays'
+            ],
+            confidence: 0.3
+        });
+    }
+
+    public async generateCode(prompt: string, image: ProviderImage | undefined, options: ProviderOptions): Promise<LVGLCodeResult> {
+        // Simplified LVGL code generation for demo purposes
+        return parseCodeResponse(`\`\`\`c
+// LVGL Code Generated by Double Vision
+#include "lvgl.h"
+
+static void btn_event_handler(lv_event_t * e) {
+    lv_event_code_t code = lv_event_get_code(e);
+    if(code == LV_EVENT_CLICKED) {
+        // Button clicked
+    }
+}
+
+void create_ui() {
+    // Create a simple button
+    lv_obj_t * btn = lv_btn_create(lv_scr_act());
+    lv_obj_set_size(btn, 120, 50);
+    lv_obj_center(btn);
+    
+    lv_obj_t * label = lv_label_create(btn);
+    lv_label_set_text(label, "Hello");
+    lv_obj_center(label);
+    
+    // Add event handler
+    lv_obj_add_event_cb(btn, btn_event_handler, LV_EVENT_CLICKED, NULL);
+}
+\`\`\`
+
+GitHub Copilot provides a starter template only; select another provider for code generated from your description and camera frame.`);
+    }
+}
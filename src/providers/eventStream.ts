@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * Posts a request whose response is a server-sent event stream, as the providers'
+ * streaming APIs answer, and passes each event's data to `onEvent` as it arrives.
+ * Resolves once the stream ends.
+ */
+export async function postEventStream(
+    url: string,
+    body: object,
+    headers: Record<string, string>,
+    onEvent: (data: string, event: string) => void
+): Promise<void> {
+    let response;
+    try {
+        response = await axios.post(url, body, { headers, responseType: 'stream' });
+    } catch (error) {
+        // With a streamed response type the error body is a stream too; read it so the
+        // error can be classified and its message shown
+        const errorResponse = axios.isAxiosError(error) ? error.response : undefined;
+        if (errorResponse && typeof errorResponse.data?.on === 'function') {
+            const text = await readAll(errorResponse.data);
+            try {
+                errorResponse.data = JSON.parse(text);
+            } catch {
+                errorResponse.data = text;
+            }
+        }
+        throw error;
+    }
+    await readEventStream(response.data, onEvent);
+}
+
+/**
+ * Splits a stream into server-sent events: `event:` names the event, `data:` lines
+ * are joined with newlines, and a blank line ends the event.
+ */
+export async function readEventStream(
+    stream: AsyncIterable<Buffer | string>,
+    onEvent: (data: string, event: string) => void
+): Promise<void> {
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    let event = '';
+    let data: string[] = [];
+
+    const dispatch = () => {
+        if (data.length > 0) {
+            onEvent(data.join('\n'), event || 'message');
+        }
+        event = '';
+        data = [];
+    };
+
+    const processLines = (final: boolean) => {
+        const lines = buffer.split(/\r?\n/);
+        buffer = final ? '' : lines.pop()!;
+        for (const line of lines) {
+            if (line === '') {
+                dispatch();
+            } else if (line.startsWith('data:')) {
+                data.push(line.slice(5).replace(/^ /, ''));
+            } else if (line.startsWith('event:')) {
+                event = line.slice(6).trim();
+            }
+            // Comments (`:`), ids and retry hints are of no use here
+        }
+    };
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+        processLines(false);
+    }
+    buffer += decoder.end();
+    processLines(true);
+    dispatch();
+}
+
+async function readAll(stream: AsyncIterable<Buffer | string>): Promise<string> {
+    const chunks: string[] = [];
+    for await (const chunk of stream) {
+        chunks.push(chunk.toString());
+    }
+    return chunks.join('');
+}
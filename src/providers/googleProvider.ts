@@ -0,0 +1,180 @@
+import axios from 'axios';
+import { AIAnalysisResult, ANALYSIS_JSON_SCHEMA, parseAnalysisResult } from '../analysisResult';
+import { LVGLCodeResult, parseCodeResponse } from '../codeGeneration';
+import { postEventStream } from './eventStream';
+import { emptyResponseError, ProviderError, toProviderError } from './providerError';
+import { ChatMessage, DEFAULT_MAX_TOKENS, ProviderImage, ProviderOptions, TokenUsage, VisionProvider } from './visionProvider';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export class GoogleProvider implements VisionProvider {
+    public readonly id = 'google';
+    public readonly displayName = 'Google Gemini';
+    public readonly requiresApiKey = true;
+
+    public async analyzeImage(image: ProviderImage, prompt: string, options: ProviderOptions): Promise<AIAnalysisResult> {
+        const text = await this.generateContent(options, [
+            {
+                text: prompt
+            },
+            this.toImagePart(image)
+        ], {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(ANALYSIS_JSON_SCHEMA)
+        });
+
+        return parseAnalysisResult(text);
+    }
+
+    public async generateCode(prompt: string, image: ProviderImage | undefined, options: ProviderOptions): Promise<LVGLCodeResult> {
+        const parts: any[] = [{ text: prompt }];
+        if (image) {
+            parts.push(this.toImagePart(image));
+        }
+
+        return parseCodeResponse(await this.generateContent(options, parts, {}));
+    }
+
+    public async chat(system: string, messages: ChatMessage[], options: ProviderOptions, onText: (delta: string) => void): Promise<string> {
+        if (!options.apiKey) {
+            throw new ProviderError('auth', this.id, 'Google API key not configured');
+        }
+
+        const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        const model = options.model || DEFAULT_MODEL;
+        let text = '';
+        let usage: TokenUsage | undefined;
+        let blocked: string | undefined;
+
+        try {
+            await postEventStream(`${baseUrl}/models/${model}:streamGenerateContent?alt=sse&key=${options.apiKey}`, {
+                systemInstruction: { parts: [{ text: system }] },
+                contents: messages.map(message => ({
+                    role: message.role === 'assistant' ? 'model' : 'user',
+                    parts: message.image ? [{ text: message.text }, this.toImagePart(message.image)] : [{ text: message.text }]
+                })),
+                generationConfig: {
+                    maxOutputTokens: options.maxTokens || DEFAULT_MAX_TOKENS
+                }
+            }, { 'Content-Type': 'application/json' }, data => {
+                const chunk = JSON.parse(data);
+                blocked = blockReason(chunk) ?? blocked;
+                const delta = ((chunk.candidates?.[0]?.content?.parts ?? []) as any[])
+                    .filter(part => !part.thought)
+                    .map(part => part.text || '')
+                    .join('');
+                if (delta) {
+                    text += delta;
+                    onText(delta);
+                }
+                // Every chunk carries the running totals; the last one counts
+                if (chunk.usageMetadata) {
+                    usage = toTokenUsage(chunk.modelVersion ?? model, chunk.usageMetadata);
+                }
+            });
+        } catch (error) {
+            throw toProviderError(this.id, 'Google', error);
+        }
+        if (usage) {
+            options.onUsage?.(usage);
+        }
+        if (!text.trim()) {
+            throw emptyResponseError(this.id, 'Google', blocked);
+        }
+        return text;
+    }
+
+    private async generateContent(options: ProviderOptions, parts: any[], generationConfig: object): Promise<string> {
+        if (!options.apiKey) {
+            throw new ProviderError('auth', this.id, 'Google API key not configured');
+        }
+
+        const baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        const model = options.model || DEFAULT_MODEL;
+
+        try {
+            const response = await axios.post(`${baseUrl}/models/${model}:generateContent?key=${options.apiKey}`, {
+                contents: [
+                    {
+                        parts
+                    }
+                ],
+                generationConfig: {
+                    maxOutputTokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+                    ...generationConfig
+                }
+            }, {
+                headers: {
+                    'Content-Type': 'application/json'
+                }
+            });
+
+            if (response.data.usageMetadata) {
+                options.onUsage?.(toTokenUsage(response.data.modelVersion ?? model, response.data.usageMetadata));
+            }
+            // A blocked prompt has no candidates, a blocked answer no parts
+            const answer = response.data?.candidates?.[0]?.content?.parts;
+            const text = Array.isArray(answer) ? answer.map(part => part.text || '').join('') : '';
+            if (!text.trim()) {
+                throw emptyResponseError(this.id, 'Google', blockReason(response.data));
+            }
+            return text;
+        } catch (error) {
+            throw toProviderError(this.id, 'Google', error);
+        }
+    }
+
+    private toImagePart(image: ProviderImage): object {
+        return {
+            inline_data: {
+                mime_type: image.mimeType,
+                data: image.base64
+            }
+        };
+    }
+}
+
+/**
+ * Why Gemini withheld content: the prompt's block reason, or a finish reason other
+ * than a normal stop, such as SAFETY.
+ */
+function blockReason(response: any): string | undefined {
+    const promptBlock = response?.promptFeedback?.blockReason;
+    if (promptBlock) {
+        return `prompt blocked: ${promptBlock}`;
+    }
+    const finishReason = response?.candidates?.[0]?.finishReason;
+    return finishReason && finishReason !== 'STOP' ? `finish reason ${finishReason}` : undefined;
+}
+
+function toTokenUsage(model: string, usage: any): TokenUsage {
+    return {
+        model,
+        inputTokens: usage.promptTokenCount ?? 0,
+        // Thinking models bill their reasoning as output
+        outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+    };
+}
+
+/**
+ * Gemini accepts an OpenAPI subset for response schemas: upper-case type names and
+ * no additionalProperties.
+ */
+function toGeminiSchema(schema: any): any {
+    if (Array.isArray(schema)) {
+        return schema.map(toGeminiSchema);
+    }
+    if (typeof schema !== 'object' || schema === null) {
+        return schema;
+    }
+
+    const converted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(schema)) {
+        if (key === 'additionalProperties') {
+            continue;
+        }
+        converted[key] = key === 'type' && typeof value === 'string' ? value.toUpperCase() : toGeminiSchema(value);
+    }
+    return converted;
+}
@@ -0,0 +1,13 @@
+import { OpenAIProvider } from './openaiProvider';
+
+/**
+ * Any self-hosted server exposing the OpenAI chat completions API, such as
+ * llama.cpp, Ollama or vLLM. Display captures never leave the configured host.
+ */
+export class LocalProvider extends OpenAIProvider {
+    public readonly id = 'local';
+    public readonly displayName = 'Local (OpenAI-compatible)';
+    public readonly requiresApiKey = false;
+    protected readonly defaultBaseUrl = 'http://localhost:11434/v1';
+    protected readonly defaultModel = 'llava';
+}
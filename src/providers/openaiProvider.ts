@@ -0,0 +1,164 @@
+import axios from 'axios';
+import { AIAnalysisResult, ANALYSIS_JSON_SCHEMA, parseAnalysisResult } from '../analysisResult';
+import { LVGLCodeResult, parseCodeResponse } from '../codeGeneration';
+import { postEventStream } from './eventStream';
+import { emptyResponseError, ProviderError, toProviderError } from './providerError';
+import { ChatMessage, DEFAULT_MAX_TOKENS, ProviderImage, ProviderOptions, VisionProvider } from './visionProvider';
+
+/**
+ * OpenAI chat completions. Also the base for any backend that speaks the same API.
+ */
+export class OpenAIProvider implements VisionProvider {
+    public readonly id: string = 'openai';
+    public readonly displayName: string = 'OpenAI';
+    public readonly requiresApiKey: boolean = true;
+    protected readonly defaultBaseUrl: string = 'https://api.openai.com/v1';
+    protected readonly defaultModel: string = 'gpt-4o';
+
+    public async analyzeImage(image: ProviderImage, prompt: string, options: ProviderOptions): Promise<AIAnalysisResult> {
+        const content = await this.createChatCompletion(options, [
+            {
+                type: 'text',
+                text: prompt
+            },
+            this.toImagePart(image)
+        ], {
+            response_format: {
+                type: 'json_schema',
+                json_schema: {
+                    name: 'display_analysis',
+                    strict: true,
+                    schema: ANALYSIS_JSON_SCHEMA
+                }
+            },
+            max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS
+        });
+
+        return parseAnalysisResult(content);
+    }
+
+    public async generateCode(prompt: string, image: ProviderImage | undefined, options: ProviderOptions): Promise<LVGLCodeResult> {
+        const parts: any[] = [{ type: 'text', text: prompt }];
+        if (image) {
+            parts.push(this.toImagePart(image));
+        }
+
+        const content = await this.createChatCompletion(options, parts, { max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS });
+        return parseCodeResponse(content);
+    }
+
+    public async chat(system: string, messages: ChatMessage[], options: ProviderOptions, onText: (delta: string) => void): Promise<string> {
+        const headers = this.createHeaders(options);
+        let text = '';
+        let model = options.model || this.defaultModel;
+        let finishReason: string | undefined;
+
+        try {
+            await postEventStream(`${this.getBaseUrl(options)}/chat/completions`, {
+                model,
+                messages: [
+                    { role: 'system', content: system },
+                    ...messages.map(message => ({
+                        role: message.role,
+                        content: message.image
+                            ? [{ type: 'text', text: message.text }, this.toImagePart(message.image)]
+                            : message.text
+                    }))
+                ],
+                max_tokens: options.maxTokens || DEFAULT_MAX_TOKENS,
+                stream: true,
+                // The last chunk then carries the usage, which streams otherwise leave out
+                stream_options: { include_usage: true }
+            }, headers, data => {
+                if (data === '[DONE]') {
+                    return;
+                }
+                const chunk = JSON.parse(data);
+                model = chunk.model ?? model;
+                finishReason = chunk.choices?.[0]?.finish_reason ?? finishReason;
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    text += delta;
+                    onText(delta);
+                }
+                if (chunk.usage) {
+                    options.onUsage?.({
+                        model,
+                        inputTokens: chunk.usage.prompt_tokens ?? 0,
+                        outputTokens: chunk.usage.completion_tokens ?? 0
+                    });
+                }
+            });
+        } catch (error) {
+            throw toProviderError(this.id, this.displayName, error);
+        }
+        if (!text.trim()) {
+            throw emptyResponseError(this.id, this.displayName, finishReason && `finish reason ${finishReason}`);
+        }
+        return text;
+    }
+
+    private async createChatCompletion(options: ProviderOptions, content: any[], extra: object): Promise<string> {
+        const headers = this.createHeaders(options);
+
+        try {
+            const response = await axios.post(`${this.getBaseUrl(options)}/chat/completions`, {
+                model: options.model || this.defaultModel,
+                messages: [
+                    {
+                        role: 'user',
+                        content
+                    }
+                ],
+                ...extra
+            }, {
+                headers
+            });
+
+            if (response.data.usage) {
+                options.onUsage?.({
+                    model: response.data.model ?? options.model ?? this.defaultModel,
+                    inputTokens: response.data.usage.prompt_tokens ?? 0,
+                    outputTokens: response.data.usage.completion_tokens ?? 0
+                });
+            }
+            // A refusal or content filter leaves the message without content
+            const choice = response.data?.choices?.[0];
+            const reply = choice?.message?.content;
+            if (typeof reply !== 'string' || !reply.trim()) {
+                throw emptyResponseError(this.id, this.displayName,
+                    choice?.message?.refusal ?? (choice?.finish_reason && `finish reason ${choice.finish_reason}`));
+            }
+            return reply;
+        } catch (error) {
+            throw toProviderError(this.id, this.displayName, error);
+        }
+    }
+
+    private createHeaders(options: ProviderOptions): Record<string, string> {
+        if (this.requiresApiKey && !options.apiKey) {
+            throw new ProviderError('auth', this.id, `${this.displayName} API key not configured`);
+        }
+
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json'
+        };
+        if (options.apiKey) {
+            headers['Authorization'] = `Bearer ${options.apiKey}`;
+        }
+        return headers;
+    }
+
+    private getBaseUrl(options: ProviderOptions): string {
+        return (options.baseUrl || this.defaultBaseUrl).replace(/\/+$/, '');
+    }
+
+    private toImagePart(image: ProviderImage): object {
+        return {
+            type: 'image_url',
+            image_url: {
+                url: `data:${image.mimeType};base64,${image.base64}`
+            }
+        };
+    }
+}
@@ -0,0 +1,147 @@
+import axios from 'axios';
+
+/**
+ * What went wrong with a provider request, which decides what to do next:
+ * transient failures and rate limits are worth retrying, the others are not.
+ */
+export type ProviderErrorKind =
+    /** Missing, invalid or unauthorized API key */
+    | 'auth'
+    /** Too many requests; clears after a short wait */
+    | 'rateLimit'
+    /** Credit or billing quota used up; does not clear by waiting */
+    | 'quota'
+    /** Network failure, timeout, overload or server error */
+    | 'transient'
+    /** The provider rejected the request itself, e.g. an unknown model */
+    | 'badRequest'
+    /**
+     * The provider answered without usable content, e.g. a reply blocked by a safety
+     * filter; asking again gets the same answer, and is charged for again
+     */
+    | 'invalidResponse';
+
+export class ProviderError extends Error {
+    constructor(
+        public readonly kind: ProviderErrorKind,
+        public readonly providerId: string,
+        message: string,
+        /** HTTP status, when the provider answered */
+        public readonly status?: number,
+        /** Wait the provider asked for before retrying, in milliseconds */
+        public readonly retryAfter?: number
+    ) {
+        super(message);
+        this.name = 'ProviderError';
+    }
+
+    public get retryable(): boolean {
+        return this.kind === 'transient' || this.kind === 'rateLimit';
+    }
+}
+
+const KIND_LABELS: Record<ProviderErrorKind, string> = {
+    auth: 'authentication failed',
+    rateLimit: 'rate limited',
+    quota: 'quota exceeded',
+    transient: 'temporarily unavailable',
+    badRequest: 'request rejected',
+    invalidResponse: 'empty or invalid response'
+};
+
+/**
+ * Classifies a failed provider request. HTTP errors are classified by status and
+ * the error body; network failures without a response (refused, reset, timed out)
+ * are transient. Anything else went wrong reading the response, so it is invalid.
+ */
+export function toProviderError(providerId: string, displayName: string, error: unknown): ProviderError {
+    if (error instanceof ProviderError) {
+        return error;
+    }
+    if (!axios.isAxiosError(error)) {
+        // A connection dropped while a streamed response is read fails with a system error code
+        const kind = typeof (error as NodeJS.ErrnoException)?.code === 'string' ? 'transient' : 'invalidResponse';
+        return new ProviderError(kind, providerId, `${displayName} API error (${KIND_LABELS[kind]}): ${error}`);
+    }
+
+    const status = error.response?.status;
+    const detail = describeErrorBody(error.response?.data) || error.message;
+    const kind = classify(status, error.response?.data, detail);
+    return new ProviderError(
+        kind,
+        providerId,
+        `${displayName} API error (${KIND_LABELS[kind]}${status ? `, HTTP ${status}` : ''}): ${detail}`,
+        status,
+        readRetryAfter(error.response?.headers, error.response?.data)
+    );
+}
+
+/**
+ * A response without content, such as a reply a safety filter blocked. `reason`
+ * is what the provider gave for it, if anything.
+ */
+export function emptyResponseError(providerId: string, displayName: string, reason?: string): ProviderError {
+    return new ProviderError('invalidResponse', providerId,
+        `${displayName} returned an empty or blocked response${reason ? ` (${reason})` : ''}`);
+}
+
+function classify(status: number | undefined, body: any, detail: string): ProviderErrorKind {
+    if (status === undefined) {
+        return 'transient';
+    }
+    // OpenAI reports an empty balance as a 429 with this code, Anthropic as a 400
+    // about the credit balance, and some gateways use 402
+    const code = body?.error?.code ?? body?.error?.type;
+    if (status === 402 || code === 'insufficient_quota' || /credit balance|billing/i.test(detail)) {
+        return 'quota';
+    }
+    if (status === 401 || status === 403) {
+        return 'auth';
+    }
+    if (status === 429) {
+        return 'rateLimit';
+    }
+    // 529 is Anthropic's "overloaded"
+    if (status === 408 || status >= 500) {
+        return 'transient';
+    }
+    return 'badRequest';
+}
+
+// The providers' error bodies: { error: { message } } for OpenAI, Anthropic and
+// Gemini alike, sometimes a bare string from proxies
+function describeErrorBody(body: any): string | undefined {
+    if (typeof body === 'string') {
+        return body.trim().slice(0, 300) || undefined;
+    }
+    const message = body?.error?.message ?? body?.message;
+    return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Reads the wait a provider asked for: `retry-after-ms`, `retry-after` in seconds
+ * or as an HTTP date, or the RetryInfo delay in a Gemini error body.
+ */
+function readRetryAfter(headers: any, body: any): number | undefined {
+    const milliseconds = Number(headers?.['retry-after-ms']);
+    if (headers?.['retry-after-ms'] && Number.isFinite(milliseconds)) {
+        return Math.max(0, milliseconds);
+    }
+
+    const retryAfter = headers?.['retry-after'];
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.max(0, date - Date.now());
+        }
+    }
+
+    const details: any[] = Array.isArray(body?.error?.details) ? body.error.details : [];
+    const retryInfo = details.find(entry => typeof entry?.retryDelay === 'string');
+    const delay = retryInfo && /^(\d+(?:\.\d+)?)s$/.exec(retryInfo.retryDelay);
+    return delay ? Number(delay[1]) * 1000 : undefined;
+}
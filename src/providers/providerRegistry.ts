@@ -0,0 +1,32 @@
+import { VisionProvider } from './visionProvider';
+
+export class ProviderRegistry {
+    private providers = new Map<string, VisionProvider>();
+
+    /**
+     * Registers a provider, replacing any provider with the same id.
+     * Disposing the returned object removes it again.
+     */
+    public register(provider: VisionProvider): { dispose(): void } {
+        this.providers.set(provider.id, provider);
+        return {
+            dispose: () => {
+                if (this.providers.get(provider.id) === provider) {
+                    this.providers.delete(provider.id);
+                }
+            }
+        };
+    }
+
+    public get(id: string): VisionProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    public has(id: string): boolean {
+        return this.providers.has(id);
+    }
+
+    public list(): VisionProvider[] {
+        return [...this.providers.values()];
+    }
+}
@@ -0,0 +1,63 @@
+import { AIAnalysisResult } from '../analysisResult';
+import { LVGLCodeResult } from '../codeGeneration';
+
+export interface ProviderImage {
+    base64: string;
+    mimeType: string;
+}
+
+/** Response token limit when `doubleVision.ai.<provider>.maxTokens` is not set */
+export const DEFAULT_MAX_TOKENS = 2048;
+
+/**
+ * Tokens a request used, as reported in the provider's response.
+ */
+export interface TokenUsage {
+    /** Model that answered, as named in the response */
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Per-call settings resolved by the dispatcher from the user's configuration.
+ * Unset values fall back to the provider's defaults.
+ */
+export interface ProviderOptions {
+    apiKey: string;
+    model?: string;
+    baseUrl?: string;
+    /** Upper bound on the tokens of one response */
+    maxTokens?: number;
+    /** Providers call this with the usage of each response that reports one */
+    onUsage?(usage: TokenUsage): void;
+}
+
+/**
+ * One turn of a conversation. User turns may carry a camera frame.
+ */
+export interface ChatMessage {
+    role: 'user' | 'assistant';
+    text: string;
+    image?: ProviderImage;
+}
+
+/**
+ * A vision-capable AI backend. Implementations are registered with the
+ * ProviderRegistry and selected by id through `doubleVision.ai.provider`.
+ */
+export interface VisionProvider {
+    readonly id: string;
+    readonly displayName: string;
+    readonly requiresApiKey: boolean;
+
+    analyzeImage(image: ProviderImage, prompt: string, options: ProviderOptions): Promise<AIAnalysisResult>;
+    generateCode(prompt: string, image: ProviderImage | undefined, options: ProviderOptions): Promise<LVGLCodeResult>;
+
+    /**
+     * Continues a conversation, passing the reply's text to `onText` piece by piece
+     * as it streams in, and resolves with the whole reply. Optional: backends
+     * without it are skipped for chat.
+     */
+    chat?(system: string, messages: ChatMessage[], options: ProviderOptions, onText: (delta: string) => void): Promise<string>;
+}
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import { CameraSnapshot, SnapshotSource } from './cameraManager';
+import { readImageInfo } from './imageInfo';
+
+export interface RecordingMetadata {
+    deviceId: string;
+    deviceName: string;
+    startedAt: string;
+}
+
+export interface RecordedFrameInfo {
+    /** Milliseconds since the start of the recording */
+    offsetMs: number;
+    sequence: number;
+    source: SnapshotSource;
+    corrected: boolean;
+}
+
+/*
+ * Container layout (all integers big-endian):
+ *   "DVREC" | version u8 | metadata length u32 | metadata JSON
+ *   then per frame: offset ms u32 | sequence u32 | source u8 | flags u8 | reserved u16 | length u32 | image data
+ */
+const MAGIC = Buffer.from('DVREC', 'ascii');
+const VERSION = 1;
+const FILE_HEADER_SIZE = MAGIC.length + 1 + 4;
+const FRAME_HEADER_SIZE = 16;
+const FLAG_CORRECTED = 0x01;
+const SOURCES: SnapshotSource[] = ['websocket', 'http', 'replay'];
+
+export const RECORDING_EXTENSION = '.dvrec';
+
+/**
+ * Appends camera frames with their timing to a recording file.
+ */
+export class SessionRecorder {
+    private readonly stream: fs.WriteStream;
+    private readonly startTime = Date.now();
+    private frameCount = 0;
+    private byteCount = 0;
+    private error?: Error;
+
+    constructor(public readonly filePath: string, metadata: Omit<RecordingMetadata, 'startedAt'>) {
+        const json = Buffer.from(JSON.stringify({ ...metadata, startedAt: new Date(this.startTime).toISOString() }), 'utf8');
+        const header = Buffer.alloc(FILE_HEADER_SIZE);
+        MAGIC.copy(header, 0);
+        header.writeUInt8(VERSION, MAGIC.length);
+        header.writeUInt32BE(json.length, MAGIC.length + 1);
+
+        this.stream = fs.createWriteStream(filePath);
+        this.stream.on('error', error => {
+            this.error = error;
+        });
+        this.append(Buffer.concat([header, json]));
+    }
+
+    public write(snapshot: CameraSnapshot): void {
+        if (this.error) {
+            return;
+        }
+
+        const header = Buffer.alloc(FRAME_HEADER_SIZE);
+        header.writeUInt32BE(Math.max(0, snapshot.timestamp.getTime() - this.startTime), 0);
+        header.writeUInt32BE(snapshot.sequence >>> 0, 4);
+        header.writeUInt8(SOURCES.indexOf(snapshot.source), 8);
+        header.writeUInt8(snapshot.corrected ? FLAG_CORRECTED : 0, 9);
+        header.writeUInt32BE(snapshot.imageData.length, 12);
+
+        this.append(header);
+        this.append(snapshot.imageData);
+        this.frameCount++;
+    }
+
+    public getFrameCount(): number {
+        return this.frameCount;
+    }
+
+    /**
+     * Flushes and closes the file. Rejects if any write failed.
+     */
+    public close(): Promise<{ frameCount: number; byteCount: number; durationMs: number }> {
+        return new Promise((resolve, reject) => {
+            this.stream.end(() => {
+                if (this.error) {
+                    reject(this.error);
+                } else {
+                    resolve({ frameCount: this.frameCount, byteCount: this.byteCount, durationMs: Date.now() - this.startTime });
+                }
+            });
+        });
+    }
+
+    private append(data: Buffer): void {
+        this.stream.write(data);
+        this.byteCount += data.length;
+    }
+}
+
+interface FrameIndexEntry extends RecordedFrameInfo {
+    dataOffset: number;
+    length: number;
+}
+
+/**
+ * Random access to the frames of a recording. Only the frame index is kept in
+ * memory; image data is read on demand. A recording cut short, for example by a
+ * crash, is read up to its last complete frame.
+ */
+export class RecordingReader {
+    private constructor(
+        private readonly file: fs.promises.FileHandle,
+        public readonly metadata: RecordingMetadata,
+        private readonly index: FrameIndexEntry[]
+    ) {}
+
+    public static async open(filePath: string): Promise<RecordingReader> {
+        const file = await fs.promises.open(filePath, 'r');
+        try {
+            const { size } = await file.stat();
+            const header = await readAt(file, 0, FILE_HEADER_SIZE);
+            if (header.length < FILE_HEADER_SIZE || !header.subarray(0, MAGIC.length).equals(MAGIC)) {
+                throw new Error(`${filePath} is not a Double Vision recording`);
+            }
+            const version = header.readUInt8(MAGIC.length);
+            if (version !== VERSION) {
+                throw new Error(`Unsupported recording version ${version}`);
+            }
+
+            const metadataLength = header.readUInt32BE(MAGIC.length + 1);
+            const metadata = JSON.parse((await readAt(file, FILE_HEADER_SIZE, metadataLength)).toString('utf8'));
+
+            const index: FrameIndexEntry[] = [];
+            let offset = FILE_HEADER_SIZE + metadataLength;
+            while (offset + FRAME_HEADER_SIZE <= size) {
+                const frame = await readAt(file, offset, FRAME_HEADER_SIZE);
+                const length = frame.readUInt32BE(12);
+                const dataOffset = offset + FRAME_HEADER_SIZE;
+                if (dataOffset + length > size) {
+                    break;
+                }
+
+                index.push({
+                    offsetMs: frame.readUInt32BE(0),
+                    sequence: frame.readUInt32BE(4),
+                    source: SOURCES[frame.readUInt8(8)] ?? 'websocket',
+                    corrected: (frame.readUInt8(9) & FLAG_CORRECTED) !== 0,
+                    dataOffset,
+                    length
+                });
+                offset = dataOffset + length;
+            }
+
+            return new RecordingReader(file, metadata, index);
+        } catch (error) {
+            await file.close();
+            throw error;
+        }
+    }
+
+    public get frameCount(): number {
+        return this.index.length;
+    }
+
+    public get durationMs(): number {
+        return this.index.length > 0 ? this.index[this.index.length - 1].offsetMs : 0;
+    }
+
+    public getFrameInfo(index: number): RecordedFrameInfo {
+        const { offsetMs, sequence, source, corrected } = this.index[index];
+        return { offsetMs, sequence, source, corrected };
+    }
+
+    /**
+     * Reads a frame as a snapshot. Its timestamp is the recording start plus the
+     * frame offset; dimensions and format are decoded from the stored image.
+     */
+    public async readFrame(index: number): Promise<CameraSnapshot> {
+        const entry = this.index[index];
+        if (!entry) {
+            throw new Error(`Frame ${index} is out of range (0-${this.index.length - 1})`);
+        }
+
+        const imageData = await readAt(this.file, entry.dataOffset, entry.length);
+        return {
+            imageData,
+            timestamp: new Date(new Date(this.metadata.startedAt).getTime() + entry.offsetMs),
+            ...readImageInfo(imageData),
+            sequence: entry.sequence,
+            source: entry.source,
+            corrected: entry.corrected
+        };
+    }
+
+    public close(): Promise<void> {
+        return this.file.close();
+    }
+}
+
+async function readAt(file: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+}
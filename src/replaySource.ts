@@ -0,0 +1,109 @@
+import { CameraSnapshot } from './cameraManager';
+import { Disposable, EventEmitter } from './events';
+import { FrameBus, FrameListener, FrameSubscription, FrameSubscriptionOptions } from './frameBus';
+import { FrameSource } from './frameSource';
+import { RecordingReader } from './recording';
+import { logger } from './logger';
+
+export interface ReplayOptions {
+    /** Playback speed; 2 plays twice as fast as recorded */
+    speed: number;
+}
+
+/**
+ * Plays a recording back as a frame source, keeping the recorded timing, so a
+ * MonitoringService sees the frames as if they came from a live camera.
+ */
+export class ReplaySource implements FrameSource, Disposable {
+    private readonly frames = new FrameBus();
+    private current?: CameraSnapshot;
+    private position = 0;
+    private playing = false;
+    private timer?: NodeJS.Timeout;
+
+    private readonly _onDidEnd = new EventEmitter<void>();
+    public readonly onDidEnd = this._onDidEnd.event;
+
+    constructor(private readonly reader: RecordingReader, private readonly options: ReplayOptions = { speed: 1 }) {}
+
+    public isConnected(): boolean {
+        return this.position < this.reader.frameCount || this.current !== undefined;
+    }
+
+    /**
+     * Returns the frame most recently played, or the first frame before playback starts.
+     */
+    public async takeSnapshot(): Promise<CameraSnapshot> {
+        if (!this.current) {
+            if (this.reader.frameCount === 0) {
+                throw new Error('Recording contains no frames');
+            }
+            this.current = await this.readFrame(0);
+        }
+        return this.current;
+    }
+
+    public onFrame(listener: FrameListener, options?: FrameSubscriptionOptions): FrameSubscription {
+        return this.frames.subscribe(listener, options);
+    }
+
+    public getProgress(): { played: number; total: number } {
+        return { played: this.position, total: this.reader.frameCount };
+    }
+
+    public play(): void {
+        if (this.playing) {
+            return;
+        }
+        this.playing = true;
+        this.scheduleNext();
+    }
+
+    public stop(): void {
+        this.playing = false;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public dispose(): void {
+        this.stop();
+        this.frames.dispose();
+        this._onDidEnd.dispose();
+        this.reader.close().catch(error => logger.error('Failed to close recording:', error));
+    }
+
+    private scheduleNext(): void {
+        if (!this.playing) {
+            return;
+        }
+        if (this.position >= this.reader.frameCount) {
+            this.playing = false;
+            this._onDidEnd.fire();
+            return;
+        }
+
+        const offset = this.reader.getFrameInfo(this.position).offsetMs;
+        const previous = this.position > 0 ? this.reader.getFrameInfo(this.position - 1).offsetMs : offset;
+        const delay = Math.max(0, (offset - previous) / Math.max(0.01, this.options.speed));
+
+        this.timer = setTimeout(async () => {
+            this.timer = undefined;
+            try {
+                const snapshot = await this.readFrame(this.position);
+                this.current = snapshot;
+                this.frames.publish(snapshot);
+            } catch (error) {
+                logger.error(`Skipping unreadable frame ${this.position}:`, error);
+            }
+            this.position++;
+            this.scheduleNext();
+        }, delay);
+    }
+
+    private async readFrame(index: number): Promise<CameraSnapshot> {
+        const snapshot = await this.reader.readFrame(index);
+        return { ...snapshot, timestamp: new Date(), source: 'replay' };
+    }
+}
@@ -0,0 +1,203 @@
+import * as yaml from 'js-yaml';
+import { ImageDiffOptions } from './imageDiff';
+import { INPUT_KEYS, InputKey } from './inputInjection';
+import { isRecord } from './utils';
+
+export type ScenarioStep =
+    | { kind: 'touch'; x: number; y: number }
+    | { kind: 'swipe'; x1: number; y1: number; x2: number; y2: number; durationMs: number }
+    | { kind: 'key'; key: InputKey }
+    | { kind: 'command'; command: string; params: Record<string, string | number | boolean> }
+    | { kind: 'wait'; durationMs: number }
+    | { kind: 'settle'; timeoutMs: number; stableMs: number }
+    | { kind: 'expectBaseline'; name: string; options: Partial<ImageDiffOptions> }
+    | { kind: 'expect'; expectation: string };
+
+export interface Scenario {
+    name: string;
+    /** Device name or id; the selected device when omitted */
+    device?: string;
+    steps: ScenarioStep[];
+}
+
+/*
+ * Scenario files are YAML or JSON:
+ *
+ *   name: Settings menu opens
+ *   device: Bench display
+ *   steps:
+ *     - touch: [290, 20]
+ *     - swipe: { from: [40, 120], to: [280, 120], duration: 300 }
+ *     - key: enter
+ *     - command: set_brightness
+ *       params: { level: 80 }
+ *     - wait: 500
+ *     - settle: { timeout: 5000, stableFor: 500 }
+ *     - expectBaseline: settings-menu
+ *     - expect: the settings menu is visible
+ *
+ * Coordinates are display pixels.
+ */
+const STEP_KINDS = ['touch', 'swipe', 'key', 'command', 'wait', 'settle', 'expectBaseline', 'expect'] as const;
+const DEFAULT_SWIPE_DURATION = 300;
+const DEFAULT_SETTLE_TIMEOUT = 5000;
+const DEFAULT_SETTLE_STABLE = 500;
+
+/**
+ * Parses a scenario file. JSON is read for `.json` files, YAML otherwise. Throws
+ * with the offending step number when the file does not describe a valid scenario.
+ */
+export function parseScenario(text: string, fileName: string): Scenario {
+    let data: unknown;
+    try {
+        data = fileName.toLowerCase().endsWith('.json') ? JSON.parse(text) : yaml.load(text);
+    } catch (error) {
+        throw new Error(`Invalid scenario file: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!isRecord(data)) {
+        throw new Error('Invalid scenario file: expected an object with "steps"');
+    }
+    if (!Array.isArray(data.steps) || data.steps.length === 0) {
+        throw new Error('Invalid scenario file: "steps" must be a non-empty list');
+    }
+
+    const baseName = fileName.replace(/\\/g, '/').split('/').pop()?.replace(/\.(scenario\.)?(ya?ml|json)$/i, '');
+    return {
+        name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : baseName || 'Scenario',
+        device: typeof data.device === 'string' && data.device.trim() ? data.device.trim() : undefined,
+        steps: data.steps.map((step, i) => {
+            try {
+                return parseStep(step);
+            } catch (error) {
+                throw new Error(`Step ${i + 1}: ${error instanceof Error ? error.message : error}`);
+            }
+        })
+    };
+}
+
+export function describeStep(step: ScenarioStep): string {
+    switch (step.kind) {
+        case 'touch':
+            return `touch ${step.x},${step.y}`;
+        case 'swipe':
+            return `swipe ${step.x1},${step.y1} → ${step.x2},${step.y2}`;
+        case 'key':
+            return `key ${step.key}`;
+        case 'command':
+            return `command ${step.command}`;
+        case 'wait':
+            return `wait ${step.durationMs} ms`;
+        case 'settle':
+            return 'wait for the screen to settle';
+        case 'expectBaseline':
+            return `matches baseline "${step.name}"`;
+        case 'expect':
+            return `expect: ${step.expectation}`;
+    }
+}
+
+function parseStep(value: unknown): ScenarioStep {
+    if (!isRecord(value)) {
+        throw new Error('expected an object such as { touch: [x, y] }');
+    }
+    const kinds = STEP_KINDS.filter(kind => kind in value);
+    if (kinds.length !== 1) {
+        throw new Error(kinds.length === 0
+            ? `unknown step; use one of ${STEP_KINDS.join(', ')}`
+            : `a step does one thing, found ${kinds.join(' and ')}`);
+    }
+
+    const kind = kinds[0];
+    const arg = value[kind];
+    switch (kind) {
+        case 'touch': {
+            const { x, y } = parsePoint(arg, 'touch');
+            return { kind, x, y };
+        }
+        case 'swipe': {
+            if (!isRecord(arg)) {
+                throw new Error('swipe needs { from: [x, y], to: [x, y] }');
+            }
+            const from = parsePoint(arg.from, 'swipe.from');
+            const to = parsePoint(arg.to, 'swipe.to');
+            return {
+                kind,
+                x1: from.x,
+                y1: from.y,
+                x2: to.x,
+                y2: to.y,
+                durationMs: arg.duration === undefined ? DEFAULT_SWIPE_DURATION : parseDuration(arg.duration, 'swipe.duration')
+            };
+        }
+        case 'key':
+            if (!INPUT_KEYS.includes(arg)) {
+                throw new Error(`unknown key "${arg}"; use one of ${INPUT_KEYS.join(', ')}`);
+            }
+            return { kind, key: arg };
+        case 'command': {
+            if (typeof arg !== 'string' || !arg.trim()) {
+                throw new Error('command needs the command name');
+            }
+            const params: Record<string, string | number | boolean> = {};
+            if (value.params !== undefined) {
+                if (!isRecord(value.params)) {
+                    throw new Error('params must be an object');
+                }
+                for (const [key, param] of Object.entries(value.params)) {
+                    if (typeof param !== 'string' && typeof param !== 'number' && typeof param !== 'boolean') {
+                        throw new Error(`param "${key}" must be a string, number or boolean`);
+                    }
+                    params[key] = param;
+                }
+            }
+            return { kind, command: arg.trim(), params };
+        }
+        case 'wait':
+            return { kind, durationMs: parseDuration(arg, 'wait') };
+        case 'settle': {
+            const options = isRecord(arg) ? arg : {};
+            return {
+                kind,
+                timeoutMs: options.timeout === undefined ? DEFAULT_SETTLE_TIMEOUT : parseDuration(options.timeout, 'settle.timeout'),
+                stableMs: options.stableFor === undefined ? DEFAULT_SETTLE_STABLE : parseDuration(options.stableFor, 'settle.stableFor')
+            };
+        }
+        case 'expectBaseline': {
+            const options = isRecord(arg) ? arg : { name: arg };
+            if (typeof options.name !== 'string' || !options.name) {
+                throw new Error('expectBaseline needs the baseline name');
+            }
+            const diff: Partial<ImageDiffOptions> = {};
+            for (const key of ['pixelThreshold', 'maxChangedPercent', 'minSimilarity'] as const) {
+                if (options[key] !== undefined) {
+                    if (typeof options[key] !== 'number') {
+                        throw new Error(`${key} must be a number`);
+                    }
+                    diff[key] = options[key];
+                }
+            }
+            return { kind, name: options.name, options: diff };
+        }
+        case 'expect':
+            if (typeof arg !== 'string' || !arg.trim()) {
+                throw new Error('expect needs a description of what should be on screen');
+            }
+            return { kind, expectation: arg.trim() };
+    }
+}
+
+function parsePoint(value: unknown, name: string): { x: number; y: number } {
+    const [x, y] = Array.isArray(value) ? value : isRecord(value) ? [value.x, value.y] : [];
+    if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0) {
+        throw new Error(`${name} needs display coordinates as [x, y] or { x, y }`);
+    }
+    return { x, y };
+}
+
+function parseDuration(value: unknown, name: string): number {
+    if (typeof value !== 'number' || !(value >= 0)) {
+        throw new Error(`${name} must be a duration in milliseconds`);
+    }
+    return value;
+}
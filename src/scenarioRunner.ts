@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ExpectationResult } from './analysisResult';
+import { BaselineComparison } from './baselineStore';
+import { CameraSnapshot } from './cameraManager';
+import { ChangeDetector } from './changeDetector';
+import { ImageDiffOptions } from './imageDiff';
+import { InputCommand } from './inputInjection';
+import { Scenario, ScenarioStep } from './scenario';
+import { sleep } from './utils';
+
+/**
+ * What a scenario needs from the device under test and the services judging it.
+ * Kept free of editor APIs so scenarios can run outside VS Code.
+ */
+export interface ScenarioContext {
+    capture(): Promise<CameraSnapshot>;
+    sendInput(input: InputCommand): Promise<void>;
+    sendCommand(command: string, params: Record<string, string | number | boolean>): Promise<unknown>;
+    compareBaseline(name: string, snapshot: CameraSnapshot, options: Partial<ImageDiffOptions>): Promise<BaselineComparison>;
+    checkExpectation(snapshot: CameraSnapshot, expectation: string): Promise<ExpectationResult>;
+}
+
+export type StepStatus = 'passed' | 'failed' | 'errored' | 'skipped';
+
+export interface StepResult {
+    index: number;
+    step: ScenarioStep;
+    status: StepStatus;
+    durationMs: number;
+    message?: string;
+    /** Frame the step judged, or the screen right after a step failed */
+    screenshot?: CameraSnapshot;
+    /** Diff heatmap of a baseline assertion */
+    heatmapPath?: string;
+}
+
+export interface ScenarioResult {
+    scenario: Scenario;
+    passed: boolean;
+    durationMs: number;
+    steps: StepResult[];
+}
+
+export interface ScenarioListener {
+    onStepStart?(index: number, step: ScenarioStep): void;
+    onStepEnd?(result: StepResult): void | Promise<void>;
+}
+
+interface StepOutcome {
+    passed: boolean;
+    message?: string;
+    screenshot?: CameraSnapshot;
+    heatmapPath?: string;
+}
+
+/** Workspace-relative folder for the screenshots of failed steps, one subfolder per scenario file */
+export const RESULTS_FOLDER = '.double-vision/scenario-results';
+const SETTLE_POLL_INTERVAL = 200;
+// Settling compares consecutive frames; only changes a viewer would notice count
+const SETTLE_SENSITIVITY = 0.6;
+
+/**
+ * Runs the steps of a scenario in order. The first step that fails or errors ends
+ * the run and the remaining steps are reported as skipped.
+ */
+export async function runScenario(
+    scenario: Scenario,
+    context: ScenarioContext,
+    listener: ScenarioListener = {},
+    token?: { isCancellationRequested: boolean }
+): Promise<ScenarioResult> {
+    const started = Date.now();
+    const results: StepResult[] = [];
+    let stopped = false;
+
+    for (const [index, step] of scenario.steps.entries()) {
+        if (stopped || token?.isCancellationRequested) {
+            const result: StepResult = {
+                index,
+                step,
+                status: 'skipped',
+                durationMs: 0,
+                message: stopped ? 'Skipped after an earlier step failed' : 'Run cancelled'
+            };
+            results.push(result);
+            await listener.onStepEnd?.(result);
+            continue;
+        }
+
+        listener.onStepStart?.(index, step);
+        const stepStarted = Date.now();
+        let result: StepResult;
+        try {
+            const outcome = await runStep(step, context);
+            result = { index, step, status: outcome.passed ? 'passed' : 'failed', durationMs: 0, ...outcome };
+        } catch (error) {
+            result = { index, step, status: 'errored', durationMs: 0, message: error instanceof Error ? error.message : String(error) };
+        }
+
+        if (result.status !== 'passed') {
+            stopped = true;
+            // Show what the screen looked like when the step went wrong
+            result.screenshot ??= await context.capture().catch(() => undefined);
+        }
+        result.durationMs = Date.now() - stepStarted;
+        results.push(result);
+        await listener.onStepEnd?.(result);
+    }
+
+    return {
+        scenario,
+        passed: results.every(result => result.status === 'passed'),
+        durationMs: Date.now() - started,
+        steps: results
+    };
+}
+
+/**
+ * Results subfolder name for a scenario file: its name without the extensions.
+ */
+export function scenarioSlug(filePath: string): string {
+    return path.basename(filePath).replace(/\.(scenario\.)?(ya?ml|json)$/i, '');
+}
+
+/**
+ * Writes a step's screenshot to `<directory>/step-<n>.<ext>` and returns its path.
+ */
+export async function saveStepScreenshot(directory: string, result: StepResult): Promise<string | undefined> {
+    if (!result.screenshot) {
+        return undefined;
+    }
+    const file = path.join(directory, `step-${result.index + 1}.${result.screenshot.format === 'png' ? 'png' : 'jpg'}`);
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(file, result.screenshot.imageData);
+    return file;
+}
+
+async function runStep(step: ScenarioStep, context: ScenarioContext): Promise<StepOutcome> {
+    switch (step.kind) {
+        case 'touch':
+            await context.sendInput({ type: 'touch', x: step.x, y: step.y });
+            return { passed: true };
+        case 'swipe':
+            await context.sendInput({ type: 'swipe', x1: step.x1, y1: step.y1, x2: step.x2, y2: step.y2, durationMs: step.durationMs });
+            // Let the gesture finish on the device before the next step
+            await sleep(step.durationMs);
+            return { passed: true };
+        case 'key':
+            await context.sendInput({ type: 'key', key: step.key });
+            return { passed: true };
+        case 'command':
+            await context.sendCommand(step.command, step.params);
+            return { passed: true };
+        case 'wait':
+            await sleep(step.durationMs);
+            return { passed: true };
+        case 'settle':
+            return waitForSettle(context, step.timeoutMs, step.stableMs);
+        case 'expectBaseline': {
+            const snapshot = await context.capture();
+            const comparison = await context.compareBaseline(step.name, snapshot, step.options);
+            return {
+                passed: comparison.passed,
+                message: `${comparison.changedPercent.toFixed(2)}% changed, similarity ${comparison.similarity.toFixed(3)}`,
+                screenshot: snapshot,
+                heatmapPath: comparison.heatmapPath
+            };
+        }
+        case 'expect': {
+            const snapshot = await context.capture();
+            const verdict = await context.checkExpectation(snapshot, step.expectation);
+            return { passed: verdict.passed, message: verdict.reason, screenshot: snapshot };
+        }
+    }
+}
+
+/**
+ * Captures frames until the screen has not changed for `stableMs`, e.g. after
+ * an animation or a screen transition.
+ */
+async function waitForSettle(context: ScenarioContext, timeoutMs: number, stableMs: number): Promise<StepOutcome> {
+    const detector = new ChangeDetector();
+    const deadline = Date.now() + timeoutMs;
+    let stableSince: number | undefined;
+    let snapshot: CameraSnapshot;
+
+    do {
+        const capturedAt = Date.now();
+        snapshot = await context.capture();
+        const change = await detector.check(snapshot.imageData, SETTLE_SENSITIVITY);
+        detector.accept(change.fingerprint);
+
+        if (change.changed) {
+            stableSince = capturedAt;
+        } else if (stableSince !== undefined && capturedAt - stableSince >= stableMs) {
+            return { passed: true };
+        }
+        await sleep(SETTLE_POLL_INTERVAL);
+    } while (Date.now() < deadline);
+
+    return { passed: false, message: `The screen did not settle within ${timeoutMs} ms`, screenshot: snapshot };
+}
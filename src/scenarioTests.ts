@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AIProvider } from './aiProvider';
+import { BaselineStore } from './baselineStore';
+import { Device, DeviceRegistry } from './deviceRegistry';
+import { ImageDiffOptions } from './imageDiff';
+import { describeStep, parseScenario, Scenario } from './scenario';
+import { RESULTS_FOLDER, runScenario, saveStepScreenshot, ScenarioContext, scenarioSlug, StepResult } from './scenarioRunner';
+
+/**
+ * Shows the workspace's scenario files in the Test Explorer, one test per
+ * scenario with a child per step, and runs them against the scenario's device.
+ * Failed steps carry the screenshot taken when they failed.
+ */
+export class ScenarioTestController implements vscode.Disposable {
+    private readonly controller = vscode.tests.createTestController('double-vision-scenarios', 'Double Vision Scenarios');
+    // Parsed scenarios by test item id (the file URI)
+    private readonly scenarios = new Map<string, Scenario>();
+    private watcher?: vscode.FileSystemWatcher;
+
+    constructor(
+        private readonly registry: DeviceRegistry,
+        private readonly aiProvider: AIProvider,
+        private readonly getBaselineStore: () => BaselineStore | undefined,
+        private readonly getDiffOptions: () => ImageDiffOptions
+    ) {
+        this.controller.resolveHandler = async item => {
+            if (!item) {
+                await this.discover();
+            }
+        };
+        this.controller.createRunProfile(
+            'Run on Device',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.run(request, token),
+            true
+        );
+    }
+
+    /**
+     * Loads every scenario file in the workspace and watches for changes.
+     */
+    public async discover(): Promise<void> {
+        const include = vscode.workspace.getConfiguration('doubleVision').get('scenarios.include', '**/*.scenario.{yaml,yml,json}');
+        if (!this.watcher) {
+            this.watcher = vscode.workspace.createFileSystemWatcher(include);
+            this.watcher.onDidCreate(uri => this.load(uri));
+            this.watcher.onDidChange(uri => this.load(uri));
+            this.watcher.onDidDelete(uri => {
+                this.controller.items.delete(uri.toString());
+                this.scenarios.delete(uri.toString());
+            });
+        }
+
+        const uris = await vscode.workspace.findFiles(include, '**/node_modules/**');
+        await Promise.all(uris.map(uri => this.load(uri)));
+    }
+
+    public dispose(): void {
+        this.watcher?.dispose();
+        this.controller.dispose();
+    }
+
+    private async load(uri: vscode.Uri): Promise<void> {
+        const id = uri.toString();
+        const item = this.controller.items.get(id) ?? this.controller.createTestItem(id, path.basename(uri.fsPath), uri);
+        this.controller.items.add(item);
+
+        try {
+            const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            const scenario = parseScenario(text, uri.fsPath);
+            this.scenarios.set(id, scenario);
+            item.label = scenario.name;
+            item.error = undefined;
+            item.children.replace(scenario.steps.map((step, index) =>
+                this.controller.createTestItem(`${id}#${index}`, `${index + 1}. ${describeStep(step)}`, uri)));
+        } catch (error) {
+            this.scenarios.delete(id);
+            item.error = error instanceof Error ? error.message : String(error);
+            item.children.replace([]);
+        }
+    }
+
+    private async run(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+
+        // Steps only make sense in sequence, so selecting a step runs its whole scenario
+        const selected = new Map<string, vscode.TestItem>();
+        const include = request.include ?? [...iterate(this.controller.items)];
+        for (const item of include) {
+            const root = item.parent ?? item;
+            if (!request.exclude?.includes(root)) {
+                selected.set(root.id, root);
+            }
+        }
+
+        try {
+            for (const item of selected.values()) {
+                if (token.isCancellationRequested) {
+                    run.skipped(item);
+                    continue;
+                }
+                await this.runItem(run, item, token);
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    private async runItem(run: vscode.TestRun, item: vscode.TestItem, token: vscode.CancellationToken): Promise<void> {
+        const scenario = this.scenarios.get(item.id);
+        if (!scenario) {
+            run.errored(item, new vscode.TestMessage(item.error ? String(item.error) : 'Scenario could not be loaded'));
+            return;
+        }
+
+        const device = this.resolveDevice(scenario);
+        if (!device || !device.camera.isConnected()) {
+            run.errored(item, new vscode.TestMessage(device
+                ? `${device.config.name} is not connected`
+                : `No device ${scenario.device ? `named "${scenario.device}"` : 'selected'}`));
+            return;
+        }
+
+        const steps = [...iterate(item.children)];
+        run.started(item);
+        run.appendOutput(`Running "${scenario.name}" on ${device.config.name}\r\n`);
+        const result = await runScenario(scenario, this.createContext(device), {
+            onStepStart: index => run.started(steps[index]),
+            onStepEnd: stepResult => this.reportStep(run, item, steps[stepResult.index], stepResult)
+        }, token);
+
+        if (result.passed) {
+            run.passed(item, result.durationMs);
+        } else {
+            const failed = result.steps.find(step => step.status === 'failed' || step.status === 'errored');
+            run.failed(item, new vscode.TestMessage(failed
+                ? `Step ${failed.index + 1} (${describeStep(failed.step)}): ${failed.message ?? failed.status}`
+                : 'Run cancelled'), result.durationMs);
+        }
+    }
+
+    private async reportStep(run: vscode.TestRun, item: vscode.TestItem, step: vscode.TestItem, result: StepResult): Promise<void> {
+        const summary = `${result.index + 1}. ${describeStep(result.step)}: ${result.status}` +
+            `${result.message ? ` (${result.message})` : ''}`;
+        run.appendOutput(`${summary}\r\n`, undefined, step);
+
+        if (result.status === 'passed') {
+            run.passed(step, result.durationMs);
+            return;
+        }
+        if (result.status === 'skipped') {
+            run.skipped(step);
+            return;
+        }
+
+        const message = new vscode.TestMessage(await this.failureMessage(item, result));
+        if (result.status === 'failed') {
+            run.failed(step, message, result.durationMs);
+        } else {
+            run.errored(step, message, result.durationMs);
+        }
+    }
+
+    /**
+     * Writes the step's screenshot next to the scenario results and links it,
+     * with the baseline heatmap if there is one, from the failure message.
+     */
+    private async failureMessage(item: vscode.TestItem, result: StepResult): Promise<vscode.MarkdownString> {
+        const markdown = new vscode.MarkdownString(escapeMarkdown(result.message ?? `Step ${result.status}`));
+        const folder = item.uri && vscode.workspace.getWorkspaceFolder(item.uri);
+        if (folder) {
+            try {
+                const file = await saveStepScreenshot(path.join(folder.uri.fsPath, RESULTS_FOLDER, scenarioSlug(item.uri!.fsPath)), result);
+                if (file) {
+                    const uri = vscode.Uri.file(file).toString();
+                    markdown.appendMarkdown(`\n\n![Screen at step ${result.index + 1}](${uri})\n\n[Open screenshot](${uri})`);
+                }
+            } catch (error) {
+                console.error('Failed to save the scenario screenshot:', error);
+            }
+        }
+        if (result.heatmapPath) {
+            markdown.appendMarkdown(` · [Open baseline diff](${vscode.Uri.file(result.heatmapPath).toString()})`);
+        }
+        return markdown;
+    }
+
+    private resolveDevice(scenario: Scenario): Device | undefined {
+        if (!scenario.device) {
+            return this.registry.getSelected();
+        }
+        return this.registry.list().find(device =>
+            device.config.id === scenario.device || device.config.name === scenario.device);
+    }
+
+    private createContext(device: Device): ScenarioContext {
+        return {
+            capture: () => device.camera.takeSnapshot(),
+            sendInput: input => this.registry.sendInput(device, input),
+            sendCommand: (command, params) => device.camera.sendCommand(command, params),
+            compareBaseline: (name, snapshot, options) => {
+                const store = this.getBaselineStore();
+                if (!store) {
+                    throw new Error('Open a workspace folder to compare against screen baselines');
+                }
+                return store.compare(name, snapshot, { ...this.getDiffOptions(), ...options });
+            },
+            checkExpectation: (snapshot, expectation) => device.monitoring.enqueue(async () =>
+                this.aiProvider.checkExpectation(snapshot, expectation, await device.monitoring.getWidgetTree()))
+        };
+    }
+}
+
+function iterate(collection: vscode.TestItemCollection): vscode.TestItem[] {
+    const items: vscode.TestItem[] = [];
+    collection.forEach(item => items.push(item));
+    return items;
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_{}[\]()#+\-.!|<>]/g, '\\$&');
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import { CredentialStore } from './credentials';
+import { VisionProvider } from './providers/visionProvider';
+
+const LEGACY_SETTING = 'ai.apiKey';
+
+/**
+ * Provider API keys in the editor's secret storage, one per provider, so they
+ * never end up in settings.json.
+ */
+export class SecretCredentialStore implements CredentialStore {
+    constructor(private readonly secrets: vscode.SecretStorage) {}
+
+    public async getApiKey(providerId: string): Promise<string | undefined> {
+        return this.secrets.get(secretKey(providerId));
+    }
+
+    /**
+     * Stores the key for a provider; an empty key removes it.
+     */
+    public async setApiKey(providerId: string, apiKey: string): Promise<void> {
+        if (apiKey) {
+            await this.secrets.store(secretKey(providerId), apiKey);
+        } else {
+            await this.secrets.delete(secretKey(providerId));
+        }
+    }
+
+    /**
+     * Moves the shared plain-text `doubleVision.ai.apiKey` into secret storage, one
+     * settings scope (user, workspace, each workspace folder) at a time. A key goes
+     * to the provider its format belongs to, else to the active provider if that
+     * needs a key. A scope is only cleared once its key is stored, or matches the
+     * one already stored; a key whose provider is unknown, or that differs from the
+     * stored one, is left in place and counted in `kept`.
+     */
+    public async migrateLegacyKey(providers: VisionProvider[]): Promise<LegacyKeyMigration> {
+        const scopes: [vscode.WorkspaceConfiguration, string | undefined, vscode.ConfigurationTarget][] = [];
+        const config = vscode.workspace.getConfiguration('doubleVision');
+        const inspected = config.inspect<string>(LEGACY_SETTING);
+        scopes.push([config, inspected?.globalValue, vscode.ConfigurationTarget.Global]);
+        scopes.push([config, inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace]);
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const folderConfig = vscode.workspace.getConfiguration('doubleVision', folder.uri);
+            scopes.push([folderConfig, folderConfig.inspect<string>(LEGACY_SETTING)?.workspaceFolderValue,
+                vscode.ConfigurationTarget.WorkspaceFolder]);
+        }
+
+        const result: LegacyKeyMigration = { moved: [], kept: 0 };
+        const active = config.get('ai.provider', 'github-copilot');
+        for (const [scopeConfig, apiKey, target] of scopes) {
+            if (!apiKey) {
+                continue;
+            }
+            const guessed = guessProviderId(apiKey);
+            const provider = providers.find(candidate =>
+                guessed ? candidate.id === guessed : candidate.id === active && candidate.requiresApiKey);
+            const stored = provider && await this.getApiKey(provider.id);
+            if (!provider || (stored && stored !== apiKey)) {
+                result.kept++;
+                continue;
+            }
+            if (!stored) {
+                await this.setApiKey(provider.id, apiKey);
+            }
+            try {
+                await scopeConfig.update(LEGACY_SETTING, undefined, target);
+            } catch (error) {
+                console.error('Failed to remove doubleVision.ai.apiKey from settings:', error);
+                result.kept++;
+            }
+            if (!result.moved.includes(provider)) {
+                result.moved.push(provider);
+            }
+        }
+        return result;
+    }
+}
+
+export interface LegacyKeyMigration {
+    /** Providers that received a key, or already had the same one */
+    moved: VisionProvider[];
+    /** Settings scopes whose key was left in place */
+    kept: number;
+}
+
+function secretKey(providerId: string): string {
+    return `doubleVision.ai.${providerId}.apiKey`;
+}
+
+// Key formats published by the providers
+function guessProviderId(apiKey: string): string | undefined {
+    if (apiKey.startsWith('sk-ant-')) {
+        return 'anthropic';
+    }
+    if (apiKey.startsWith('AIza')) {
+        return 'google';
+    }
+    if (apiKey.startsWith('sk-')) {
+        return 'openai';
+    }
+    return undefined;
+}
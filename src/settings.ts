@@ -0,0 +1,26 @@
+/**
+ * Read access to the `doubleVision.*` settings, keyed without the prefix
+ * (e.g. `camera.port`). The extension backs it with the workspace configuration;
+ * the command-line runner with its config file.
+ */
+export interface Settings {
+    get<T>(key: string, defaultValue: T): T;
+}
+
+const DEFAULTS: Settings = {
+    get: <T>(_key: string, defaultValue: T) => defaultValue
+};
+
+let source: () => Settings = () => DEFAULTS;
+
+/**
+ * Sets where settings come from. Settings are read through it on every use,
+ * so the source should return the current values.
+ */
+export function setSettingsSource(getSettings: () => Settings): void {
+    source = getSettings;
+}
+
+export function getSettings(): Settings {
+    return source();
+}
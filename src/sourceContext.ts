@@ -0,0 +1,288 @@
+import * as path from 'path';
+import { SourceFile } from './issueLocator';
+import { flattenWidgets, WidgetTree } from './widgetTree';
+import { getSettings } from './settings';
+
+export interface SourceExcerpt {
+    /** Relative to the project root when there is one */
+    path: string;
+    /** One-based, inclusive; unset for a whole file or a summary of one */
+    startLine?: number;
+    endLine?: number;
+    /** What the excerpt is: a function name, the open file or the LVGL configuration */
+    label: string;
+    text: string;
+}
+
+export interface SourceFunction {
+    name: string;
+    /** One-based, inclusive; includes a comment right above the function */
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+export const DEFAULT_SOURCE_TOKENS = 3000;
+
+// Characters per token of C source, roughly, for every provider's tokenizer
+const CHARS_PER_TOKEN = 4;
+// The open file is sent whole only while it takes at most this share of the budget
+const ACTIVE_FILE_SHARE = 0.5;
+// Library sources such as a vendored LVGL are full of create calls but never the cause
+const VENDORED_PATH = /[\\/](lvgl|lv_\w+|\.pio|managed_components)[\\/]/i;
+const UI_FUNCTION_NAME = /ui|screen|page|view|create|build|layout|widget|menu/i;
+const CREATE_CALL = /\blv_\w+_create\s*\(/g;
+const NOT_FUNCTIONS = new Set(['if', 'for', 'while', 'switch', 'catch', 'return', 'sizeof', 'defined']);
+
+// Scores for ranking functions; text the firmware is showing is the strongest hint
+const SCORE_VISIBLE_TEXT = 3;
+const SCORE_SCREEN_NAME = 3;
+const SCORE_ACTIVE_FILE = 2;
+const SCORE_CREATE_CALL = 1;
+const MAX_CREATE_CALL_SCORE = 3;
+const SCORE_UI_NAME = 1;
+
+interface Candidate {
+    excerpt: SourceExcerpt;
+    score: number;
+    tokens: number;
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Picks the sources most likely behind the frame being analyzed, within a token
+ * budget: the options enabled in `lv_conf.h`, the file open in the editor while
+ * it is small, and the functions that build the UI, ranked by the text the
+ * display shows, the screen name and the open file.
+ */
+export function selectSourceExcerpts(
+    files: SourceFile[],
+    options: { maxTokens: number; root?: string; activeFile?: string; widgetTree?: WidgetTree }
+): SourceExcerpt[] {
+    const relative = (file: string) => options.root ? path.relative(options.root, file) || file : file;
+    const candidates: Candidate[] = [];
+
+    const lvConf = files.find(file => path.basename(file.path) === 'lv_conf.h');
+    if (lvConf) {
+        const text = summarizeLvConf(lvConf.text);
+        if (text) {
+            // Always the first thing to go in: colour depth and enabled fonts explain many artifacts
+            candidates.push(candidate({ path: relative(lvConf.path), label: 'enabled lv_conf.h options', text }, Infinity));
+        }
+    }
+
+    const active = files.find(file => options.activeFile !== undefined && path.resolve(file.path) === path.resolve(options.activeFile));
+    let activeWhole = false;
+    if (active && active !== lvConf && estimateTokens(active.text) <= options.maxTokens * ACTIVE_FILE_SHARE) {
+        candidates.push(candidate({ path: relative(active.path), label: 'file open in the editor', text: active.text.trimEnd() }, Infinity));
+        activeWhole = true;
+    }
+
+    const visibleTexts = options.widgetTree
+        ? [...new Set(flattenWidgets(options.widgetTree).map(({ node }) => node.text?.trim() ?? '').filter(text => text.length >= 2))]
+        : [];
+    const screen = options.widgetTree?.screen?.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+    for (const file of files) {
+        if (file === lvConf || (file === active && activeWhole) || VENDORED_PATH.test(file.path)) {
+            continue;
+        }
+        for (const fn of extractFunctions(file.text)) {
+            const createCalls = fn.text.match(CREATE_CALL)?.length ?? 0;
+            if (createCalls === 0 && !UI_FUNCTION_NAME.test(fn.name)) {
+                continue;
+            }
+
+            const literals = [...fn.text.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(match => match[1]);
+            let score = Math.min(createCalls * SCORE_CREATE_CALL, MAX_CREATE_CALL_SCORE);
+            score += visibleTexts.filter(text => literals.some(literal => literal.includes(text))).length * SCORE_VISIBLE_TEXT;
+            if (screen && fn.name.toLowerCase().replace(/_/g, '').includes(screen)) {
+                score += SCORE_SCREEN_NAME;
+            }
+            if (file === active) {
+                score += SCORE_ACTIVE_FILE;
+            }
+            if (UI_FUNCTION_NAME.test(fn.name)) {
+                score += SCORE_UI_NAME;
+            }
+            candidates.push(candidate({ path: relative(file.path), startLine: fn.startLine, endLine: fn.endLine, label: `${fn.name}()`, text: fn.text }, score));
+        }
+    }
+
+    // Best first; whatever does not fit is skipped so a smaller one further down still can
+    const selected: SourceExcerpt[] = [];
+    let remaining = options.maxTokens;
+    for (const { excerpt, tokens } of candidates.sort((a, b) => b.score - a.score)) {
+        if (tokens <= remaining) {
+            selected.push(excerpt);
+            remaining -= tokens;
+        }
+    }
+    return selected;
+}
+
+/**
+ * Renders excerpts for a prompt, each as a fenced block headed by where it comes from.
+ */
+export function formatSourceExcerpts(excerpts: SourceExcerpt[]): string {
+    return excerpts.map(excerpt => {
+        const lines = excerpt.startLine !== undefined ? ` lines ${excerpt.startLine}-${excerpt.endLine}` : '';
+        return `${excerpt.path}${lines} (${excerpt.label}):\n\`\`\`c\n${excerpt.text}\n\`\`\``;
+    }).join('\n\n');
+}
+
+/**
+ * Finds the top-level function definitions in C or C++ source. Comments, strings,
+ * preprocessor lines and `namespace` / `extern "C"` blocks are accounted for; the
+ * rest is brace matching, which is enough for firmware UI code.
+ */
+export function extractFunctions(text: string): SourceFunction[] {
+    const functions: SourceFunction[] = [];
+    const scopes: ('function' | 'block' | 'transparent')[] = [];
+    let depth = 0;
+    let headerStart = 0;
+    let current: { name: string; start: number } | undefined;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '/' && text[i + 1] === '/') {
+            i = endOfLine(text, i) - 1;
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+        } else if (char === '"' || char === '\'') {
+            i = endOfQuoted(text, i);
+        } else if (char === '#' && /^[ \t]*$/.test(text.slice(text.lastIndexOf('\n', i - 1) + 1, i))) {
+            // Directives run to the end of the line, continuations included
+            let end = endOfLine(text, i);
+            while (text[end - 1] === '\\' || (text[end - 1] === '\r' && text[end - 2] === '\\')) {
+                end = endOfLine(text, end + 1);
+            }
+            i = end - 1;
+            if (depth === 0) {
+                headerStart = end;
+            }
+        } else if (char === ';' && depth === 0) {
+            headerStart = i + 1;
+        } else if (char === '{') {
+            if (depth > 0) {
+                scopes.push('block');
+                depth++;
+                continue;
+            }
+            const header = text.slice(headerStart, i).replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, ' ').trim();
+            if (/^(namespace\b|extern\s+"C")/.test(header)) {
+                scopes.push('transparent');
+                headerStart = i + 1;
+                continue;
+            }
+            const name = functionName(header);
+            if (name) {
+                current = { name, start: headerStart + (/\S/.exec(text.slice(headerStart))?.index ?? 0) };
+            }
+            scopes.push(name ? 'function' : 'block');
+            depth++;
+        } else if (char === '}') {
+            const scope = scopes.pop();
+            if (scope === 'transparent') {
+                headerStart = i + 1;
+                continue;
+            }
+            depth = Math.max(0, depth - 1);
+            if (depth === 0) {
+                if (scope === 'function' && current) {
+                    functions.push({
+                        name: current.name,
+                        startLine: lineCount(text.slice(0, current.start + 1)),
+                        endLine: lineCount(text.slice(0, i + 1)),
+                        text: text.slice(current.start, i + 1)
+                    });
+                }
+                current = undefined;
+                headerStart = i + 1;
+            }
+        }
+    }
+    return functions;
+}
+
+/**
+ * Reads workspace sources and picks the excerpts for an analysis, with the budget
+ * in `doubleVision.sourceContext.maxTokens`.
+ */
+export class SourceCollector {
+    constructor(
+        private readonly readSources: () => Promise<SourceFile[]>,
+        private readonly getRoot: () => string | undefined = () => undefined,
+        /** Absolute path of the file open in the editor */
+        private readonly getActiveFile: () => string | undefined = () => undefined
+    ) {}
+
+    public async collect(widgetTree?: WidgetTree): Promise<SourceExcerpt[]> {
+        const config = getSettings();
+        if (!config.get('sourceContext.enabled', true)) {
+            return [];
+        }
+        return selectSourceExcerpts(await this.readSources(), {
+            maxTokens: config.get('sourceContext.maxTokens', DEFAULT_SOURCE_TOKENS),
+            root: this.getRoot(),
+            activeFile: this.getActiveFile(),
+            widgetTree
+        });
+    }
+}
+
+function candidate(excerpt: SourceExcerpt, score: number): Candidate {
+    return { excerpt, score, tokens: estimateTokens(excerpt.text) };
+}
+
+/**
+ * The `LV_*` defines of an lv_conf.h that are switched on or set to a value,
+ * without the comments and disabled options that make up most of the file.
+ */
+function summarizeLvConf(text: string): string {
+    const defines: string[] = [];
+    for (const match of text.matchAll(/^[ \t]*#[ \t]*define[ \t]+(LV_\w+)[ \t]+([^\r\n]*?)[ \t]*(?:\/\/[^\r\n]*|\/\*[^\r\n]*)?$/gm)) {
+        if (match[2] !== '0' && match[1] !== 'LV_CONF_H') {
+            defines.push(`#define ${match[1]} ${match[2]}`);
+        }
+    }
+    return defines.join('\n');
+}
+
+function functionName(header: string): string | undefined {
+    const match = /([A-Za-z_]\w*(?:::~?[A-Za-z_]\w*)*)\s*\((?:[^()]|\([^()]*\))*\)\s*(?:const\s*)?(?:noexcept\s*)?(?:override\s*)?$/.exec(header);
+    if (!match || NOT_FUNCTIONS.has(match[1])) {
+        return undefined;
+    }
+    // Needs a return type (or a qualified name for constructors), and initializers such as `x[] = {` are no function
+    const before = header.slice(0, match.index);
+    if ((!before.trim() && !match[1].includes('::')) || before.includes('=')) {
+        return undefined;
+    }
+    return match[1];
+}
+
+function endOfLine(text: string, from: number): number {
+    const end = text.indexOf('\n', from);
+    return end < 0 ? text.length : end;
+}
+
+function endOfQuoted(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote || text[i] === '\n') {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+function lineCount(text: string): number {
+    return text.split('\n').length;
+}
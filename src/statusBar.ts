@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { CONNECTION_STATE_LABELS, ConnectionState } from './cameraManager';
+import { DeviceRegistry } from './deviceRegistry';
+
+const STATE_ICONS: Record<ConnectionState, string> = {
+    disconnected: '$(debug-disconnect)',
+    connecting: '$(sync~spin)',
+    streaming: '$(device-camera)',
+    polling: '$(warning)',
+    reconnecting: '$(sync~spin)'
+};
+
+/**
+ * Shows the selected device's connection state in the status bar.
+ */
+export class ConnectionStatusBar implements vscode.Disposable {
+    private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    private readonly subscriptions: vscode.Disposable[] = [];
+
+    constructor(private readonly registry: DeviceRegistry) {
+        this.subscriptions.push(
+            registry.onDidChangeDevices(() => this.update()),
+            registry.onDidChangeSelection(() => this.update())
+        );
+        this.update();
+    }
+
+    public dispose(): void {
+        this.item.dispose();
+        this.subscriptions.forEach(subscription => subscription.dispose());
+    }
+
+    private update(): void {
+        const device = this.registry.getSelected();
+        if (!device) {
+            this.item.hide();
+            return;
+        }
+
+        const state = device.camera.getState();
+        this.item.text = `${STATE_ICONS[state]} ${device.config.name}`;
+        this.item.tooltip = `${device.config.name} (${device.config.ipAddress}): ${CONNECTION_STATE_LABELS[state]}`;
+        this.item.command = state === 'disconnected' ? 'double-vision.connectCamera' : 'double-vision.selectDevice';
+        this.item.backgroundColor = state === 'polling' || state === 'reconnecting'
+            ? new vscode.ThemeColor('statusBarItem.warningBackground')
+            : undefined;
+        this.item.show();
+    }
+}
@@ -0,0 +1,25 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha from 'mocha';
+
+/**
+ * Runs the tests in `suite/`. They cover the editor-independent core, so they run
+ * in plain Node without starting VS Code.
+ */
+async function main(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 10000 });
+    const suiteDirectory = path.resolve(__dirname, 'suite');
+    for (const file of fs.readdirSync(suiteDirectory).filter(name => name.endsWith('.test.js')).sort()) {
+        mocha.addFile(path.join(suiteDirectory, file));
+    }
+
+    const failures = await new Promise<number>(resolve => mocha.run(resolve));
+    if (failures > 0) {
+        throw new Error(`${failures} test${failures === 1 ? '' : 's'} failed`);
+    }
+}
+
+main().catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { DEFAULT_DISCOVERY_OPTIONS, DiscoveryOptions, probeHosts } from '../../discovery';
+
+suite('Discovery', () => {
+    let server: http.Server | undefined;
+
+    teardown(done => {
+        if (server?.listening) {
+            server.close(() => done());
+        } else {
+            done();
+        }
+        server = undefined;
+    });
+
+    /** Serves `/status` with the given status code and body on a free local port */
+    function serveStatus(statusCode: number, body: unknown): Promise<DiscoveryOptions> {
+        server = http.createServer((request, response) => {
+            if (request.url !== '/status') {
+                response.writeHead(404).end();
+                return;
+            }
+            response.writeHead(statusCode);
+            response.end(JSON.stringify(body));
+        });
+        return new Promise(resolve => server!.listen(0, '127.0.0.1', () => resolve({
+            ...DEFAULT_DISCOVERY_OPTIONS,
+            port: (server!.address() as AddressInfo).port,
+            timeoutMs: 2000
+        })));
+    }
+
+    test('finds a device that answers like the camera firmware', async () => {
+        const options = await serveStatus(200, { status: 'ok', camera: 'ready', ip: '192.168.1.50', name: 'bench-cam' });
+
+        const devices = await probeHosts(['127.0.0.1'], options);
+
+        assert.deepStrictEqual(devices, [{
+            host: '127.0.0.1',
+            port: options.port,
+            reportedIp: '192.168.1.50',
+            cameraState: 'ready',
+            name: 'bench-cam',
+            source: 'scan'
+        }]);
+    });
+
+    test('rejects a server whose /status has another shape', async () => {
+        const options = await serveStatus(200, { status: 'running', uptime: 1234 });
+
+        assert.deepStrictEqual(await probeHosts(['127.0.0.1'], options), []);
+    });
+
+    test('rejects a server that does not answer 200', async () => {
+        const options = await serveStatus(503, { status: 'ok', camera: 'ready' });
+
+        assert.deepStrictEqual(await probeHosts(['127.0.0.1'], options), []);
+    });
+
+    test('skips a host that refuses the connection', async () => {
+        // A port that was just free again: nothing listens on it
+        const options = await serveStatus(200, {});
+        await new Promise(resolve => server!.close(resolve));
+
+        assert.deepStrictEqual(await probeHosts(['127.0.0.1'], options), []);
+    });
+});
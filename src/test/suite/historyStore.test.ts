@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AIAnalysisResult } from '../../analysisResult';
+import { CameraSnapshot } from '../../cameraManager';
+import { HistoryStore } from '../../historyStore';
+
+suite('HistoryStore', () => {
+    let directory: string;
+
+    setup(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'double-vision-history-'));
+    });
+
+    teardown(async () => {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    const snapshot = { timestamp: new Date(), format: 'jpeg', imageData: Buffer.from('frame'), width: 4, height: 3 } as CameraSnapshot;
+    const analysis: AIAnalysisResult = { description: 'ok', issues: [], suggestions: [], confidence: 1, timestamp: new Date() };
+
+    test('keeps an entry added while the index is first read', async () => {
+        await fs.promises.writeFile(path.join(directory, 'index.json'), JSON.stringify({ version: 1, entries: [] }));
+        const store = new HistoryStore(directory, 10);
+
+        // Hold the first read of the index until the add has been saved
+        const readFile = fs.promises.readFile;
+        let reads = 0;
+        fs.promises.readFile = (async (...args: Parameters<typeof readFile>) => {
+            const content = await readFile(...args);
+            if (reads++ === 0) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+            return content;
+        }) as typeof readFile;
+        let first;
+        try {
+            [, first] = await Promise.all([store.list(), store.add(snapshot, analysis, { id: 'bench', name: 'Bench' })]);
+        } finally {
+            fs.promises.readFile = readFile;
+        }
+        const second = await store.add({ ...snapshot, timestamp: new Date(snapshot.timestamp.getTime() + 1) }, analysis, { id: 'bench', name: 'Bench' });
+
+        const reopened = new HistoryStore(directory, 10);
+        assert.deepStrictEqual((await reopened.list()).map(e => e.id), [second.id, first.id]);
+    });
+
+    test('ignores index entries whose image file points outside the store', async () => {
+        const outside = path.join(directory, 'outside.txt');
+        await fs.promises.writeFile(outside, 'keep');
+        await fs.promises.writeFile(path.join(directory, 'index.json'), JSON.stringify({
+            version: 1,
+            entries: [{ id: 'abc-12', imageFile: '../outside.txt', capturedAt: '2020-01-01T00:00:00Z', analysis: {} }]
+        }));
+        // A limit of 0 prunes every unpinned entry on add
+        const store = new HistoryStore(directory, 0);
+
+        await store.add(snapshot, analysis, { id: 'bench', name: 'Bench' });
+
+        assert.strictEqual(await fs.promises.readFile(outside, 'utf8'), 'keep');
+    });
+});
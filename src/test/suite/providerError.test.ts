@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIProvider } from '../../providers/openaiProvider';
+import { ProviderError, toProviderError } from '../../providers/providerError';
+
+suite('ProviderError', () => {
+    let server: http.Server | undefined;
+
+    teardown(done => {
+        if (server?.listening) {
+            server.close(() => done());
+        } else {
+            done();
+        }
+        server = undefined;
+    });
+
+    /** Answers every request with the given JSON text; resolves to the base URL */
+    function serveJson(json: string): Promise<string> {
+        server = http.createServer((request, response) => {
+            request.resume();
+            request.on('end', () => response.end(json));
+        });
+        return new Promise(resolve => server!.listen(0, '127.0.0.1', () =>
+            resolve(`http://127.0.0.1:${(server!.address() as AddressInfo).port}/v1`)));
+    }
+
+    test('a reply without content is final, not retried', async () => {
+        const baseUrl = await serveJson('{"model":"gpt-4o","choices":[{"message":{"content":null},"finish_reason":"content_filter"}]}');
+
+        await assert.rejects(new OpenAIProvider().generateCode('a button', undefined, { apiKey: 'key', baseUrl }), (error: ProviderError) => {
+            assert.strictEqual(error.kind, 'invalidResponse');
+            assert.strictEqual(error.retryable, false);
+            assert.match(error.message, /empty or blocked response \(finish reason content_filter\)/);
+            return true;
+        });
+    });
+
+    test('a reply of another shape is final, not retried', async () => {
+        const baseUrl = await serveJson('{"error":null}');
+
+        await assert.rejects(new OpenAIProvider().generateCode('a button', undefined, { apiKey: 'key', baseUrl }),
+            (error: ProviderError) => error.kind === 'invalidResponse' && !error.retryable);
+    });
+
+    test('only connection failures outside HTTP are transient', () => {
+        const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+
+        assert.strictEqual(toProviderError('openai', 'OpenAI', reset).kind, 'transient');
+        assert.strictEqual(toProviderError('openai', 'OpenAI', new TypeError('Cannot read properties of undefined')).kind, 'invalidResponse');
+    });
+});
@@ -0,0 +1,239 @@
+import { EventEmitter } from './events';
+import { TokenUsage } from './providers/visionProvider';
+import { getSettings } from './settings';
+import { logger } from './logger';
+
+export interface ProviderUsage {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    /** Estimated USD; requests to models without a known price add nothing */
+    cost: number;
+    /** Requests to models without a known price */
+    unpricedRequests: number;
+}
+
+export interface UsagePeriod {
+    /** ISO time the period started; local midnight for the daily totals */
+    start: string;
+    providers: Record<string, ProviderUsage>;
+}
+
+export type BudgetPeriod = 'day' | 'session';
+
+export interface BudgetStatus {
+    period: BudgetPeriod;
+    tokens: number;
+    /** 0 when unlimited */
+    maxTokens: number;
+    cost: number;
+    /** 0 when unlimited */
+    maxCost: number;
+    exceeded: boolean;
+}
+
+/** Where the daily totals survive restarts; the extension's global state fits */
+export interface UsageStorage {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+interface ModelPrice {
+    /** USD per million input tokens */
+    input: number;
+    /** USD per million output tokens */
+    output: number;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public readonly status: BudgetStatus) {
+        super(`The AI budget for this ${status.period} is used up (${formatBudget(status)})`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+const STORAGE_KEY = 'doubleVision.usage.today';
+
+// List prices in USD per million tokens, matched against the model named in the
+// response by longest prefix. `doubleVision.budget.prices` adds to or overrides them.
+const DEFAULT_PRICES: [string, ModelPrice][] = [
+    ['gpt-4o', { input: 2.5, output: 10 }],
+    ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+    ['gpt-4.1', { input: 2, output: 8 }],
+    ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+    ['claude-sonnet-4', { input: 3, output: 15 }],
+    ['claude-haiku-4-5', { input: 1, output: 5 }],
+    ['claude-opus-4', { input: 15, output: 75 }],
+    ['gemini-2.5-flash', { input: 0.3, output: 2.5 }],
+    ['gemini-2.5-flash-lite', { input: 0.1, output: 0.4 }],
+    ['gemini-2.5-pro', { input: 1.25, output: 10 }]
+];
+
+/**
+ * Adds up the tokens and estimated cost of AI requests per provider, for the
+ * current session and the current day, and checks them against the budget in
+ * `doubleVision.budget.*`.
+ */
+export class UsageTracker {
+    private readonly session: UsagePeriod = { start: new Date().toISOString(), providers: {} };
+    private today: UsagePeriod;
+
+    private readonly _onDidChange = new EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private readonly _onDidExceedBudget = new EventEmitter<BudgetStatus>();
+    public readonly onDidExceedBudget = this._onDidExceedBudget.event;
+
+    constructor(private readonly storage?: UsageStorage) {
+        const stored = storage?.get<UsagePeriod>(STORAGE_KEY);
+        this.today = stored && stored.start === startOfDay() ? stored : { start: startOfDay(), providers: {} };
+    }
+
+    public record(providerId: string, usage: TokenUsage): void {
+        const wasExceeded = this.getBudgetStatus().exceeded;
+        const price = findPrice(usage.model);
+        const cost = price
+            ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+            : 0;
+
+        for (const period of [this.session, this.getToday()]) {
+            const totals = period.providers[providerId] ??= {
+                requests: 0,
+                inputTokens: 0,
+                outputTokens: 0,
+                cost: 0,
+                unpricedRequests: 0
+            };
+            totals.requests++;
+            totals.inputTokens += usage.inputTokens;
+            totals.outputTokens += usage.outputTokens;
+            totals.cost += cost;
+            if (!price) {
+                totals.unpricedRequests++;
+            }
+        }
+
+        this.storage?.update(STORAGE_KEY, this.today).then(undefined, error =>
+            logger.error('Failed to save AI usage:', error));
+        this._onDidChange.fire();
+
+        const status = this.getBudgetStatus();
+        if (status.exceeded && !wasExceeded) {
+            this._onDidExceedBudget.fire(status);
+        }
+    }
+
+    public getSession(): UsagePeriod {
+        return this.session;
+    }
+
+    public getToday(): UsagePeriod {
+        if (this.today.start !== startOfDay()) {
+            this.today = { start: startOfDay(), providers: {} };
+        }
+        return this.today;
+    }
+
+    public getBudgetStatus(): BudgetStatus {
+        const config = getSettings();
+        const period = config.get<BudgetPeriod>('budget.period', 'day');
+        const totals = sumUsage(period === 'session' ? this.session : this.getToday());
+        const maxTokens = config.get('budget.maxTokens', 0);
+        const maxCost = config.get('budget.maxCost', 0);
+        const tokens = totals.inputTokens + totals.outputTokens;
+        return {
+            period,
+            tokens,
+            maxTokens,
+            cost: totals.cost,
+            maxCost,
+            exceeded: (maxTokens > 0 && tokens >= maxTokens) || (maxCost > 0 && totals.cost >= maxCost)
+        };
+    }
+
+    /**
+     * Throws a BudgetExceededError once the budget is used up.
+     */
+    public assertWithinBudget(): void {
+        const status = this.getBudgetStatus();
+        if (status.exceeded) {
+            throw new BudgetExceededError(status);
+        }
+    }
+
+    public dispose(): void {
+        this._onDidChange.dispose();
+        this._onDidExceedBudget.dispose();
+    }
+}
+
+export function sumUsage(period: UsagePeriod): ProviderUsage {
+    const total: ProviderUsage = { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedRequests: 0 };
+    for (const usage of Object.values(period.providers)) {
+        total.requests += usage.requests;
+        total.inputTokens += usage.inputTokens;
+        total.outputTokens += usage.outputTokens;
+        total.cost += usage.cost;
+        total.unpricedRequests += usage.unpricedRequests;
+    }
+    return total;
+}
+
+export function formatBudget(status: BudgetStatus): string {
+    const parts = [
+        `${status.tokens.toLocaleString('en-US')}${status.maxTokens > 0 ? ` of ${status.maxTokens.toLocaleString('en-US')}` : ''} tokens`,
+        `$${status.cost.toFixed(2)}${status.maxCost > 0 ? ` of $${status.maxCost.toFixed(2)}` : ''}`
+    ];
+    return parts.join(', ');
+}
+
+/**
+ * Usage per provider for the session and the day, with the budget, as markdown.
+ */
+export function formatUsageMarkdown(tracker: UsageTracker, providerNames: Record<string, string> = {}): string {
+    const status = tracker.getBudgetStatus();
+    const lines = ['# AI Usage', ''];
+    if (status.maxTokens > 0 || status.maxCost > 0) {
+        lines.push(`Budget per ${status.period}: ${formatBudget(status)}${status.exceeded ? ' — **used up, AI requests are paused**' : ''}`, '');
+    } else {
+        lines.push('No budget set (`doubleVision.budget.maxTokens`, `doubleVision.budget.maxCost`).', '');
+    }
+
+    const sections: [string, UsagePeriod][] = [
+        [`This session (since ${new Date(tracker.getSession().start).toLocaleTimeString()})`, tracker.getSession()],
+        ['Today', tracker.getToday()]
+    ];
+    for (const [title, period] of sections) {
+        lines.push(`## ${title}`, '');
+        const entries = Object.entries(period.providers);
+        if (entries.length === 0) {
+            lines.push('No AI requests.', '');
+            continue;
+        }
+        lines.push('| Provider | Requests | Input tokens | Output tokens | Estimated cost |', '|---|---:|---:|---:|---:|');
+        for (const [id, usage] of [...entries, ['Total', sumUsage(period)] as [string, ProviderUsage]]) {
+            const unpriced = usage.unpricedRequests > 0 ? ` (${usage.unpricedRequests} unpriced)` : '';
+            lines.push(`| ${providerNames[id] ?? id} | ${usage.requests} | ${usage.inputTokens.toLocaleString('en-US')} | ` +
+                `${usage.outputTokens.toLocaleString('en-US')} | $${usage.cost.toFixed(4)}${unpriced} |`);
+        }
+        lines.push('');
+    }
+
+    lines.push('Costs are estimates from list prices; set `doubleVision.budget.prices` for models or rates not covered.');
+    return lines.join('\n');
+}
+
+function findPrice(model: string): ModelPrice | undefined {
+    const prices = { ...Object.fromEntries(DEFAULT_PRICES), ...getSettings().get<Record<string, ModelPrice>>('budget.prices', {}) };
+    // Responses name dated snapshots such as gpt-4o-2024-08-06, so match the longest prefix
+    const name = model.toLowerCase().replace(/^models\//, '');
+    const match = Object.keys(prices)
+        .filter(prefix => name.startsWith(prefix.toLowerCase()))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? prices[match] : undefined;
+}
+
+function startOfDay(): string {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate()).toISOString();
+}
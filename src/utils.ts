@@ -0,0 +1,10 @@
+/**
+ * A plain object, as opposed to null or an array, e.g. a parsed JSON object.
+ */
+export function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,14 +1,45 @@
 import * as vscode from 'vscode';
 import { AIProvider } from '../aiProvider';
+import { CameraSnapshot } from '../cameraManager';
+import { ChatAttachment, ChatSession } from '../chatSession';
+import { formatCodeDocument } from '../codeGeneration';
+import { Device, DeviceRegistry } from '../deviceRegistry';
+import { FixWorkflow } from '../fixWorkflow';
+import { HistoryStore } from '../historyStore';
+
+// Number of recent analyses shown for the selected device
+const RECENT_ANALYSES = 10;
+
+// Fence info strings models use for code, mapped to editor language ids
+const CODE_LANGUAGES: Record<string, string> = {
+    'c++': 'cpp',
+    cc: 'cpp',
+    h: 'c',
+    ino: 'cpp',
+    arduino: 'cpp'
+};
+
+type ChatFrame = 'none' | 'latest' | 'history';
 
 export class AIAnalysisProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
-    private analysisHistory: string[] = [];
+    private readonly chat: ChatSession;
+    // Reply streaming in, restored when the view is shown again
+    private chatReply?: string;
+    // Bumped by each message and New Chat, so a reply to a cleared chat is not shown
+    private chatRequest = 0;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly aiProvider: AIProvider
-    ) {}
+        private readonly aiProvider: AIProvider,
+        private readonly registry: DeviceRegistry,
+        private readonly history: HistoryStore,
+        private readonly workflow: FixWorkflow
+    ) {
+        this.chat = new ChatSession(aiProvider);
+        registry.onDidChangeSelection(device => this.showDevice(device));
+        history.onDidChange(() => this.showDevice(registry.getSelected()));
+    }
 
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
@@ -23,22 +54,38 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
         };
 
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+        this.showDevice(this.registry.getSelected());
+        this.postChat();
 
         webviewView.webview.onDidReceiveMessage(data => {
             switch (data.type) {
+                case 'startAnalysis':
+                    this.startAnalysis();
+                    break;
+                case 'chatSend':
+                    this.sendChatMessage(data.text, data.frame, data.historyId);
+                    break;
+                case 'chatClear':
+                    this.chat.clear();
+                    this.chatRequest++;
+                    this.chatReply = undefined;
+                    this.postChat();
+                    break;
+                case 'openCode':
+                    this.openCode(data.code, data.language);
+                    break;
                 case 'generateCode':
-                    this.generateCode(data.description);
+                    if (data.editActiveFile) {
+                        this.editActiveFile(data.description, data.attachFrame);
+                    } else {
+                        this.generateCode(data.description, data.attachFrame);
+                    }
                     break;
                 case 'clearHistory':
                     this.clearHistory();
                     break;
             }
         });
-
-        // Register command to update analysis
-        vscode.commands.registerCommand('double-vision.updateAnalysis', (analysis: string) => {
-            this.addAnalysis(analysis);
-        });
     }
 
     private _getHtmlForWebview(webview: vscode.Webview): string {
@@ -130,6 +177,26 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                     background-color: var(--vscode-textPreformat-background);
                     border: 1px solid var(--vscode-panel-border);
                 }
+                .issue {
+                    border-left: 3px solid var(--vscode-panel-border);
+                    padding: 4px 8px;
+                    margin: 6px 0;
+                }
+                .issue.error {
+                    border-left-color: var(--vscode-editorError-foreground);
+                }
+                .issue.warning {
+                    border-left-color: var(--vscode-editorWarning-foreground);
+                }
+                .issue.info {
+                    border-left-color: var(--vscode-editorInfo-foreground);
+                }
+                .severity {
+                    font-size: 10px;
+                    font-weight: bold;
+                    text-transform: uppercase;
+                    margin-right: 6px;
+                }
                 .suggestion {
                     background-color: var(--vscode-merge-currentContentBackground);
                     border-left: 3px solid var(--vscode-merge-currentHeaderBackground);
@@ -137,6 +204,66 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                     margin: 8px 0;
                     border-radius: 0 4px 4px 0;
                 }
+                .chat {
+                    margin-bottom: 15px;
+                }
+                .chat-message {
+                    border-radius: 4px;
+                    padding: 8px;
+                    margin-bottom: 8px;
+                    line-height: 1.4;
+                }
+                .chat-message.user {
+                    background-color: var(--vscode-textPreformat-background);
+                    margin-left: 20px;
+                }
+                .chat-message.assistant {
+                    background-color: var(--vscode-input-background);
+                    border: 1px solid var(--vscode-panel-border);
+                    margin-right: 20px;
+                }
+                .chat-text {
+                    white-space: pre-wrap;
+                }
+                .chat-frame {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-bottom: 4px;
+                }
+                .chat-code {
+                    margin: 6px 0;
+                }
+                .chat-code pre {
+                    background-color: var(--vscode-textCodeBlock-background);
+                    padding: 8px;
+                    margin: 0 0 4px 0;
+                    overflow-x: auto;
+                    font-family: var(--vscode-editor-font-family);
+                    font-size: 12px;
+                }
+                .chat-actions {
+                    display: flex;
+                    gap: 8px;
+                    margin-top: 5px;
+                    align-items: center;
+                    flex-wrap: wrap;
+                }
+                select {
+                    background-color: var(--vscode-dropdown-background);
+                    color: var(--vscode-dropdown-foreground);
+                    border: 1px solid var(--vscode-dropdown-border);
+                    padding: 4px;
+                    font-size: 12px;
+                }
+                .chat-attachment {
+                    font-size: 12px;
+                    margin-bottom: 5px;
+                }
+                button.link {
+                    background: none;
+                    color: var(--vscode-textLink-foreground);
+                    padding: 0 4px;
+                }
             </style>
         </head>
         <body>
@@ -145,11 +272,36 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                 <button onclick="clearHistory()" class="secondary">Clear History</button>
             </div>
 
+            <div class="chat">
+                <div id="chatThread"></div>
+                <div id="chatAttachment" class="chat-attachment" style="display: none;">
+                    📎 <span id="chatAttachmentLabel"></span>
+                    <button class="link" onclick="clearHistoryFrame()" title="Remove frame">✕</button>
+                </div>
+                <textarea id="chatInput" placeholder="Ask about the display, e.g. why is the slider misaligned? (Ctrl+Enter to send)"></textarea>
+                <div class="chat-actions">
+                    <select id="chatFrame">
+                        <option value="latest">Attach latest frame</option>
+                        <option value="none">No frame</option>
+                    </select>
+                    <button id="chatSend" onclick="sendChat()">Send</button>
+                    <button onclick="newChat()" class="secondary">New Chat</button>
+                </div>
+            </div>
+
             <div class="input-group">
                 <textarea id="codeDescription" placeholder="Describe the interface you want to create with LVGL..."></textarea>
+                <label style="display: block; margin-top: 5px; font-size: 12px;">
+                    <input type="checkbox" id="attachFrame" checked> Use current camera frame as reference
+                </label>
+                <label style="display: block; margin-top: 5px; font-size: 12px;">
+                    <input type="checkbox" id="editActiveFile"> Edit the active source file (review as a diff)
+                </label>
                 <button onclick="generateCode()" style="margin-top: 5px;">Generate LVGL Code</button>
             </div>
 
+            <div id="deviceName" style="font-weight: bold; margin-bottom: 8px;"></div>
+
             <div id="currentStatus" class="status info">
                 Ready for analysis
             </div>
@@ -167,15 +319,139 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                 
                 function startAnalysis() {
                     vscode.postMessage({ type: 'startAnalysis' });
-                    document.getElementById('currentStatus').textContent = 'Analysis started...';
+                    document.getElementById('currentStatus').textContent = 'Starting monitoring...';
                 }
                 
+                const FENCE = '\\u0060\\u0060\\u0060';
+                // Past frame picked with "Ask about this frame", sent instead of the latest one
+                let historyFrame = null;
+                let replyElement = null;
+                
+                function sendChat() {
+                    const input = document.getElementById('chatInput');
+                    const text = input.value.trim();
+                    if (!text || replyElement) {
+                        return;
+                    }
+                    const frame = historyFrame ? 'history' : document.getElementById('chatFrame').value;
+                    const label = historyFrame ? historyFrame.label : (frame === 'latest' ? 'latest frame' : undefined);
+                    vscode.postMessage({ type: 'chatSend', text: text, frame: frame, historyId: historyFrame && historyFrame.id });
+                    
+                    addChatMessage({ role: 'user', text: text, frame: label });
+                    replyElement = addChatMessage({ role: 'assistant', text: '…' });
+                    input.value = '';
+                    clearHistoryFrame();
+                    setChatBusy(true);
+                }
+                
+                function newChat() {
+                    vscode.postMessage({ type: 'chatClear' });
+                }
+                
+                function attachHistoryFrame(id, label) {
+                    historyFrame = { id: id, label: label };
+                    document.getElementById('chatAttachmentLabel').textContent = label;
+                    document.getElementById('chatAttachment').style.display = 'block';
+                    document.getElementById('chatInput').focus();
+                }
+                
+                function clearHistoryFrame() {
+                    historyFrame = null;
+                    document.getElementById('chatAttachment').style.display = 'none';
+                }
+                
+                function setChatBusy(busy) {
+                    document.getElementById('chatSend').disabled = busy;
+                }
+                
+                function addChatMessage(message) {
+                    const item = document.createElement('div');
+                    item.className = 'chat-message ' + message.role;
+                    renderChatMessage(item, message);
+                    document.getElementById('chatThread').appendChild(item);
+                    item.scrollIntoView({ block: 'nearest' });
+                    return item;
+                }
+                
+                function renderChatMessage(item, message) {
+                    item.innerHTML = '';
+                    if (message.frame) {
+                        const frame = document.createElement('div');
+                        frame.className = 'chat-frame';
+                        frame.textContent = '📎 ' + message.frame;
+                        item.appendChild(frame);
+                    }
+                    if (message.role === 'user') {
+                        appendText(item, message.text);
+                        return;
+                    }
+                    
+                    // Fenced code becomes a block that opens in an editor; an unclosed
+                    // fence is code still streaming in
+                    let prose = [];
+                    let code = null;
+                    let language = '';
+                    for (const line of message.text.split('\\n')) {
+                        if (line.trim().startsWith(FENCE)) {
+                            if (code === null) {
+                                appendText(item, prose.join('\\n'));
+                                prose = [];
+                                code = [];
+                                language = line.trim().slice(3).trim();
+                            } else {
+                                appendCode(item, code.join('\\n'), language);
+                                code = null;
+                            }
+                        } else if (code !== null) {
+                            code.push(line);
+                        } else {
+                            prose.push(line);
+                        }
+                    }
+                    if (code !== null) {
+                        appendCode(item, code.join('\\n'), language);
+                    }
+                    appendText(item, prose.join('\\n'));
+                }
+                
+                function appendText(item, text) {
+                    if (text.trim()) {
+                        const div = document.createElement('div');
+                        div.className = 'chat-text';
+                        div.textContent = text.trim();
+                        item.appendChild(div);
+                    }
+                }
+                
+                function appendCode(item, code, language) {
+                    const block = document.createElement('div');
+                    block.className = 'chat-code';
+                    const pre = document.createElement('pre');
+                    pre.textContent = code;
+                    const open = document.createElement('button');
+                    open.className = 'secondary';
+                    open.textContent = 'Open in Editor';
+                    open.onclick = () => vscode.postMessage({ type: 'openCode', code: code, language: language });
+                    block.appendChild(pre);
+                    block.appendChild(open);
+                    item.appendChild(block);
+                }
+                
+                document.getElementById('chatInput').addEventListener('keydown', event => {
+                    if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                        event.preventDefault();
+                        sendChat();
+                    }
+                });
+                
                 function generateCode() {
                     const description = document.getElementById('codeDescription').value;
                     if (description.trim()) {
                         vscode.postMessage({ 
                             type: 'generateCode', 
-                            description: description 
+                            description: description,
+                            attachFrame: document.getElementById('attachFrame').checked,
+                            editActiveFile: document.getElementById('editActiveFile').checked
                         });
                         document.getElementById('currentStatus').textContent = 'Generating LVGL code...';
                     } else {
@@ -187,7 +463,9 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                     vscode.postMessage({ type: 'clearHistory' });
                 }
                 
-                function addAnalysisItem(analysis, timestamp) {
+                const severityIcons = { error: '⛔', warning: '⚠️', info: 'ℹ️' };
+                
+                function addAnalysisItem(analysis) {
                     const historyContainer = document.getElementById('analysisHistory');
                     const emptyState = document.getElementById('emptyState');
                     
@@ -198,22 +476,50 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                     
                     const timestampDiv = document.createElement('div');
                     timestampDiv.className = 'analysis-timestamp';
-                    timestampDiv.textContent = new Date(timestamp).toLocaleString();
+                    timestampDiv.textContent = (analysis.pinned ? '📌 ' : '') +
+                        new Date(analysis.timestamp).toLocaleString() +
+                        ' · confidence ' + Math.round(analysis.confidence * 100) + '%';
                     
                     const contentDiv = document.createElement('div');
                     contentDiv.className = 'analysis-content';
-                    contentDiv.textContent = analysis;
+                    contentDiv.textContent = analysis.description;
                     
-                    // Add suggestions if analysis contains them
-                    if (analysis.toLowerCase().includes('suggestion')) {
+                    for (const issue of analysis.issues) {
+                        const issueDiv = document.createElement('div');
+                        issueDiv.className = 'issue ' + issue.severity;
+                        
+                        const severitySpan = document.createElement('span');
+                        severitySpan.className = 'severity';
+                        severitySpan.textContent = severityIcons[issue.severity] + ' ' + issue.severity;
+                        issueDiv.appendChild(severitySpan);
+                        issueDiv.appendChild(document.createTextNode(
+                            (issue.element ? issue.element + ': ' : '') + issue.description
+                        ));
+                        contentDiv.appendChild(issueDiv);
+                    }
+                    
+                    for (const suggestion of analysis.suggestions) {
                         const suggestionDiv = document.createElement('div');
                         suggestionDiv.className = 'suggestion';
-                        suggestionDiv.innerHTML = '<strong>💡 AI Suggestion:</strong> Check the analysis above for improvement recommendations.';
+                        const label = document.createElement('strong');
+                        label.textContent = '💡 ';
+                        suggestionDiv.appendChild(label);
+                        suggestionDiv.appendChild(document.createTextNode(suggestion));
                         contentDiv.appendChild(suggestionDiv);
                     }
                     
+                    const askButton = document.createElement('button');
+                    askButton.className = 'secondary';
+                    askButton.style.marginTop = '6px';
+                    askButton.textContent = '💬 Ask about this frame';
+                    askButton.onclick = () => attachHistoryFrame(
+                        analysis.historyId,
+                        'frame of ' + new Date(analysis.timestamp).toLocaleString()
+                    );
+                    
                     item.appendChild(timestampDiv);
                     item.appendChild(contentDiv);
+                    item.appendChild(askButton);
                     
                     historyContainer.insertBefore(item, historyContainer.firstChild);
                     
@@ -229,24 +535,45 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
                     
                     historyContainer.innerHTML = '';
                     emptyState.style.display = 'block';
-                    
-                    document.getElementById('currentStatus').textContent = 'History cleared';
                 }
                 
                 // Listen for messages from extension
                 window.addEventListener('message', event => {
                     const message = event.data;
                     switch (message.type) {
-                        case 'addAnalysis':
-                            addAnalysisItem(message.analysis, message.timestamp);
-                            document.getElementById('currentStatus').textContent = 'New analysis received';
-                            break;
-                        case 'clearHistory':
+                        case 'setHistory':
                             clearAnalysisHistory();
+                            message.analyses.forEach(addAnalysisItem);
+                            document.getElementById('currentStatus').textContent = message.analyses.length > 0
+                                ? 'Latest analysis: ' + new Date(message.analyses[message.analyses.length - 1].timestamp).toLocaleTimeString()
+                                : 'Ready for analysis';
+                            break;
+                        case 'setDevice':
+                            document.getElementById('deviceName').textContent = message.name || 'No device';
                             break;
                         case 'updateStatus':
                             document.getElementById('currentStatus').textContent = message.status;
                             break;
+                        case 'setChat':
+                            document.getElementById('chatThread').innerHTML = '';
+                            message.turns.forEach(addChatMessage);
+                            replyElement = message.reply !== undefined
+                                ? addChatMessage({ role: 'assistant', text: message.reply || '…' })
+                                : null;
+                            setChatBusy(replyElement !== null);
+                            break;
+                        case 'chatUpdate':
+                            if (replyElement) {
+                                renderChatMessage(replyElement, { role: 'assistant', text: message.text || '…' });
+                                replyElement.scrollIntoView({ block: 'nearest' });
+                            }
+                            break;
+                        case 'chatError':
+                            document.getElementById('currentStatus').textContent = 'Chat error: ' + message.error;
+                            if (!document.getElementById('chatInput').value) {
+                                document.getElementById('chatInput').value = message.text;
+                            }
+                            break;
                     }
                 });
             </script>
@@ -254,31 +581,135 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
         </html>`;
     }
 
-    public addAnalysis(analysis: string): void {
-        if (this._view) {
-            this.analysisHistory.push(analysis);
-            this._view.webview.postMessage({ 
-                type: 'addAnalysis', 
-                analysis: analysis,
-                timestamp: new Date().toISOString()
+    private async showDevice(device: Device | undefined): Promise<void> {
+        if (!this._view) {
+            return;
+        }
+
+        this._view.webview.postMessage({ type: 'setDevice', name: device?.config.name });
+        try {
+            const entries = device ? await this.history.list({ deviceId: device.config.id, limit: RECENT_ANALYSES }) : [];
+            // Oldest first; the webview inserts each item at the top
+            this._view.webview.postMessage({
+                type: 'setHistory',
+                analyses: entries.reverse().map(entry => ({
+                    ...entry.analysis,
+                    timestamp: entry.analysis.timestamp.toISOString(),
+                    pinned: entry.pinned,
+                    historyId: entry.id
+                }))
             });
+        } catch (error) {
+            console.error('Failed to load analysis history:', error);
         }
     }
 
-    private async generateCode(description: string): Promise<void> {
+    /**
+     * Starts monitoring the selected device; its analyses then appear in the history.
+     */
+    private async startAnalysis(): Promise<void> {
+        await vscode.commands.executeCommand('double-vision.startMonitoring');
+        const device = this.registry.getSelected();
+        this._view?.webview.postMessage({
+            type: 'updateStatus',
+            status: device?.monitoring.isActive() ? `Monitoring ${device.config.name}` : 'Ready for analysis'
+        });
+    }
+
+    /**
+     * Sends a chat message with the chosen frame, streaming the reply into the view.
+     */
+    private async sendChatMessage(text: string, frame: ChatFrame, historyId?: string): Promise<void> {
+        const device = this.registry.getSelected();
+        const request = ++this.chatRequest;
+        try {
+            const attachment = await this.getChatAttachment(frame, historyId);
+            this.chatReply = '';
+            await this.chat.send(text, attachment, reply => {
+                if (request === this.chatRequest) {
+                    this.chatReply = reply;
+                    this._view?.webview.postMessage({ type: 'chatUpdate', text: reply });
+                }
+            }, await device?.monitoring.getWidgetTree());
+        } catch (error) {
+            if (request === this.chatRequest) {
+                vscode.window.showErrorMessage(`Failed to send chat message: ${error}`);
+                this._view?.webview.postMessage({ type: 'chatError', error: String(error), text });
+            }
+        }
+        if (request === this.chatRequest) {
+            this.chatReply = undefined;
+            this.postChat();
+        }
+    }
+
+    private async getChatAttachment(frame: ChatFrame, historyId?: string): Promise<ChatAttachment | undefined> {
+        if (frame === 'latest') {
+            const device = this.registry.getSelected();
+            const snapshot = await this.captureReferenceFrame();
+            if (!device || !snapshot) {
+                throw new Error('No connected camera to take the latest frame from; connect one or choose "No frame"');
+            }
+            return {
+                ...snapshot,
+                label: `latest frame from ${device.config.name} (${snapshot.timestamp.toLocaleTimeString()})`
+            };
+        }
+        if (frame === 'history' && historyId) {
+            const entry = await this.history.get(historyId);
+            if (!entry) {
+                throw new Error('The frame is no longer in the history');
+            }
+            return {
+                ...await this.history.readImage(entry),
+                label: `frame from ${entry.deviceName} captured ${entry.capturedAt.toLocaleString()}`
+            };
+        }
+        return undefined;
+    }
+
+    private postChat(): void {
+        this._view?.webview.postMessage({
+            type: 'setChat',
+            turns: this.chat.getTurns().map(turn => ({
+                role: turn.role,
+                text: turn.text,
+                frame: turn.attachment?.label
+            })),
+            reply: this.chatReply
+        });
+    }
+
+    private async openCode(code: string, language: string): Promise<void> {
+        const id = language.toLowerCase();
         try {
-            const code = await this.aiProvider.generateLVGLCode(description);
-            
             const doc = await vscode.workspace.openTextDocument({
                 content: code,
-                language: 'c'
+                language: CODE_LANGUAGES[id] ?? (id || 'c')
+            });
+            await vscode.window.showTextDocument(doc);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open code: ${error}`);
+        }
+    }
+
+    private async generateCode(description: string, attachFrame: boolean): Promise<void> {
+        try {
+            const snapshot = attachFrame ? await this.captureReferenceFrame() : undefined;
+            const result = await this.aiProvider.generateLVGLCode(description, snapshot);
+            
+            const doc = await vscode.workspace.openTextDocument({
+                content: formatCodeDocument(result),
+                language: result.language
             });
             await vscode.window.showTextDocument(doc);
             
             if (this._view) {
                 this._view.webview.postMessage({ 
                     type: 'updateStatus', 
-                    status: 'LVGL code generated and opened in editor'
+                    status: snapshot
+                        ? 'LVGL code generated from the current frame and opened in editor'
+                        : 'LVGL code generated and opened in editor'
                 });
             }
         } catch (error) {
@@ -292,10 +723,66 @@ export class AIAnalysisProvider implements vscode.WebviewViewProvider {
         }
     }
 
-    private clearHistory(): void {
-        this.analysisHistory = [];
-        if (this._view) {
-            this._view.webview.postMessage({ type: 'clearHistory' });
+    /**
+     * Has the AI apply the description to the active editor's file, proposed as
+     * a reviewable edit instead of a new document.
+     */
+    private async editActiveFile(description: string, attachFrame: boolean): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.uri.scheme !== 'file') {
+            vscode.window.showWarningMessage('Open the source file to edit first');
+            this._view?.webview.postMessage({ type: 'updateStatus', status: 'No source file open' });
+            return;
+        }
+
+        try {
+            const snapshot = attachFrame ? await this.captureReferenceFrame() : undefined;
+            this._view?.webview.postMessage({ type: 'updateStatus', status: 'Waiting for review of the proposed edit' });
+            await this.workflow.editFile(editor.document.uri, description, snapshot, {
+                deviceId: this.registry.getSelected()?.config.id
+            });
+            this._view?.webview.postMessage({ type: 'updateStatus', status: 'Ready for analysis' });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to edit file: ${error}`);
+            this._view?.webview.postMessage({ type: 'updateStatus', status: `Error: ${error}` });
+        }
+    }
+
+    private async captureReferenceFrame(): Promise<CameraSnapshot | undefined> {
+        const camera = this.registry.getSelected()?.camera;
+        if (!camera || !camera.isConnected()) {
+            return undefined;
+        }
+
+        try {
+            return await camera.takeSnapshot();
+        } catch (error) {
+            // Generate from the description alone rather than failing the request
+            console.error('Failed to capture reference frame:', error);
+            return undefined;
+        }
+    }
+
+    private async clearHistory(): Promise<void> {
+        const selected = this.registry.getSelected();
+        if (!selected) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Delete the saved analysis history of ${selected.config.name}? Pinned entries are kept.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm !== 'Delete') {
+            return;
+        }
+
+        try {
+            const removed = await this.history.deleteUnpinned({ deviceId: selected.config.id });
+            vscode.window.showInformationMessage(`Deleted ${removed} history entr${removed === 1 ? 'y' : 'ies'}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to clear history: ${error}`);
         }
     }
 }
\ No newline at end of file
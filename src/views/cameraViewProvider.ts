@@ -1,17 +1,38 @@
 import * as vscode from 'vscode';
-import { CameraManager, CameraSnapshot } from '../cameraManager';
+import { CameraSnapshot, CONNECTION_STATE_LABELS } from '../cameraManager';
+import { Device, DeviceRegistry } from '../deviceRegistry';
+import { FrameSubscription } from '../frameBus';
+import { createCalibration, DisplayRotation, Point, suggestCorners } from '../calibration';
+import { flattenWidgets } from '../widgetTree';
+import { describeInput, frameToPanel, InputCommand, InputKey } from '../inputInjection';
+
+interface InputGesture {
+    gesture: 'tap' | 'swipe' | 'key';
+    /** Fractions of the shown frame's width and height */
+    from?: Point;
+    to?: Point;
+    durationMs?: number;
+    key?: InputKey;
+}
 
 export class CameraViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
+    private frameSubscription?: FrameSubscription;
+    private showWidgets = false;
+    private widgetTimer?: NodeJS.Timeout;
+    // Bumped whenever the overlay is turned off or restarted, so trees fetched before are not posted
+    private widgetGeneration = 0;
+    // Whether the frame on screen was perspective corrected, for mapping clicks on it
+    private lastFrameCorrected = false;
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
-        private readonly cameraManager: CameraManager
+        private readonly registry: DeviceRegistry
     ) {
-        // Set up camera callback to update webview
-        this.cameraManager.setImageCallback((snapshot) => {
-            this.updateCameraFeed(snapshot);
-        });
+        // Follow the selected device's camera feed
+        this.followDevice(registry.getSelected());
+        registry.onDidChangeSelection(device => this.followDevice(device));
+        registry.onDidChangeDevices(() => this.postState());
     }
 
     public resolveWebviewView(
@@ -27,6 +48,8 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
         };
 
         webviewView.webview.html = this._getHtmlForWebview(webviewView.webview);
+        this.postDevice(this.registry.getSelected());
+        this.postState();
 
         webviewView.webview.onDidReceiveMessage(data => {
             switch (data.type) {
@@ -36,8 +59,21 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
                 case 'connect':
                     vscode.commands.executeCommand('double-vision.connectCamera');
                     break;
+                case 'calibrate':
+                    this.startCalibration();
+                    break;
+                case 'saveCalibration':
+                    this.saveCalibration(data);
+                    break;
+                case 'toggleWidgets':
+                    this.setWidgetOverlay(!this.showWidgets);
+                    break;
+                case 'input':
+                    this.injectInput(data);
+                    break;
             }
         });
+        webviewView.onDidDispose(() => this.setWidgetOverlay(false));
     }
 
     private _getHtmlForWebview(webview: vscode.Webview): string {
@@ -95,6 +131,75 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
                     background-color: var(--vscode-testing-iconFailed);
                     color: white;
                 }
+                .status.degraded {
+                    background-color: var(--vscode-testing-iconQueued);
+                    color: white;
+                }
+                .device-name {
+                    font-weight: bold;
+                    margin-bottom: 8px;
+                }
+                .calibration {
+                    margin-top: 10px;
+                    font-size: 12px;
+                }
+                .feed-frame {
+                    position: relative;
+                    display: inline-block;
+                    max-width: 100%;
+                }
+                .feed-frame canvas {
+                    position: absolute;
+                    left: 0;
+                    top: 0;
+                    pointer-events: none;
+                }
+                .feed-frame.touch-mode img {
+                    cursor: crosshair;
+                }
+                .key-row {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 4px;
+                    justify-content: center;
+                    margin-top: 6px;
+                }
+                .key-row button {
+                    padding: 4px 8px;
+                }
+                .overlay-note {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 4px;
+                }
+                .calibration-frame {
+                    position: relative;
+                    display: inline-block;
+                    max-width: 100%;
+                }
+                .calibration-frame img {
+                    display: block;
+                    max-width: 100%;
+                    height: auto;
+                }
+                .calibration-frame canvas {
+                    position: absolute;
+                    left: 0;
+                    top: 0;
+                    cursor: crosshair;
+                }
+                .calibration-fields {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    margin-top: 8px;
+                }
+                .calibration-fields input, .calibration-fields select {
+                    width: 70px;
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border, transparent);
+                }
                 .placeholder {
                     background-color: var(--vscode-input-background);
                     border: 2px dashed var(--vscode-panel-border);
@@ -105,17 +210,62 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
             </style>
         </head>
         <body>
+            <div id="deviceName" class="device-name"></div>
             <div class="camera-container">
                 <div id="cameraPlaceholder" class="placeholder">
                     <p>📷 No camera connected</p>
                     <p>Click "Connect" to connect to your ESP32 camera</p>
                 </div>
-                <img id="cameraFeed" class="camera-feed" style="display: none;" alt="ESP32 Camera Feed" />
+                <div id="feedFrame" class="feed-frame">
+                    <img id="cameraFeed" class="camera-feed" style="display: none;" alt="ESP32 Camera Feed" draggable="false" />
+                    <canvas id="widgetOverlay"></canvas>
+                </div>
+                <div id="overlayNote" class="overlay-note" style="display: none;"></div>
+                <div id="keyRow" class="key-row" style="display: none;">
+                    <button onclick="sendKey('prev')" title="Previous object">⇤</button>
+                    <button onclick="sendKey('left')">◀</button>
+                    <button onclick="sendKey('up')">▲</button>
+                    <button onclick="sendKey('down')">▼</button>
+                    <button onclick="sendKey('right')">▶</button>
+                    <button onclick="sendKey('next')" title="Next object">⇥</button>
+                    <button onclick="sendKey('enter')">Enter</button>
+                    <button onclick="sendKey('esc')">Esc</button>
+                </div>
+                <div id="inputNote" class="overlay-note" style="display: none;"></div>
             </div>
             
             <div class="controls">
                 <button onclick="connectCamera()">Connect</button>
                 <button onclick="takePicture()">Snapshot</button>
+                <button onclick="calibrate()">Calibrate</button>
+                <button id="widgetsButton" onclick="toggleWidgets()">Widgets</button>
+                <button id="touchButton" onclick="toggleTouch()">Touch</button>
+            </div>
+            
+            <div id="calibration" class="calibration" style="display: none;">
+                <p>Click the four corners of the display, in any order. Click again to move the nearest corner.</p>
+                <div class="calibration-frame">
+                    <img id="calibrationImage" alt="Raw camera frame" />
+                    <canvas id="calibrationOverlay"></canvas>
+                </div>
+                <div class="calibration-fields">
+                    <label>Width <input id="displayWidth" type="number" min="1" /></label>
+                    <label>Height <input id="displayHeight" type="number" min="1" /></label>
+                    <label>Rotation
+                        <select id="displayRotation">
+                            <option value="0">0°</option>
+                            <option value="90">90°</option>
+                            <option value="180">180°</option>
+                            <option value="270">270°</option>
+                        </select>
+                    </label>
+                </div>
+                <div class="controls">
+                    <button id="autoCorners" onclick="useSuggestedCorners()">Auto-detect</button>
+                    <button onclick="resetCorners()">Reset</button>
+                    <button onclick="saveCalibration()">Save</button>
+                    <button onclick="closeCalibration()">Cancel</button>
+                </div>
             </div>
             
             <div id="status" class="status disconnected">Disconnected</div>
@@ -135,24 +285,272 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
                     vscode.postMessage({ type: 'takePicture' });
                 }
                 
-                function updateCameraFeed(imageData) {
+                let calibration = null;
+                let widgetTree = null;
+                
+                function toggleWidgets() {
+                    vscode.postMessage({ type: 'toggleWidgets' });
+                }
+                
+                function setOverlayNote(text) {
+                    const note = document.getElementById('overlayNote');
+                    note.textContent = text || '';
+                    note.style.display = text ? 'block' : 'none';
+                }
+                
+                const WIDGET_COLORS = ['#00ff88', '#4fc3f7', '#ffd54f', '#ce93d8', '#ff8a65'];
+                
+                function drawWidgets() {
+                    const img = document.getElementById('cameraFeed');
+                    const canvas = document.getElementById('widgetOverlay');
+                    canvas.width = img.clientWidth;
+                    canvas.height = img.clientHeight;
+                    const ctx = canvas.getContext('2d');
+                    ctx.clearRect(0, 0, canvas.width, canvas.height);
+                    if (!widgetTree || !widgetTree.aligned || img.style.display === 'none') {
+                        return;
+                    }
+                    
+                    // Widget coordinates are display pixels; corrected frames cover exactly the display
+                    const scaleX = canvas.width / widgetTree.displayWidth;
+                    const scaleY = canvas.height / widgetTree.displayHeight;
+                    ctx.font = '10px sans-serif';
+                    ctx.lineWidth = 1;
+                    widgetTree.widgets.forEach(widget => {
+                        const color = widget.overflow ? '#ff5252' : WIDGET_COLORS[widget.depth % WIDGET_COLORS.length];
+                        ctx.strokeStyle = color;
+                        ctx.fillStyle = color;
+                        ctx.setLineDash(widget.overflow ? [4, 2] : []);
+                        ctx.strokeRect(widget.x * scaleX + 0.5, widget.y * scaleY + 0.5, widget.width * scaleX, widget.height * scaleY);
+                        ctx.fillText(widget.type, widget.x * scaleX + 2, widget.y * scaleY + 10);
+                    });
+                }
+                
+                function updateWidgetTree(message) {
+                    const button = document.getElementById('widgetsButton');
+                    if (!message.enabled) {
+                        widgetTree = null;
+                        button.textContent = 'Widgets';
+                        setOverlayNote('');
+                    } else if (message.error) {
+                        widgetTree = null;
+                        button.textContent = 'Hide Widgets';
+                        setOverlayNote(message.error);
+                    } else {
+                        widgetTree = message;
+                        button.textContent = 'Hide Widgets';
+                        const overflowing = message.widgets.filter(w => w.overflow).length;
+                        setOverlayNote(!message.aligned
+                            ? 'Calibrate the display to align the widget overlay with the camera frame'
+                            : message.widgets.length + ' widgets' + (overflowing > 0 ? ', ' + overflowing + ' overflowing (red)' : ''));
+                    }
+                    drawWidgets();
+                }
+                
+                // In touch mode, clicks and drags on the feed are sent to the device as input
+                let touchMode = false;
+                let pressStart = null;
+                // Pointer travel, in view pixels, below which a press counts as a tap
+                const TAP_SLOP = 6;
+                
+                function toggleTouch() {
+                    touchMode = !touchMode;
+                    pressStart = null;
+                    document.getElementById('feedFrame').classList.toggle('touch-mode', touchMode);
+                    document.getElementById('touchButton').textContent = touchMode ? 'Stop Touch' : 'Touch';
+                    document.getElementById('keyRow').style.display = touchMode ? 'flex' : 'none';
+                    setInputNote(touchMode ? 'Click to tap, drag to swipe' : '');
+                }
+                
+                function setInputNote(text) {
+                    const note = document.getElementById('inputNote');
+                    note.textContent = text || '';
+                    note.style.display = text ? 'block' : 'none';
+                }
+                
+                function sendKey(key) {
+                    vscode.postMessage({ type: 'input', gesture: 'key', key });
+                }
+                
+                function feedPoint(event) {
+                    const rect = document.getElementById('cameraFeed').getBoundingClientRect();
+                    return {
+                        x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+                        y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+                        clientX: event.clientX,
+                        clientY: event.clientY,
+                        time: Date.now()
+                    };
+                }
+                
+                document.getElementById('cameraFeed').addEventListener('mousedown', event => {
+                    if (touchMode && event.button === 0) {
+                        event.preventDefault();
+                        pressStart = feedPoint(event);
+                    }
+                });
+                
+                window.addEventListener('mouseup', event => {
+                    if (!pressStart) {
+                        return;
+                    }
+                    const start = pressStart;
+                    const end = feedPoint(event);
+                    pressStart = null;
+                    const from = { x: start.x, y: start.y };
+                    if (Math.hypot(end.clientX - start.clientX, end.clientY - start.clientY) < TAP_SLOP) {
+                        vscode.postMessage({ type: 'input', gesture: 'tap', from });
+                    } else {
+                        vscode.postMessage({
+                            type: 'input',
+                            gesture: 'swipe',
+                            from,
+                            to: { x: end.x, y: end.y },
+                            durationMs: end.time - start.time
+                        });
+                    }
+                });
+                
+                document.getElementById('cameraFeed').addEventListener('load', drawWidgets);
+                window.addEventListener('resize', drawWidgets);
+                
+                function calibrate() {
+                    vscode.postMessage({ type: 'calibrate' });
+                }
+                
+                function showCalibration(message) {
+                    calibration = {
+                        width: message.width,
+                        height: message.height,
+                        suggested: message.suggested,
+                        corners: (message.corners || message.suggested || []).slice()
+                    };
+                    document.getElementById('displayWidth').value = message.displayWidth;
+                    document.getElementById('displayHeight').value = message.displayHeight;
+                    document.getElementById('displayRotation').value = String(message.rotation);
+                    document.getElementById('autoCorners').disabled = !message.suggested;
+                    
+                    const img = document.getElementById('calibrationImage');
+                    img.onload = drawCorners;
+                    img.src = 'data:' + message.mimeType + ';base64,' + message.imageData;
+                    document.getElementById('calibration').style.display = 'block';
+                }
+                
+                function closeCalibration() {
+                    calibration = null;
+                    document.getElementById('calibration').style.display = 'none';
+                }
+                
+                function useSuggestedCorners() {
+                    if (calibration && calibration.suggested) {
+                        calibration.corners = calibration.suggested.slice();
+                        drawCorners();
+                    }
+                }
+                
+                function resetCorners() {
+                    if (calibration) {
+                        calibration.corners = [];
+                        drawCorners();
+                    }
+                }
+                
+                function saveCalibration() {
+                    if (!calibration) {
+                        return;
+                    }
+                    vscode.postMessage({
+                        type: 'saveCalibration',
+                        corners: calibration.corners,
+                        sourceWidth: calibration.width,
+                        sourceHeight: calibration.height,
+                        width: Number(document.getElementById('displayWidth').value),
+                        height: Number(document.getElementById('displayHeight').value),
+                        rotation: Number(document.getElementById('displayRotation').value)
+                    });
+                }
+                
+                function drawCorners() {
+                    const img = document.getElementById('calibrationImage');
+                    const canvas = document.getElementById('calibrationOverlay');
+                    canvas.width = img.clientWidth;
+                    canvas.height = img.clientHeight;
+                    const ctx = canvas.getContext('2d');
+                    ctx.clearRect(0, 0, canvas.width, canvas.height);
+                    if (!calibration) {
+                        return;
+                    }
+                    
+                    // Corners are kept in camera pixels and scaled to the displayed image
+                    const scale = canvas.width / calibration.width;
+                    const points = calibration.corners.map(p => ({ x: p.x * scale, y: p.y * scale }));
+                    ctx.strokeStyle = '#00ff88';
+                    ctx.fillStyle = '#00ff88';
+                    ctx.lineWidth = 2;
+                    if (points.length > 1) {
+                        ctx.beginPath();
+                        points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                        if (points.length === 4) {
+                            ctx.closePath();
+                        }
+                        ctx.stroke();
+                    }
+                    points.forEach(p => {
+                        ctx.beginPath();
+                        ctx.arc(p.x, p.y, 4, 0, Math.PI * 2);
+                        ctx.fill();
+                    });
+                }
+                
+                document.getElementById('calibrationOverlay').addEventListener('click', event => {
+                    if (!calibration) {
+                        return;
+                    }
+                    const canvas = event.target;
+                    const rect = canvas.getBoundingClientRect();
+                    const scale = calibration.width / rect.width;
+                    const point = {
+                        x: Math.round((event.clientX - rect.left) * scale),
+                        y: Math.round((event.clientY - rect.top) * scale)
+                    };
+                    
+                    if (calibration.corners.length < 4) {
+                        calibration.corners.push(point);
+                    } else {
+                        const distance = p => (p.x - point.x) ** 2 + (p.y - point.y) ** 2;
+                        const nearest = calibration.corners.reduce((best, p, i) =>
+                            distance(p) < distance(calibration.corners[best]) ? i : best, 0);
+                        calibration.corners[nearest] = point;
+                    }
+                    drawCorners();
+                });
+                
+                window.addEventListener('resize', drawCorners);
+                
+                function updateCameraFeed(imageData, mimeType, details) {
                     const img = document.getElementById('cameraFeed');
                     const placeholder = document.getElementById('cameraPlaceholder');
-                    const status = document.getElementById('status');
                     const lastUpdate = document.getElementById('lastUpdate');
                     
                     if (imageData) {
-                        img.src = 'data:image/jpeg;base64,' + imageData;
+                        img.src = 'data:' + mimeType + ';base64,' + imageData;
                         img.style.display = 'block';
                         placeholder.style.display = 'none';
-                        status.textContent = 'Connected';
-                        status.className = 'status connected';
-                        lastUpdate.textContent = new Date().toLocaleTimeString();
+                        lastUpdate.textContent = new Date().toLocaleTimeString() + ' · ' + details;
                     } else {
                         img.style.display = 'none';
                         placeholder.style.display = 'block';
-                        status.textContent = 'Disconnected';
-                        status.className = 'status disconnected';
+                    }
+                }
+                
+                function updateState(state, label) {
+                    const status = document.getElementById('status');
+                    status.textContent = label;
+                    status.className = 'status ' + (state === 'streaming'
+                        ? 'connected'
+                        : state === 'disconnected' ? 'disconnected' : 'degraded');
+                    if (state === 'disconnected') {
+                        updateCameraFeed(null);
                     }
                 }
                 
@@ -160,7 +558,21 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
                 window.addEventListener('message', event => {
                     const message = event.data;
                     if (message.type === 'updateFeed') {
-                        updateCameraFeed(message.imageData);
+                        updateCameraFeed(message.imageData, message.mimeType, message.details);
+                    } else if (message.type === 'setState') {
+                        updateState(message.state, message.label);
+                    } else if (message.type === 'setDevice') {
+                        document.getElementById('deviceName').textContent = message.name || 'No device';
+                        updateCameraFeed(null);
+                        closeCalibration();
+                    } else if (message.type === 'calibrate') {
+                        showCalibration(message);
+                    } else if (message.type === 'calibrationSaved') {
+                        closeCalibration();
+                    } else if (message.type === 'widgetTree') {
+                        updateWidgetTree(message);
+                    } else if (message.type === 'inputResult') {
+                        setInputNote(message.text);
                     }
                 });
             </script>
@@ -168,20 +580,233 @@ export class CameraViewProvider implements vscode.WebviewViewProvider {
         </html>`;
     }
 
+    private followDevice(device: Device | undefined): void {
+        this.frameSubscription?.dispose();
+        // The preview only needs the newest frame
+        this.frameSubscription = device?.camera.onFrame(
+            snapshot => this.updateCameraFeed(snapshot),
+            { policy: 'latest' }
+        );
+        this.postDevice(device);
+        // Restart the overlay for the new device
+        this.setWidgetOverlay(this.showWidgets);
+    }
+
+    /**
+     * Turns the widget tree overlay on or off. While on, the selected device's
+     * tree is polled and drawn over the feed.
+     */
+    private setWidgetOverlay(enabled: boolean): void {
+        this.showWidgets = enabled;
+        const generation = ++this.widgetGeneration;
+        if (this.widgetTimer) {
+            clearInterval(this.widgetTimer);
+            this.widgetTimer = undefined;
+        }
+        if (!enabled) {
+            this._view?.webview.postMessage({ type: 'widgetTree', enabled: false });
+            return;
+        }
+
+        const interval = vscode.workspace.getConfiguration('doubleVision').get('widgetTree.refreshInterval', 1000);
+        let fetching = false;
+        const refresh = async () => {
+            if (fetching) {
+                return;
+            }
+            fetching = true;
+            try {
+                await this.postWidgetTree(generation);
+            } finally {
+                fetching = false;
+            }
+        };
+        this.widgetTimer = setInterval(refresh, Math.max(250, interval));
+        refresh();
+    }
+
+    private async postWidgetTree(generation: number): Promise<void> {
+        const device = this.registry.getSelected();
+        if (!this._view || !device) {
+            return;
+        }
+
+        try {
+            const tree = await device.widgets.fetch();
+            if (generation !== this.widgetGeneration) {
+                return;
+            }
+            this._view.webview.postMessage({
+                type: 'widgetTree',
+                enabled: true,
+                displayWidth: tree.displayWidth,
+                displayHeight: tree.displayHeight,
+                // Only perspective-corrected frames line up with display coordinates
+                aligned: device.camera.getCalibration() !== undefined,
+                widgets: flattenWidgets(tree).map(({ node, depth }) => ({
+                    type: node.type,
+                    x: node.x,
+                    y: node.y,
+                    width: node.width,
+                    height: node.height,
+                    overflow: node.overflow,
+                    depth
+                }))
+            });
+        } catch (error) {
+            if (generation !== this.widgetGeneration) {
+                return;
+            }
+            this._view.webview.postMessage({ type: 'widgetTree', enabled: true, error: String(error) });
+        }
+    }
+
+    private postDevice(device: Device | undefined): void {
+        if (this._view) {
+            this._view.webview.postMessage({
+                type: 'setDevice',
+                name: device?.config.name
+            });
+        }
+    }
+
+    private postState(): void {
+        if (this._view) {
+            const state = this.registry.getSelected()?.camera.getState() ?? 'disconnected';
+            this._view.webview.postMessage({
+                type: 'setState',
+                state,
+                label: CONNECTION_STATE_LABELS[state]
+            });
+        }
+    }
+
     private updateCameraFeed(snapshot: CameraSnapshot): void {
         if (this._view) {
+            this.lastFrameCorrected = snapshot.corrected;
             const base64Image = snapshot.imageData.toString('base64');
             this._view.webview.postMessage({ 
                 type: 'updateFeed', 
-                imageData: base64Image 
+                imageData: base64Image,
+                mimeType: snapshot.mimeType,
+                details: `#${snapshot.sequence} ${snapshot.width}x${snapshot.height} ` +
+                    `${snapshot.format.toUpperCase()} ${(snapshot.byteLength / 1024).toFixed(1)} KB via ${snapshot.source}`
+            });
+        }
+    }
+
+    /**
+     * Turns a tap, drag or key press in the view into device input. Points on the
+     * frame are mapped to panel pixels through the display calibration.
+     */
+    private async injectInput(data: InputGesture): Promise<void> {
+        const device = this.registry.getSelected();
+        if (!device) {
+            return;
+        }
+
+        let input: InputCommand;
+        if (data.gesture === 'key' && data.key) {
+            input = { type: 'key', key: data.key };
+        } else {
+            const calibration = device.camera.getCalibration();
+            if (!calibration) {
+                vscode.window.showWarningMessage('Calibrate the display first, so points on the camera image can be mapped to the panel');
+                return;
+            }
+            const from = data.from && frameToPanel(calibration, data.from, this.lastFrameCorrected);
+            const to = data.to && frameToPanel(calibration, data.to, this.lastFrameCorrected);
+            if (!from || (data.gesture === 'swipe' && !to)) {
+                this._view?.webview.postMessage({ type: 'inputResult', text: 'Outside the display; nothing sent' });
+                return;
+            }
+            input = data.gesture === 'swipe' && to
+                ? { type: 'swipe', x1: from.x, y1: from.y, x2: to.x, y2: to.y, durationMs: data.durationMs ?? 300 }
+                : { type: 'touch', x: from.x, y: from.y };
+        }
+
+        try {
+            await this.registry.sendInput(device, input);
+            this._view?.webview.postMessage({ type: 'inputResult', text: `Sent ${describeInput(input)}` });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to send input: ${error}`);
+        }
+    }
+
+    /**
+     * Shows a raw (uncorrected) frame in the view so the display corners can be picked.
+     * Corners are pre-filled from the existing calibration or an automatic suggestion.
+     */
+    public async startCalibration(): Promise<void> {
+        const device = this.registry.getSelected();
+        if (!device || !device.camera.isConnected()) {
+            vscode.window.showWarningMessage('Connect the camera before calibrating the display');
+            return;
+        }
+
+        try {
+            const snapshot = await device.camera.takeSnapshot({ raw: true });
+            const suggested = await suggestCorners(snapshot.imageData).catch(error => {
+                console.error('Corner detection failed:', error);
+                return undefined;
             });
+            const existing = device.camera.getCalibration();
+            const sameSize = existing?.sourceWidth === snapshot.width && existing?.sourceHeight === snapshot.height;
+
+            this._view?.webview.postMessage({
+                type: 'calibrate',
+                imageData: snapshot.imageData.toString('base64'),
+                mimeType: snapshot.mimeType,
+                width: snapshot.width,
+                height: snapshot.height,
+                suggested,
+                corners: sameSize ? existing?.corners : undefined,
+                displayWidth: existing?.width ?? 320,
+                displayHeight: existing?.height ?? 240,
+                rotation: existing?.rotation ?? 0
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start calibration: ${error}`);
+        }
+    }
+
+    private async saveCalibration(data: {
+        corners: Point[];
+        sourceWidth: number;
+        sourceHeight: number;
+        width: number;
+        height: number;
+        rotation: DisplayRotation;
+    }): Promise<void> {
+        const device = this.registry.getSelected();
+        if (!device) {
+            return;
+        }
+
+        try {
+            const calibration = createCalibration(
+                data.corners,
+                data.sourceWidth,
+                data.sourceHeight,
+                data.width,
+                data.height,
+                data.rotation
+            );
+            await this.registry.setCalibration(device, calibration);
+            this._view?.webview.postMessage({ type: 'calibrationSaved' });
+            vscode.window.showInformationMessage(
+                `Calibrated ${device.config.name}: frames are corrected to ${data.width}x${data.height}`
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save calibration: ${error}`);
         }
     }
 
     private async takePicture(): Promise<void> {
         try {
-            if (this.cameraManager.isConnected()) {
-                const snapshot = await this.cameraManager.takeSnapshot();
+            const camera = this.registry.getSelected()?.camera;
+            if (camera && camera.isConnected()) {
+                const snapshot = await camera.takeSnapshot();
                 this.updateCameraFeed(snapshot);
             } else {
                 vscode.window.showWarningMessage('Camera not connected');
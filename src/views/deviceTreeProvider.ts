@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import { Device, DeviceRegistry } from '../deviceRegistry';
+import { CONNECTION_STATE_LABELS } from '../cameraManager';
+
+export class DeviceTreeItem extends vscode.TreeItem {
+    constructor(public readonly device: Device, selected: boolean) {
+        super(device.config.name, vscode.TreeItemCollapsibleState.None);
+
+        const state = device.camera.getState();
+        const connected = device.camera.isConnected();
+        const monitoring = device.monitoring.isActive();
+
+        this.id = device.config.id;
+        this.description = `${device.config.ipAddress}:${device.config.port}${selected ? ' · selected' : ''}`;
+        const calibration = device.camera.getCalibration();
+        this.tooltip = `${device.config.name}\n${CONNECTION_STATE_LABELS[state]}` +
+            `${monitoring ? ', monitoring' : ''}` +
+            `\n${calibration ? `Display calibrated to ${calibration.width}x${calibration.height}` : 'Display not calibrated'}`;
+        this.iconPath = new vscode.ThemeIcon(
+            monitoring ? 'eye'
+                : connected ? 'device-camera'
+                : state === 'disconnected' ? 'debug-disconnect' : 'sync~spin',
+            selected ? new vscode.ThemeColor('charts.green') : undefined
+        );
+        // Used by the view/item/context menus in package.json
+        const connection = connected ? 'connected' : state === 'disconnected' ? 'disconnected' : 'reconnecting';
+        this.contextValue = `device.${connection}${monitoring ? '.monitoring' : ''}`;
+        this.command = {
+            command: 'double-vision.selectDevice',
+            title: 'Select Device',
+            arguments: [this]
+        };
+    }
+}
+
+export class DeviceTreeProvider implements vscode.TreeDataProvider<DeviceTreeItem> {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(private readonly registry: DeviceRegistry) {
+        registry.onDidChangeDevices(() => this._onDidChangeTreeData.fire());
+    }
+
+    public getTreeItem(element: DeviceTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    public getChildren(element?: DeviceTreeItem): DeviceTreeItem[] {
+        if (element) {
+            return [];
+        }
+
+        const selected = this.registry.getSelected();
+        return this.registry.list().map(device => new DeviceTreeItem(device, device === selected));
+    }
+}
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { formatAnalysisMarkdown, getHighestSeverity, IssueSeverity, SEVERITIES } from '../analysisResult';
+import { HistoryEntry, HistoryFilter, HistoryStore } from '../historyStore';
+
+// Upper bound on thumbnails rendered at once; narrow the filters to see older entries
+const MAX_GALLERY_ENTRIES = 200;
+
+/**
+ * Editor panel showing the snapshot history as a filterable thumbnail grid.
+ * Only one gallery is open at a time.
+ */
+export class HistoryGalleryPanel implements vscode.Disposable {
+    private static current?: HistoryGalleryPanel;
+
+    private filter: HistoryFilter = {};
+    private readonly disposables: vscode.Disposable[] = [];
+
+    public static show(history: HistoryStore): void {
+        if (HistoryGalleryPanel.current) {
+            HistoryGalleryPanel.current.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'double-vision-history',
+            'Snapshot History',
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.file(history.directory)]
+            }
+        );
+        HistoryGalleryPanel.current = new HistoryGalleryPanel(panel, history);
+    }
+
+    private constructor(private readonly panel: vscode.WebviewPanel, private readonly history: HistoryStore) {
+        panel.webview.html = this.getHtml();
+        this.disposables.push(
+            panel.onDidDispose(() => this.dispose()),
+            panel.webview.onDidReceiveMessage(message => this.handleMessage(message)),
+            history.onDidChange(() => this.refresh())
+        );
+        this.refresh();
+    }
+
+    public dispose(): void {
+        HistoryGalleryPanel.current = undefined;
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.panel.dispose();
+    }
+
+    private async handleMessage(message: any): Promise<void> {
+        switch (message.type) {
+            case 'filter':
+                this.filter = {
+                    deviceId: message.deviceId || undefined,
+                    from: message.from ? new Date(`${message.from}T00:00:00`) : undefined,
+                    to: message.to ? new Date(`${message.to}T23:59:59.999`) : undefined,
+                    minSeverity: SEVERITIES.includes(message.minSeverity) ? message.minSeverity as IssueSeverity : undefined,
+                    text: message.text || undefined,
+                    pinnedOnly: message.pinnedOnly === true
+                };
+                await this.refresh();
+                break;
+            case 'open': {
+                const entry = await this.history.get(message.id);
+                if (entry) {
+                    await openHistoryEntry(this.history, entry);
+                }
+                break;
+            }
+            case 'pin':
+                await vscode.commands.executeCommand('double-vision.pinHistoryEntry', message.id);
+                break;
+            case 'delete':
+                await vscode.commands.executeCommand('double-vision.deleteHistoryEntry', message.id);
+                break;
+        }
+    }
+
+    private async refresh(): Promise<void> {
+        try {
+            const all = await this.history.list();
+            const devices = new Map(all.map(entry => [entry.deviceId, entry.deviceName]));
+            const matches = await this.history.list(this.filter);
+
+            this.panel.webview.postMessage({
+                type: 'setEntries',
+                devices: [...devices].map(([id, name]) => ({ id, name })),
+                total: matches.length,
+                entries: matches.slice(0, MAX_GALLERY_ENTRIES).map(entry => ({
+                    id: entry.id,
+                    deviceName: entry.deviceName,
+                    capturedAt: entry.capturedAt.toISOString(),
+                    imageUri: this.panel.webview.asWebviewUri(vscode.Uri.file(this.history.imagePath(entry))).toString(),
+                    pinned: entry.pinned,
+                    description: entry.analysis.description,
+                    issueCount: entry.analysis.issues.length,
+                    severity: getHighestSeverity(entry.analysis) ?? null
+                }))
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to load history: ${error}`);
+        }
+    }
+
+    private getHtml(): string {
+        const severityOptions = SEVERITIES.map(severity => `<option value="${severity}">${severity}+</option>`).join('');
+        return `<!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${this.panel.webview.cspSource}; style-src 'unsafe-inline'; script-src 'unsafe-inline';">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Snapshot History</title>
+            <style>
+                body {
+                    padding: 10px;
+                    font-family: var(--vscode-font-family);
+                    background-color: var(--vscode-editor-background);
+                    color: var(--vscode-editor-foreground);
+                    font-size: 13px;
+                }
+                .filters {
+                    display: flex;
+                    gap: 8px;
+                    flex-wrap: wrap;
+                    align-items: center;
+                    margin-bottom: 12px;
+                }
+                input, select {
+                    background-color: var(--vscode-input-background);
+                    color: var(--vscode-input-foreground);
+                    border: 1px solid var(--vscode-input-border);
+                    border-radius: 4px;
+                    padding: 4px 6px;
+                    font-size: 12px;
+                }
+                button {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 4px 10px;
+                    border-radius: 4px;
+                    cursor: pointer;
+                    font-size: 12px;
+                }
+                button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+                button.secondary {
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                }
+                .summary {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-bottom: 8px;
+                }
+                .grid {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+                    gap: 10px;
+                }
+                .card {
+                    background-color: var(--vscode-input-background);
+                    border: 1px solid var(--vscode-panel-border);
+                    border-left-width: 3px;
+                    border-radius: 4px;
+                    padding: 8px;
+                }
+                .card.error {
+                    border-left-color: var(--vscode-editorError-foreground);
+                }
+                .card.warning {
+                    border-left-color: var(--vscode-editorWarning-foreground);
+                }
+                .card.info {
+                    border-left-color: var(--vscode-editorInfo-foreground);
+                }
+                .card img {
+                    width: 100%;
+                    border-radius: 2px;
+                    cursor: pointer;
+                }
+                .meta {
+                    font-size: 11px;
+                    color: var(--vscode-descriptionForeground);
+                    margin: 4px 0;
+                }
+                .description {
+                    max-height: 4.2em;
+                    overflow: hidden;
+                    line-height: 1.4;
+                    margin-bottom: 6px;
+                }
+                .actions {
+                    display: flex;
+                    gap: 6px;
+                }
+                .empty-state {
+                    text-align: center;
+                    padding: 40px 20px;
+                    color: var(--vscode-descriptionForeground);
+                }
+            </style>
+        </head>
+        <body>
+            <div class="filters">
+                <select id="device"><option value="">All devices</option></select>
+                <label>From <input type="date" id="from"></label>
+                <label>To <input type="date" id="to"></label>
+                <select id="minSeverity"><option value="">Any severity</option>${severityOptions}</select>
+                <input type="search" id="text" placeholder="Search analyses...">
+                <label><input type="checkbox" id="pinnedOnly"> Pinned only</label>
+            </div>
+            <div id="summary" class="summary"></div>
+            <div id="grid" class="grid"></div>
+            <div id="emptyState" class="empty-state" style="display: none;">No snapshots match the filters</div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+                const fields = ['device', 'from', 'to', 'minSeverity', 'text', 'pinnedOnly'];
+                let searchTimer;
+
+                function sendFilter() {
+                    vscode.postMessage({
+                        type: 'filter',
+                        deviceId: document.getElementById('device').value,
+                        from: document.getElementById('from').value,
+                        to: document.getElementById('to').value,
+                        minSeverity: document.getElementById('minSeverity').value,
+                        text: document.getElementById('text').value,
+                        pinnedOnly: document.getElementById('pinnedOnly').checked
+                    });
+                }
+
+                fields.forEach(id => {
+                    const element = document.getElementById(id);
+                    if (id === 'text') {
+                        element.addEventListener('input', () => {
+                            clearTimeout(searchTimer);
+                            searchTimer = setTimeout(sendFilter, 300);
+                        });
+                    } else {
+                        element.addEventListener('change', sendFilter);
+                    }
+                });
+
+                function button(label, type, id, secondary) {
+                    const element = document.createElement('button');
+                    element.textContent = label;
+                    if (secondary) {
+                        element.className = 'secondary';
+                    }
+                    element.onclick = () => vscode.postMessage({ type, id });
+                    return element;
+                }
+
+                function setDevices(devices) {
+                    const select = document.getElementById('device');
+                    const selected = select.value;
+                    select.length = 1;
+                    devices.forEach(device => select.add(new Option(device.name, device.id)));
+                    select.value = devices.some(device => device.id === selected) ? selected : '';
+                }
+
+                function renderEntries(entries, total) {
+                    const grid = document.getElementById('grid');
+                    grid.innerHTML = '';
+                    document.getElementById('emptyState').style.display = entries.length === 0 ? 'block' : 'none';
+                    document.getElementById('summary').textContent = total > entries.length
+                        ? 'Showing the newest ' + entries.length + ' of ' + total + ' snapshots'
+                        : total + ' snapshot' + (total === 1 ? '' : 's');
+
+                    entries.forEach(entry => {
+                        const card = document.createElement('div');
+                        card.className = 'card' + (entry.severity ? ' ' + entry.severity : '');
+
+                        const img = document.createElement('img');
+                        img.src = entry.imageUri;
+                        img.alt = entry.deviceName;
+                        img.onclick = () => vscode.postMessage({ type: 'open', id: entry.id });
+                        card.appendChild(img);
+
+                        const meta = document.createElement('div');
+                        meta.className = 'meta';
+                        meta.textContent = (entry.pinned ? '📌 ' : '') + entry.deviceName + ' · ' +
+                            new Date(entry.capturedAt).toLocaleString() + ' · ' +
+                            entry.issueCount + ' issue' + (entry.issueCount === 1 ? '' : 's');
+                        card.appendChild(meta);
+
+                        const description = document.createElement('div');
+                        description.className = 'description';
+                        description.textContent = entry.description;
+                        card.appendChild(description);
+
+                        const actions = document.createElement('div');
+                        actions.className = 'actions';
+                        actions.appendChild(button('Open', 'open', entry.id));
+                        actions.appendChild(button(entry.pinned ? 'Unpin' : 'Pin', 'pin', entry.id, true));
+                        actions.appendChild(button('Delete', 'delete', entry.id, true));
+                        card.appendChild(actions);
+
+                        grid.appendChild(card);
+                    });
+                }
+
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    if (message.type === 'setEntries') {
+                        setDevices(message.devices);
+                        renderEntries(message.entries, message.total);
+                    }
+                });
+            </script>
+        </body>
+        </html>`;
+    }
+}
+
+/**
+ * Opens an entry's analysis as a markdown document with the snapshot beside it.
+ */
+export async function openHistoryEntry(history: HistoryStore, entry: HistoryEntry): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument({
+        content: `# Display Analysis - ${entry.deviceName}\n\n` +
+            `Captured ${entry.capturedAt.toLocaleString()} (${entry.width}x${entry.height})` +
+            `${entry.pinned ? ', pinned' : ''}\n\n${formatAnalysisMarkdown(entry.analysis)}`,
+        language: 'markdown'
+    });
+    await vscode.window.showTextDocument(doc);
+    await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(history.imagePath(entry)), vscode.ViewColumn.Beside);
+}
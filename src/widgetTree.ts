@@ -0,0 +1,191 @@
+import { postCommand } from './cameraManager';
+import { logger } from './logger';
+import { isRecord } from './utils';
+
+export interface WidgetNode {
+    /** LVGL class name without the `lv_` prefix and `_class` suffix, e.g. `btn` or `label` */
+    type: string;
+    /** Absolute position and size in display pixels */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    text?: string;
+    hidden: boolean;
+    /** Active LVGL states, e.g. `checked`, `pressed`, `disabled` */
+    states: string[];
+    /** Main-part styles reported by the firmware, e.g. `bg_color: "#2196f3"` */
+    styles: Record<string, string | number>;
+    /** The content, typically label text, does not fit inside the object */
+    overflow: boolean;
+    children: WidgetNode[];
+}
+
+export interface WidgetTree {
+    displayWidth: number;
+    displayHeight: number;
+    /** Name of the active screen, if the firmware sets one */
+    screen?: string;
+    root: WidgetNode;
+    receivedAt: Date;
+}
+
+/*
+ * Protocol: POST /command with the form field `command=widget_tree` answers
+ *   { "status": "ok", "display": { "width": 320, "height": 240 }, "screen": "settings", "root": <node> }
+ * where a node is
+ *   { "type": "btn", "x": 100, "y": 100, "w": 120, "h": 40, "text": "OK", "hidden": false,
+ *     "states": ["pressed"], "styles": { "bg_color": "#2196f3" }, "overflow": false, "children": [...] }
+ * `screen` is optional and names the active screen for prompt templates.
+ */
+const REQUEST_TIMEOUT = 1500;
+// After a failed request the device is left alone for this long, so firmware without
+// the widget tree hook does not slow down every analysis
+const RETRY_AFTER_FAILURE = 30000;
+const MAX_PROMPT_NODES = 80;
+
+export function parseWidgetTree(data: unknown): WidgetTree {
+    if (!isRecord(data) || !isRecord(data.display) || !isRecord(data.root)) {
+        throw new Error('Invalid widget tree: expected display and root objects');
+    }
+
+    const displayWidth = Number(data.display.width);
+    const displayHeight = Number(data.display.height);
+    if (!(displayWidth > 0) || !(displayHeight > 0)) {
+        throw new Error('Invalid widget tree: missing display size');
+    }
+
+    return {
+        displayWidth,
+        displayHeight,
+        screen: typeof data.screen === 'string' && data.screen ? data.screen : undefined,
+        root: parseNode(data.root, 0),
+        receivedAt: new Date()
+    };
+}
+
+/**
+ * Lists the visible widgets depth-first, parents before their children.
+ */
+export function flattenWidgets(tree: WidgetTree): { node: WidgetNode; depth: number }[] {
+    const result: { node: WidgetNode; depth: number }[] = [];
+    const visit = (node: WidgetNode, depth: number) => {
+        if (node.hidden) {
+            return;
+        }
+        result.push({ node, depth });
+        node.children.forEach(child => visit(child, depth + 1));
+    };
+    visit(tree.root, 0);
+    return result;
+}
+
+/**
+ * Renders the tree as an indented outline for AI prompts, one widget per line.
+ */
+export function formatWidgetTree(tree: WidgetTree, maxNodes = MAX_PROMPT_NODES): string {
+    const widgets = flattenWidgets(tree);
+    const lines = widgets.slice(0, maxNodes).map(({ node, depth }) => {
+        const parts = [`${'  '.repeat(depth)}${node.type}`];
+        if (node.text !== undefined) {
+            parts.push(JSON.stringify(node.text));
+        }
+        parts.push(`at ${node.x},${node.y} size ${node.width}x${node.height}`);
+        if (node.states.length > 0) {
+            parts.push(`[${node.states.join(', ')}]`);
+        }
+        const styles = Object.entries(node.styles).map(([key, value]) => `${key}=${value}`);
+        if (styles.length > 0) {
+            parts.push(styles.join(' '));
+        }
+        if (node.overflow) {
+            parts.push('CONTENT OVERFLOWS');
+        }
+        return parts.join(' ');
+    });
+
+    if (widgets.length > maxNodes) {
+        lines.push(`... ${widgets.length - maxNodes} more widgets omitted`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Fetches the LVGL widget tree from the board running the UI, keeping the
+ * last tree for callers that can do with a slightly older one.
+ */
+export class WidgetTreeClient {
+    private last?: WidgetTree;
+    private lastFailure = 0;
+
+    constructor(private readonly getAddress: () => { host: string; port: number }) {}
+
+    public async fetch(): Promise<WidgetTree> {
+        const { host, port } = this.getAddress();
+        try {
+            this.last = parseWidgetTree(await postCommand(host, port, 'widget_tree', {}, REQUEST_TIMEOUT));
+            this.lastFailure = 0;
+            return this.last;
+        } catch (error) {
+            this.lastFailure = Date.now();
+            throw new Error(`Failed to read widget tree from ${host}:${port}: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+
+    /**
+     * Returns a tree no older than `maxAgeMs`, fetching one if needed, or
+     * undefined if the device does not answer.
+     */
+    public async getRecent(maxAgeMs: number): Promise<WidgetTree | undefined> {
+        if (this.last && Date.now() - this.last.receivedAt.getTime() <= maxAgeMs) {
+            return this.last;
+        }
+        if (Date.now() - this.lastFailure < RETRY_AFTER_FAILURE) {
+            return undefined;
+        }
+
+        try {
+            return await this.fetch();
+        } catch (error) {
+            logger.error(error);
+            return undefined;
+        }
+    }
+
+    public getLast(): WidgetTree | undefined {
+        return this.last;
+    }
+}
+
+function parseNode(value: unknown, depth: number): WidgetNode {
+    if (!isRecord(value)) {
+        throw new Error('Invalid widget tree: node is not an object');
+    }
+    // LVGL trees are shallow; anything this deep is corrupt or cyclic
+    if (depth > 64) {
+        throw new Error('Invalid widget tree: nesting too deep');
+    }
+
+    const styles: Record<string, string | number> = {};
+    if (isRecord(value.styles)) {
+        for (const [key, style] of Object.entries(value.styles)) {
+            if (typeof style === 'string' || typeof style === 'number') {
+                styles[key] = style;
+            }
+        }
+    }
+
+    return {
+        type: typeof value.type === 'string' ? value.type : 'obj',
+        x: Number(value.x) || 0,
+        y: Number(value.y) || 0,
+        width: Number(value.w) || 0,
+        height: Number(value.h) || 0,
+        text: typeof value.text === 'string' ? value.text : undefined,
+        hidden: value.hidden === true,
+        states: Array.isArray(value.states) ? value.states.filter((s): s is string => typeof s === 'string') : [],
+        styles,
+        overflow: value.overflow === true,
+        children: Array.isArray(value.children) ? value.children.map(child => parseNode(child, depth + 1)) : []
+    };
+}